@@ -0,0 +1,79 @@
+// Reconcile credit ledgers against Profile.greenCredits in the Firestore emulator.
+//
+//   npm run reconcile-ledger -- --admin <uid> [--user <uid>] [--keep ledger|profile --reason "..."]
+//
+// Runs as the given admin account, so the security rules apply just as they do in the
+// admin console. Connects to FIRESTORE_EMULATOR_HOST, or localhost:8080. Checks every
+// profile unless --user is given. With --keep, each ledger that doesn't balance gets a
+// correction at the chosen balance, the same as approving it in the console.
+import { parseArgs } from 'node:util';
+import { connectFirestoreEmulator } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { getProfile, listProfiles, postLedgerCorrection, reconcileUserLedger } from '@/lib/firebase/services';
+import type { LedgerReconciliation } from '@/lib/ledger';
+
+const usage = 'Usage: npm run reconcile-ledger -- --admin <uid> [--user <uid>] [--keep ledger|profile --reason "..."]';
+
+const { values } = parseArgs({
+  options: {
+    admin: { type: 'string' },
+    user: { type: 'string' },
+    keep: { type: 'string' },
+    reason: { type: 'string' },
+  },
+});
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+if (!values.admin) fail(usage);
+if (values.keep && values.keep !== 'ledger' && values.keep !== 'profile') fail(usage);
+if (values.keep && !values.reason?.trim()) fail('--keep needs a --reason for the correction');
+
+const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST ?? 'localhost:8080').split(':');
+connectFirestoreEmulator(db, host, Number(port), { mockUserToken: { user_id: values.admin } });
+
+async function* userIds() {
+  if (values.user) {
+    yield values.user;
+    return;
+  }
+  let after: Awaited<ReturnType<typeof listProfiles>>['cursor'] = null;
+  do {
+    const page = await listProfiles({}, { pageSize: 100, after });
+    for (const profile of page.profiles) yield profile.id;
+    after = page.hasMore ? page.cursor : null;
+  } while (after);
+}
+
+function report(r: LedgerReconciliation) {
+  console.log(`${r.userId}: profile ${r.profileBalance}, ledger ${r.ledgerBalance} (${r.transactionCount} entries), difference ${r.difference}`);
+  for (const m of r.mismatches.filter(m => !m.resolved)) {
+    console.log(`  ${m.transactionId} ${m.type} ${m.amount}: balanceAfter ${m.recordedBalance}, expected ${m.expectedBalance}`);
+  }
+}
+
+const admin = await getProfile(values.admin);
+if (admin?.role !== 'admin') fail(`${values.admin} is not an admin account`);
+
+let checked = 0;
+let unbalanced = 0;
+for await (const userId of userIds()) {
+  const reconciliation = await reconcileUserLedger(userId);
+  checked += 1;
+  if (reconciliation.isBalanced) continue;
+
+  unbalanced += 1;
+  report(reconciliation);
+  if (values.keep) {
+    const balance = values.keep === 'ledger' ? reconciliation.ledgerBalance : reconciliation.profileBalance;
+    const txId = await postLedgerCorrection(reconciliation, balance, admin, values.reason!);
+    console.log(`  corrected to ${balance} (${txId})`);
+  }
+}
+
+console.log(`${checked} ledger${checked === 1 ? '' : 's'} checked, ${unbalanced} not balanced`);
+// The Firestore client keeps the process alive; exit non-zero when something is left unbalanced
+process.exit(unbalanced > 0 && !values.keep ? 1 : 0);
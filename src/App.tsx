@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Webcam from 'react-webcam';
 import { 
@@ -15,9 +15,10 @@ import {
   Headphones, Gamepad2, Wifi, UtensilsCrossed, Coffee, Heart,
   Star, Flame, Lock, CheckCircle2,
   Calendar, Gift, Bell, Mail, Lock as LockIcon, Eye, EyeOff,
-  Chrome, Github
+  Chrome, Github, Inbox, Truck, Ticket, Copy, ListPlus, Trash2, ImagePlus, ShieldAlert, Shield, Users, ScrollText, Scale
 } from 'lucide-react';
 import { toast, Toaster } from 'sonner';
+import confetti from 'canvas-confetti';
 import { 
   onAuthStateChanged, 
   signInWithEmailAndPassword, 
@@ -34,18 +35,79 @@ import {
   createPickup,
   getUserPickups,
   subscribeToUserPickups,
-  addPickupItems,
   getUserTransactions,
-  subscribeToUserTransactions
+  subscribeToUserTransactions,
+  subscribeToUserRedemptions,
+  subscribeToUserAchievements,
+  subscribeToUserNotifications,
+  subscribeToCategoryCatalog,
+  markNotificationAsRead,
+  recordStreakActivity,
+  updateProfile as updateUserProfile,
+  redeemReward,
+  getUserPickupsPage,
+  getPickupStatusHistory,
+  subscribeToPickup,
+  type PickupPage,
+  subscribeToPendingPickups,
+  subscribeToCollectorPickups,
+  acceptPickup,
+  ratePickup,
+  getCollectorCompletedPickups,
+  getCompletedPickupsBetween,
+  cancelPickup,
+  reschedulePickup,
+  updatePickupStatus,
+  completePickupAndAwardCredits,
+  getPickupItems,
+  subscribeToPickupItems,
+  subscribeToCollectorLocation,
+  getCategoryCatalog,
+  newPickupId,
+  newPickupItemId,
+  uploadPickupItemPhoto,
+  getPickupPhotoUrl,
+  saveInspection,
+  type InspectionItemInput,
+  searchPickups,
+  type PickupSearch,
+  listProfiles,
+  type ProfilePage,
+  adminUpdateProfile,
+  type AdminProfileChanges,
+  reassignPickup,
+  publishCategoryCatalog,
+  searchAuditLog,
+  type AuditLogSearch,
+  type AuditLogPage,
+  reconcileUserLedger,
+  postLedgerCorrection
 } from '@/lib/firebase/services';
 
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
-import { useEwasteScanner } from '@/hooks/use-ewaste-scanner';
-import { ewasteCategories, achievements, rewardsCatalog, badgeLevelConfig } from '@/lib/data/categories';
+import { useEwasteScanner, type ScanResult } from '@/hooks/use-ewaste-scanner';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { useLocationSharing } from '@/hooks/use-location-sharing';
+import { distanceKm, estimateEtaMinutes, formatDistance, formatEta, type LatLng } from '@/lib/geo';
+import TrackingMap from '@/components/map/tracking-map';
+import { canTransition, reassignableStatuses, reschedulableStatuses, resolvePickupActor } from '@/lib/pickup-status';
+import { toDate } from '@/lib/utils';
+import { getPickupRating, getRatedParty, getRatingDeadline, isRatingWindowOpen, MAX_RATING, ratingTags } from '@/lib/ratings';
+import { getAchievementProgress } from '@/lib/achievements';
+import { getLifetimeCredits } from '@/lib/badges';
+import { getCurrentStreak, toLocalDay } from '@/lib/streaks';
+import { calculateImpact, calculateItemImpact, type ImpactItem } from '@/lib/impact';
+import { compareInspection, type InspectionOutcome } from '@/lib/inspection';
+import { formatAuditValue } from '@/lib/audit';
+import type { LedgerReconciliation } from '@/lib/ledger';
+import { confirmHazardChecks, getCollectorChecklist, getHazardGuidance, getHazardousCategoryIds, getPeriodStart, summarizeHazardousWeight, type ReportPeriod } from '@/lib/hazards';
+import { loadImage, toScannerImage } from '@/lib/images';
+import { useAppStore } from '@/lib/store/app-store';
+import { achievements, rewardsCatalog, badgeLevelConfig } from '@/lib/data/categories';
 import { PWAInstallPrompt } from '@/components/pwa/install-prompt';
-import type { Profile, PickupRequest, CreditTransaction, UserAchievement } from '@/lib/types/database';
+import type { Profile, AuditAction, AuditLogEntry, PickupRequest, PickupItem, AiScanResult, PickupStatusChange, CollectorLocation, PickupStatus, EwasteCategory, CreditTransaction, Redemption, AchievementUnlock, UserAchievement, UserRole } from '@/lib/types/database';
 
 // Icon mapping
 const iconMap: Record<string, React.ElementType> = {
@@ -64,6 +126,18 @@ const statusColors: Record<string, string> = {
   inspecting: 'bg-orange-500/10 text-orange-400 border-orange-500/20',
 };
 
+// Next step a collector can take from each status, shown as the primary action on a job
+const collectorStatusActions: Partial<Record<PickupStatus, { next: PickupStatus; label: string }>> = {
+  matched: { next: 'collector_enroute', label: 'Start Route' },
+  collector_enroute: { next: 'arrived', label: "I've Arrived" },
+  arrived: { next: 'inspecting', label: 'Start Inspection' },
+  inspecting: { next: 'collected', label: 'Mark Collected' },
+  collected: { next: 'completed', label: 'Complete Pickup' },
+};
+
+// Statuses in which the pickup page shows the live map
+const trackableStatuses: PickupStatus[] = ['matched', 'collector_enroute', 'arrived'];
+
 const timeSlotLabels: Record<string, string> = {
   morning: '🌅 Morning (8 AM – 12 PM)',
   afternoon: '☀️ Afternoon (12 PM – 5 PM)',
@@ -134,6 +208,22 @@ function StatCard({
   );
 }
 
+// Item photo stored in Firebase Storage; the URL is only handed out to the pickup's parties
+function PickupPhoto({ path, className = '' }: { path: string; className?: string }) {
+  const [resolved, setResolved] = useState<{ path: string; url: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPickupPhotoUrl(path)
+      .then(url => !cancelled && setResolved({ path, url }))
+      .catch((err) => console.error('Failed to load photo:', err));
+    return () => { cancelled = true; };
+  }, [path]);
+
+  if (resolved?.path !== path) return <div className={`bg-white/[0.04] shimmer ${className}`} />;
+  return <img src={resolved.url} alt="" className={`object-cover ${className}`} />;
+}
+
 // ==================== AUTH PAGES ====================
 
 function AuthPage({ onAuth }: { onAuth: (user: any) => void }) {
@@ -269,14 +359,28 @@ function AuthPage({ onAuth }: { onAuth: (user: any) => void }) {
 function Dashboard({ 
   profile, 
   pickups, 
-  onNavigate 
+  onNavigate,
+  onSelectPickup
 }: { 
   profile: Profile; 
   pickups: PickupRequest[];
   onNavigate: (page: string) => void;
+  onSelectPickup: (pickupId: string) => void;
 }) {
   const badge = badgeLevelConfig[profile.badgeLevel as keyof typeof badgeLevelConfig];
-  const levelProgress = ((profile.greenCredits - badge.minCredits) / (badge.maxCredits - badge.minCredits)) * 100;
+  const lifetimeCredits = getLifetimeCredits(profile);
+  const streakDays = getCurrentStreak(profile, new Date(), profile.timeZone);
+  const levelProgress = ((lifetimeCredits - badge.minCredits) / (badge.maxCredits - badge.minCredits)) * 100;
+  const notifications = useAppStore((state) => state.notifications);
+  const unratedPickup = pickups.find(p => p.collectorId && p.collectorRating === null && isRatingWindowOpen(p));
+
+  // Celebrate each badge promotion once, then mark its notification read
+  useEffect(() => {
+    const promotion = notifications.find(n => n.type === 'badge_promoted' && !n.isRead);
+    if (!promotion) return;
+    confetti({ particleCount: 140, spread: 80, origin: { y: 0.35 }, colors: ['#22C55E', '#4ADE80', '#06B6D4', '#FACC15'] });
+    markNotificationAsRead(promotion.id).catch((err) => console.error('Failed to mark notification read:', err));
+  }, [notifications]);
 
   return (
     <div className="px-4 pt-6 pb-32 space-y-6">
@@ -307,7 +411,7 @@ function Dashboard({
           <div className="space-y-2">
             <div className="flex justify-between items-center">
               <span className="text-sm text-zinc-400">{badge.icon} {badge.label}</span>
-              {badge.next && <span className="text-xs text-zinc-500">{badge.maxCredits - profile.greenCredits} to {badge.next}</span>}
+              {badge.next && <span className="text-xs text-zinc-500">{Math.max(0, badge.maxCredits - lifetimeCredits)} to {badge.next}</span>}
             </div>
             <div className="h-2 bg-white/[0.06] rounded-full overflow-hidden">
               <motion.div initial={{ width: 0 }} animate={{ width: `${Math.min(levelProgress, 100)}%` }} transition={{ duration: 1, delay: 0.5, ease: 'easeOut' }} className="h-full bg-eco-gradient rounded-full" />
@@ -320,7 +424,7 @@ function Dashboard({
         <StatCard icon={<Recycle className="w-5 h-5 text-eco-400" />} label="Items Recycled" value={profile.totalItemsRecycled} delay={0.1} />
         <StatCard icon={<Weight className="w-5 h-5 text-cyan-400" />} label="Weight Saved" value={profile.totalWeightKg.toFixed(1)} unit="kg" delay={0.2} />
         <StatCard icon={<TreePine className="w-5 h-5 text-emerald-400" />} label="CO₂ Prevented" value={profile.co2SavedKg.toFixed(1)} unit="kg" delay={0.3} />
-        <StatCard icon={<Zap className="w-5 h-5 text-yellow-400" />} label="Day Streak" value={profile.streakDays} unit="days" delay={0.4} />
+        <StatCard icon={<Zap className="w-5 h-5 text-yellow-400" />} label="Day Streak" value={streakDays} unit="days" delay={0.4} />
       </div>
 
       <div className="space-y-3">
@@ -343,10 +447,23 @@ function Dashboard({
         </div>
       </div>
 
+      {unratedPickup && (
+        <button onClick={() => onSelectPickup(unratedPickup.id)} className="w-full text-left">
+          <GlassCard variant="interactive" className="p-4 flex items-center gap-4">
+            <div className="w-10 h-10 rounded-xl bg-yellow-500/10 flex items-center justify-center shrink-0"><Star className="w-5 h-5 text-yellow-400" /></div>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-white">How was your pickup?</p>
+              <p className="text-xs text-zinc-500">Rate your collector for pickup #{unratedPickup.id.slice(0, 8).toUpperCase()}</p>
+            </div>
+            <ChevronRight className="w-4 h-4 text-zinc-600 shrink-0" />
+          </GlassCard>
+        </button>
+      )}
+
       <div className="space-y-3">
         <div className="flex justify-between items-center">
           <h2 className="text-lg font-semibold text-white">Recent Pickups</h2>
-          <button className="text-xs text-eco-400 flex items-center gap-1">View all <ChevronRight className="w-3 h-3" /></button>
+          <button onClick={() => onNavigate('history')} className="text-xs text-eco-400 flex items-center gap-1">View all <ChevronRight className="w-3 h-3" /></button>
         </div>
         {pickups.length === 0 ? (
           <GlassCard className="flex flex-col items-center py-8 gap-3">
@@ -358,24 +475,7 @@ function Dashboard({
           <div className="space-y-2">
             {pickups.slice(0, 5).map((pickup, i) => (
               <motion.div key={pickup.id} initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: i * 0.1 }}>
-                <GlassCard variant="interactive" className="flex items-center gap-4 p-4">
-                  <div className="w-12 h-12 rounded-xl bg-eco-500/10 flex items-center justify-center shrink-0"><Recycle className="w-6 h-6 text-eco-400" /></div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <p className="text-sm font-medium text-white truncate">{pickup.totalItems} item{pickup.totalItems !== 1 ? 's' : ''}</p>
-                      <Badge className={`text-[10px] border ${statusColors[pickup.status]}`}>{pickup.status.replace('_', ' ')}</Badge>
-                    </div>
-                    <p className="text-xs text-zinc-500 flex items-center gap-1 mt-0.5">
-                      <Clock className="w-3 h-3" />
-                      {pickup.createdAt ? new Date(pickup.createdAt).toLocaleDateString() : 'Just now'} · {pickup.estimatedWeightKg}kg est.
-                    </p>
-                  </div>
-                  <div className="text-right shrink-0">
-                    <p className="text-sm font-semibold text-eco-400 font-mono">+{pickup.actualCreditsAwarded || pickup.estimatedCredits}</p>
-                    <p className="text-[10px] text-zinc-500">credits</p>
-                  </div>
-                  <ChevronRight className="w-4 h-4 text-zinc-600 shrink-0" />
-                </GlassCard>
+                <PickupRow pickup={pickup} onSelect={onSelectPickup} />
               </motion.div>
             ))}
           </div>
@@ -385,705 +485,3184 @@ function Dashboard({
   );
 }
 
-// ==================== AI SCANNER ====================
+// ==================== PICKUP HISTORY & DETAIL ====================
 
-function ScannerPage() {
-  const webcamRef = useRef<Webcam>(null);
-  const [isCameraReady, setIsCameraReady] = useState(false);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
-  const { isModelLoading, isScanning, result, error, loadModel, scanImage, resetScan } = useEwasteScanner();
+const historyFilters: { id: string; label: string; statuses?: PickupStatus[] }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'active', label: 'Active', statuses: ['pending', 'matched', 'collector_enroute', 'arrived', 'inspecting', 'collected'] },
+  { id: 'completed', label: 'Completed', statuses: ['completed'] },
+  { id: 'cancelled', label: 'Cancelled', statuses: ['cancelled'] },
+];
 
-  useEffect(() => { loadModel(); }, [loadModel]);
+const HISTORY_PAGE_SIZE = 10;
 
-  const capture = useCallback(async () => {
-    if (!webcamRef.current) return;
-    const imageSrc = webcamRef.current.getScreenshot();
-    if (!imageSrc) return;
-    setCapturedImage(imageSrc);
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = imageSrc;
-    img.onload = async () => { await scanImage(img); };
-  }, [scanImage]);
+function PickupRow({ pickup, onSelect }: { pickup: PickupRequest; onSelect: (pickupId: string) => void }) {
+  const createdAt = toDate(pickup.createdAt);
+  return (
+    <button onClick={() => onSelect(pickup.id)} className="w-full text-left">
+      <GlassCard variant="interactive" className="flex items-center gap-4 p-4">
+        <div className="w-12 h-12 rounded-xl bg-eco-500/10 flex items-center justify-center shrink-0">{pickup.status === 'collector_enroute' ? <Truck className="w-6 h-6 text-eco-400" /> : <Recycle className="w-6 h-6 text-eco-400" />}</div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium text-white truncate">{pickup.totalItems} item{pickup.totalItems !== 1 ? 's' : ''}</p>
+            <Badge className={`text-[10px] border ${statusColors[pickup.status]}`}>{pickup.status.replace('_', ' ')}</Badge>
+          </div>
+          <p className="text-xs text-zinc-500 flex items-center gap-1 mt-0.5">
+            <Clock className="w-3 h-3" />
+            {createdAt ? createdAt.toLocaleDateString() : 'Just now'} · {pickup.estimatedWeightKg}kg est.
+          </p>
+        </div>
+        <div className="text-right shrink-0">
+          <p className="text-sm font-semibold text-eco-400 font-mono">+{pickup.actualCreditsAwarded || pickup.estimatedCredits}</p>
+          <p className="text-[10px] text-zinc-500">credits</p>
+        </div>
+        <ChevronRight className="w-4 h-4 text-zinc-600 shrink-0" />
+      </GlassCard>
+    </button>
+  );
+}
 
-  const retake = () => { setCapturedImage(null); resetScan(); };
-  const toggleCamera = () => setFacingMode(prev => prev === 'environment' ? 'user' : 'environment');
+function PickupHistoryPage({ userId, onSelect, onBack }: { userId: string; onSelect: (pickupId: string) => void; onBack: () => void }) {
+  const [filter, setFilter] = useState('all');
+  const [pickups, setPickups] = useState<PickupRequest[]>([]);
+  const [cursor, setCursor] = useState<PickupPage['cursor']>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const statuses = historyFilters.find(f => f.id === filter)?.statuses;
+
+  useEffect(() => {
+    let cancelled = false;
+    getUserPickupsPage(userId, { statuses, pageSize: HISTORY_PAGE_SIZE })
+      .then(page => {
+        if (cancelled) return;
+        setPickups(page.pickups);
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load pickups'))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [userId, statuses]);
+
+  const selectFilter = (id: string) => {
+    if (id === filter) return;
+    setFilter(id);
+    setLoading(true);
+    setPickups([]);
+  };
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await getUserPickupsPage(userId, { statuses, pageSize: HISTORY_PAGE_SIZE, after: cursor });
+      setPickups(prev => [...prev, ...page.pickups]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load more pickups');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   return (
-    <div className="px-4 pt-6 pb-32">
-      <div className="mb-6">
-        <div className="flex items-center gap-2 mb-1">
-          <Sparkles className="w-5 h-5 text-purple-400" />
-          <h1 className="text-xl font-bold text-white">AI Scanner</h1>
+    <div className="min-h-screen px-4 pt-6 pb-32 space-y-4">
+      <div className="flex items-center gap-4">
+        <button onClick={onBack} className="w-10 h-10 rounded-xl glass flex items-center justify-center"><ArrowLeft className="w-5 h-5 text-white" /></button>
+        <div>
+          <h1 className="text-xl font-bold text-white">Pickup History</h1>
+          <p className="text-sm text-zinc-500">Every pickup you've requested</p>
         </div>
-        <p className="text-sm text-zinc-500">Point your camera at any electronic item to identify it</p>
       </div>
 
-      {isModelLoading && (
-        <GlassCard className="p-4 mb-4 flex items-center gap-3">
-          <div className="w-10 h-10 rounded-xl bg-purple-500/10 flex items-center justify-center"><Loader2 className="w-5 h-5 text-purple-400 animate-spin" /></div>
-          <div>
-            <p className="text-sm font-medium text-white">Loading AI Model...</p>
-            <p className="text-xs text-zinc-500">First time may take a few seconds</p>
-          </div>
+      <div className="flex gap-2 overflow-x-auto">
+        {historyFilters.map(f => (
+          <button key={f.id} onClick={() => selectFilter(f.id)}
+            className={`px-4 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-all ${filter === f.id ? 'bg-eco-500/20 text-eco-400 border border-eco-500/30' : 'bg-white/[0.03] text-zinc-400 border border-white/[0.06]'}`}>
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map(i => <div key={i} className="glass-card h-20 shimmer" />)}
+        </div>
+      ) : pickups.length === 0 ? (
+        <GlassCard className="flex flex-col items-center py-8 gap-3">
+          <div className="w-16 h-16 rounded-full bg-eco-500/10 flex items-center justify-center"><Inbox className="w-8 h-8 text-eco-500/50" /></div>
+          <p className="text-zinc-500 text-sm">No pickups here</p>
         </GlassCard>
+      ) : (
+        <div className="space-y-2">
+          {pickups.map(pickup => <PickupRow key={pickup.id} pickup={pickup} onSelect={onSelect} />)}
+          {hasMore && (
+            <button onClick={loadMore} disabled={loadingMore} className="w-full glass-button text-sm py-3 flex items-center justify-center gap-1.5 disabled:opacity-50">
+              {loadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more'}
+            </button>
+          )}
+        </div>
       )}
+    </div>
+  );
+}
 
-      <div className="relative rounded-3xl overflow-hidden border border-white/[0.06] mb-4">
-        {!capturedImage ? (
-          <>
-            <Webcam ref={webcamRef} audio={false} screenshotFormat="image/jpeg" videoConstraints={{ facingMode, width: { ideal: 640 }, height: { ideal: 480 } }} onUserMedia={() => setIsCameraReady(true)} className="w-full aspect-[4/3] object-cover" />
-            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-              <div className="w-48 h-48 relative">
-                <div className="absolute top-0 left-0 w-8 h-8 border-t-2 border-l-2 border-eco-400 rounded-tl-lg" />
-                <div className="absolute top-0 right-0 w-8 h-8 border-t-2 border-r-2 border-eco-400 rounded-tr-lg" />
-                <div className="absolute bottom-0 left-0 w-8 h-8 border-b-2 border-l-2 border-eco-400 rounded-bl-lg" />
-                <div className="absolute bottom-0 right-0 w-8 h-8 border-b-2 border-r-2 border-eco-400 rounded-br-lg" />
-                <motion.div className="absolute left-0 right-0 h-0.5 bg-eco-gradient" animate={{ top: ['0%', '100%', '0%'] }} transition={{ duration: 3, repeat: Infinity, ease: 'easeInOut' }} />
-              </div>
+const statusTimelineLabels: Record<PickupStatus, string> = {
+  pending: 'Requested',
+  matched: 'Collector assigned',
+  collector_enroute: 'Collector on the way',
+  arrived: 'Collector arrived',
+  inspecting: 'Inspection started',
+  collected: 'Items collected',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+function PickupTimeline({ pickup }: { pickup: PickupRequest }) {
+  const [history, setHistory] = useState<PickupStatusChange[]>([]);
+
+  // Refetch whenever the pickup moves on, so the new step appears
+  useEffect(() => {
+    getPickupStatusHistory(pickup.id)
+      .then(setHistory)
+      .catch((err) => console.error('Failed to load status history:', err));
+  }, [pickup.id, pickup.status]);
+
+  const steps = [
+    { id: 'created', label: statusTimelineLabels.pending, at: toDate(pickup.createdAt), detail: null as string | null },
+    ...history.map(change => ({
+      id: change.id,
+      label: statusTimelineLabels[change.toStatus],
+      at: toDate(change.changedAt),
+      detail: [change.changedByRole === 'donor' ? 'by you' : `by ${change.changedByRole}`, change.reason].filter(Boolean).join(' · '),
+    })),
+  ];
+
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-white flex items-center gap-2"><Clock className="w-4 h-4 text-eco-400" /> Timeline</h3>
+      <div className="space-y-0">
+        {steps.map((step, i) => (
+          <div key={step.id} className="flex gap-3">
+            <div className="flex flex-col items-center">
+              <div className={`w-2.5 h-2.5 rounded-full mt-1.5 ${i === steps.length - 1 ? 'bg-eco-400 shadow-glow' : 'bg-white/20'}`} />
+              {i < steps.length - 1 && <div className="w-px flex-1 bg-white/10" />}
             </div>
-            <div className="absolute bottom-4 left-0 right-0 flex items-center justify-center gap-6">
-              <button onClick={toggleCamera} className="w-12 h-12 rounded-full glass flex items-center justify-center"><RotateCcw className="w-5 h-5 text-white" /></button>
-              <motion.button whileTap={{ scale: 0.85 }} onClick={capture} disabled={!isCameraReady || isModelLoading} className="w-18 h-18 rounded-full bg-white flex items-center justify-center shadow-lg disabled:opacity-50">
-                <div className="w-16 h-16 rounded-full border-4 border-surface flex items-center justify-center"><Camera className="w-7 h-7 text-surface" /></div>
-              </motion.button>
-              <div className="w-12 h-12" />
+            <div className="pb-4">
+              <p className="text-sm text-white">{step.label}</p>
+              <p className="text-[11px] text-zinc-500">
+                {step.at ? step.at.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : 'Just now'}
+                {step.detail && ` · ${step.detail}`}
+              </p>
             </div>
-          </>
-        ) : (
-          <>
-            <img src={capturedImage} alt="Captured" className="w-full aspect-[4/3] object-cover" />
-            {isScanning && (
-              <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
-                <div className="flex flex-col items-center gap-3">
-                  <motion.div animate={{ rotate: 360 }} transition={{ duration: 2, repeat: Infinity, ease: 'linear' }}><ScanLine className="w-12 h-12 text-eco-400" /></motion.div>
-                  <p className="text-white text-sm font-medium">Analyzing with AI...</p>
-                </div>
-              </div>
-            )}
-          </>
-        )}
+          </div>
+        ))}
       </div>
+    </GlassCard>
+  );
+}
 
-      <AnimatePresence>
-        {result && (
-          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="space-y-3">
-            {result.isEwaste ? (
-              <>
-                <GlassCard variant="glow" className="p-5">
-                  <div className="flex items-start gap-4">
-                    <div className="w-12 h-12 rounded-xl bg-eco-500/20 flex items-center justify-center shrink-0"><Check className="w-6 h-6 text-eco-400" /></div>
-                    <div className="flex-1">
-                      <p className="text-xs text-eco-400 uppercase tracking-wider font-semibold">E-Waste Identified ✓</p>
-                      <p className="text-lg font-bold text-white mt-1">{result.category}</p>
-                      <div className="flex items-center gap-2 mt-2">
-                        <div className="h-1.5 flex-1 bg-white/[0.06] rounded-full overflow-hidden">
-                          <motion.div initial={{ width: 0 }} animate={{ width: `${Math.round(result.confidence * 100)}%` }} className="h-full bg-eco-gradient rounded-full" />
-                        </div>
-                        <span className="text-xs font-mono text-eco-400">{Math.round(result.confidence * 100)}%</span>
-                      </div>
-                      <p className="text-xs text-zinc-500 mt-1">Detected as: {result.label}</p>
-                    </div>
-                  </div>
-                </GlassCard>
-                <GlassCard className="p-4 flex items-center gap-3">
-                  <Zap className="w-5 h-5 text-yellow-400" />
-                  <div className="flex-1">
-                    <p className="text-sm text-white font-medium">AI Scan Bonus</p>
-                    <p className="text-xs text-zinc-500">+5 bonus credits for using the scanner!</p>
-                  </div>
-                  <span className="text-eco-400 font-mono font-bold">+5</span>
-                </GlassCard>
-                <div className="flex gap-3">
-                  <button onClick={retake} className="flex-1 glass-button"><RotateCcw className="w-4 h-4 mr-2 inline" /> Scan Again</button>
-                  <button className="flex-1 eco-button flex items-center justify-center gap-2"><Plus className="w-4 h-4" /> Add to Pickup</button>
-                </div>
-              </>
-            ) : (
-              <GlassCard className="p-5">
-                <div className="flex items-start gap-4">
-                  <div className="w-12 h-12 rounded-xl bg-yellow-500/10 flex items-center justify-center shrink-0"><AlertTriangle className="w-6 h-6 text-yellow-400" /></div>
-                  <div>
-                    <p className="text-sm font-bold text-white">Not Identified as E-Waste</p>
-                    <p className="text-xs text-zinc-400 mt-1">Detected: {result.label} ({Math.round(result.confidence * 100)}%)</p>
-                    <p className="text-xs text-zinc-500 mt-2">Try scanning from a different angle, or select the category manually.</p>
-                  </div>
-                </div>
-                <div className="flex gap-3 mt-4">
-                  <button onClick={retake} className="flex-1 glass-button">Try Again</button>
-                  <button className="flex-1 eco-button">Select Manually</button>
-                </div>
-              </GlassCard>
-            )}
-          </motion.div>
-        )}
-      </AnimatePresence>
+function PickupItemsList({ pickup }: { pickup: PickupRequest }) {
+  const [items, setItems] = useState<PickupItem[]>([]);
+  const categories = useAppStore((state) => state.categoryCatalog.categories);
 
-      {error && (
-        <GlassCard className="p-4 border-red-500/20">
-          <div className="flex items-center gap-3"><X className="w-5 h-5 text-red-400" /><p className="text-sm text-red-400">{error}</p></div>
-        </GlassCard>
+  useEffect(() => {
+    getPickupItems(pickup.id)
+      .then(setItems)
+      .catch((err) => console.error('Failed to load pickup items:', err));
+  }, [pickup.id]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-white flex items-center gap-2"><Recycle className="w-4 h-4 text-eco-400" /> Items</h3>
+      {items.map(item => (
+        <div key={item.id} className="flex items-center gap-3">
+          {item.photoUrl
+            ? <PickupPhoto path={item.photoUrl} className="w-10 h-10 rounded-lg shrink-0" />
+            : <div className="w-10 h-10 rounded-lg bg-white/[0.04] flex items-center justify-center shrink-0"><Recycle className="w-4 h-4 text-zinc-500" /></div>}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white truncate">{item.quantity}× {categories.find(c => c.id === item.categoryId)?.name ?? item.categoryId}</p>
+            <p className="text-[11px] text-zinc-500">{item.condition.replace('_', ' ')} · {item.estimatedWeightKg.toFixed(1)}kg est.</p>
+            <AiDetectionNote item={item} />
+          </div>
+        </div>
+      ))}
+    </GlassCard>
+  );
+}
+
+// What the scanner identified, for items the donor added from a scan
+function AiDetectionNote({ item }: { item: PickupItem }) {
+  if (!item.aiDetectedLabel) return null;
+  return (
+    <p className="text-[11px] text-purple-400/80 flex items-center gap-1">
+      <Sparkles className="w-3 h-3" /> AI: {item.aiDetectedLabel}{item.aiConfidence !== null && ` · ${Math.round(item.aiConfidence * 100)}%`}
+    </p>
+  );
+}
+
+function CollectorCard({ collectorId }: { collectorId: string }) {
+  const [collector, setCollector] = useState<Profile | null>(null);
+
+  useEffect(() => {
+    getProfile(collectorId)
+      .then(setCollector)
+      .catch((err) => console.error('Failed to load collector profile:', err));
+  }, [collectorId]);
+
+  if (!collector) return null;
+  const badge = badgeLevelConfig[collector.badgeLevel as keyof typeof badgeLevelConfig];
+
+  return (
+    <GlassCard className="p-4 flex items-center gap-4">
+      {collector.avatarUrl
+        ? <img src={collector.avatarUrl} alt="" className="w-12 h-12 rounded-2xl object-cover" />
+        : <div className="w-12 h-12 rounded-2xl bg-eco-gradient flex items-center justify-center text-black font-bold">{collector.fullName.charAt(0)}</div>}
+      <div className="flex-1 min-w-0">
+        <p className="text-[11px] text-zinc-500 uppercase tracking-wider">Your collector</p>
+        <p className="text-sm font-semibold text-white flex items-center gap-1.5">
+          {collector.fullName}
+          {collector.isVerified && <CheckCircle2 className="w-3.5 h-3.5 text-eco-400" />}
+        </p>
+        <p className="text-xs text-zinc-500">{badge?.icon} {badge?.label}{collector.city && ` · ${collector.city}`}</p>
+      </div>
+      {collector.ratingAverage !== null && (collector.ratingCount ?? 0) > 0 && (
+        <div className="text-right shrink-0">
+          <p className="text-sm font-semibold text-white flex items-center gap-1"><Star className="w-3.5 h-3.5 text-yellow-400 fill-yellow-400" />{collector.ratingAverage.toFixed(1)}</p>
+          <p className="text-[10px] text-zinc-500">{collector.ratingCount} rating{collector.ratingCount !== 1 ? 's' : ''}</p>
+        </div>
       )}
-    </div>
+    </GlassCard>
   );
 }
 
-// ==================== PICKUP FORM ====================
+const donorCancelReasons = ['Plans changed', 'Found another way to recycle', 'Items no longer available', 'Booked by mistake'];
+const collectorCancelReasons = ["Couldn't reach the donor", 'Address not found', 'Vehicle problem', 'Items not as described'];
 
-function PickupForm({ userId, onBack }: { userId: string; onBack: () => void }) {
-  const [currentStep, setCurrentStep] = useState(1);
-  const [isSubmitted, setIsSubmitted] = useState(false);
+function CancelPickupPanel({ reasons, isSubmitting, onConfirm, onClose }: {
+  reasons: string[];
+  isSubmitting: boolean;
+  onConfirm: (reason: string) => void;
+  onClose: () => void;
+}) {
+  const [reason, setReason] = useState('');
+
+  return (
+    <GlassCard className="p-4 space-y-3 border-red-500/20">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Why are you cancelling?</h3>
+        <button onClick={onClose} className="text-zinc-500"><X className="w-4 h-4" /></button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {reasons.map(r => (
+          <button key={r} onClick={() => setReason(r)}
+            className={`px-3 py-1.5 rounded-full text-xs transition-all ${reason === r ? 'bg-red-500/20 text-red-300 border border-red-500/30' : 'bg-white/[0.03] text-zinc-400 border border-white/[0.06]'}`}>
+            {r}
+          </button>
+        ))}
+      </div>
+      <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} placeholder="Or tell us in your own words" className="glass-input w-full resize-none text-sm" />
+      <button onClick={() => onConfirm(reason)} disabled={!reason.trim() || isSubmitting} className="w-full glass-button text-sm py-2.5 text-red-400 flex items-center justify-center gap-1.5 disabled:opacity-50">
+        {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Confirm Cancellation'}
+      </button>
+    </GlassCard>
+  );
+}
+
+function ReschedulePanel({ pickup, isSubmitting, onConfirm, onClose }: {
+  pickup: PickupRequest;
+  isSubmitting: boolean;
+  onConfirm: (schedule: Pick<PickupRequest, 'preferredDate' | 'preferredTimeSlot'>) => void;
+  onClose: () => void;
+}) {
+  const [preferredDate, setPreferredDate] = useState(pickup.preferredDate);
+  const [preferredTimeSlot, setPreferredTimeSlot] = useState(pickup.preferredTimeSlot);
+  const today = toLocalDay(new Date(), Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const unchanged = preferredDate === pickup.preferredDate && preferredTimeSlot === pickup.preferredTimeSlot;
+
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Reschedule pickup</h3>
+        <button onClick={onClose} className="text-zinc-500"><X className="w-4 h-4" /></button>
+      </div>
+      <input type="date" min={today} value={preferredDate} onChange={e => setPreferredDate(e.target.value)} className="glass-input w-full" />
+      <div className="space-y-2">
+        {(['morning', 'afternoon', 'evening'] as const).map(slot => (
+          <button key={slot} onClick={() => setPreferredTimeSlot(slot)}
+            className={`w-full p-3 rounded-2xl border text-left text-sm transition-all ${preferredTimeSlot === slot ? 'bg-eco-500/10 border-eco-500/30 text-eco-300' : 'bg-white/[0.03] border-white/[0.06] text-white'}`}>
+            {timeSlotLabels[slot]}
+          </button>
+        ))}
+      </div>
+      <button onClick={() => onConfirm({ preferredDate, preferredTimeSlot })} disabled={!preferredDate || preferredDate < today || unchanged || isSubmitting}
+        className="w-full eco-button text-sm py-2.5 flex items-center justify-center gap-1.5 disabled:opacity-50">
+        {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Calendar className="w-4 h-4" /> Save New Time</>}
+      </button>
+    </GlassCard>
+  );
+}
+
+function RatingStars({ value, onChange, size = 'w-7 h-7' }: { value: number; onChange?: (rating: number) => void; size?: string }) {
+  return (
+    <div className="flex gap-1">
+      {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(n => (
+        <button key={n} type="button" onClick={onChange ? () => onChange(n) : undefined} disabled={!onChange} className="disabled:cursor-default">
+          <Star className={`${size} ${n <= value ? 'text-yellow-400 fill-yellow-400' : 'text-zinc-600'}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Lets whichever side the user is on rate the other once the pickup is completed
+function RatePickupCard({ pickup, profile, onRated }: { pickup: PickupRequest; profile: Profile; onRated?: () => void }) {
+  const [rating, setRating] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [pickupId, setPickupId] = useState<string>('');
-  const [formData, setFormData] = useState({
-    items: [] as { categoryId: string; categoryName: string; quantity: number; condition: string; estimatedWeight: number }[],
-    location: { address: '', city: '', state: '', zip: '', lat: 0, lng: 0, instructions: '' },
-    schedule: { date: '', timeSlot: 'morning' as 'morning' | 'afternoon' | 'evening' },
-  });
 
-  const steps = [
-    { id: 1, title: 'Items', subtitle: 'What are you recycling?' },
-    { id: 2, title: 'Location', subtitle: 'Where should we pick up?' },
-    { id: 3, title: 'Schedule', subtitle: 'When works for you?' },
-    { id: 4, title: 'Review', subtitle: 'Confirm your pickup' },
-  ];
+  const side = pickup.donorId === profile.id ? 'donor' : pickup.collectorId === profile.id ? 'collector' : null;
+  const ratedParty = getRatedParty(side);
+  if (!ratedParty || pickup.status !== 'completed') return null;
 
-  const updateFormData = (section: keyof typeof formData, data: any) => {
-    setFormData(prev => ({ ...prev, [section]: data }));
-  };
+  const given = getPickupRating(pickup, ratedParty);
+  const deadline = getRatingDeadline(pickup);
+  const title = ratedParty === 'collector' ? 'Rate your collector' : 'Rate the donor';
 
-  const nextStep = () => setCurrentStep(s => Math.min(s + 1, 4));
-  const prevStep = () => setCurrentStep(s => Math.max(s - 1, 1));
+  if (given !== null) {
+    return (
+      <GlassCard className="p-4 flex items-center justify-between">
+        <p className="text-sm text-zinc-400">You rated the {ratedParty}</p>
+        <RatingStars value={given} size="w-4 h-4" />
+      </GlassCard>
+    );
+  }
+  if (!isRatingWindowOpen(pickup)) {
+    return <GlassCard className="p-4"><p className="text-sm text-zinc-500">Ratings for this pickup have closed</p></GlassCard>;
+  }
+
+  const toggleTag = (tag: string) => setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
 
   const handleSubmit = async () => {
     setIsSubmitting(true);
     try {
-      const totalWeight = formData.items.reduce((s, i) => s + i.estimatedWeight * i.quantity, 0);
-      const totalItems = formData.items.reduce((s, i) => s + i.quantity, 0);
-      const estimatedCredits = Math.round(totalWeight * 20);
+      await ratePickup(pickup.id, { rating, tags, comment: comment || null }, profile);
+      toast.success('Thanks for your rating!');
+      onRated?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to submit rating');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-      const newPickupId = await createPickup({
-        donorId: userId,
-        collectorId: null,
-        pickupAddress: formData.location.address,
-        pickupCity: formData.location.city,
-        pickupState: formData.location.state,
-        pickupZip: formData.location.zip,
-        pickupLatitude: formData.location.lat,
-        pickupLongitude: formData.location.lng,
-        pickupInstructions: formData.location.instructions,
-        preferredDate: formData.schedule.date,
-        preferredTimeSlot: formData.schedule.timeSlot,
-        status: 'pending',
-        totalItems,
-        estimatedWeightKg: totalWeight,
-        actualWeightKg: null,
-        estimatedCredits,
-        actualCreditsAwarded: null,
-        aiScanResults: null,
-        itemPhotos: [],
-        donorRating: null,
-        collectorRating: null,
-        matchedAt: null,
-        collectedAt: null,
-        completedAt: null,
-      } as any);
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">{title}</h3>
+        {deadline && <span className="text-[11px] text-zinc-500">until {deadline.toLocaleDateString()}</span>}
+      </div>
+      <RatingStars value={rating} onChange={setRating} />
+      <div className="flex flex-wrap gap-2">
+        {ratingTags[ratedParty].map(tag => (
+          <button key={tag} onClick={() => toggleTag(tag)}
+            className={`px-3 py-1.5 rounded-full text-xs transition-all ${tags.includes(tag) ? 'bg-eco-500/20 text-eco-300 border border-eco-500/30' : 'bg-white/[0.03] text-zinc-400 border border-white/[0.06]'}`}>
+            {tag}
+          </button>
+        ))}
+      </div>
+      <textarea value={comment} onChange={e => setComment(e.target.value)} rows={2} maxLength={500} placeholder="Add a comment (optional)" className="glass-input w-full resize-none text-sm" />
+      <button onClick={handleSubmit} disabled={rating === 0 || isSubmitting} className="w-full eco-button text-sm py-2.5 flex items-center justify-center gap-1.5 disabled:opacity-50">
+        {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Submit Rating'}
+      </button>
+    </GlassCard>
+  );
+}
 
-      // Add pickup items
-      await addPickupItems(newPickupId, formData.items.map(item => ({
-        categoryId: item.categoryId,
-        description: null,
-        quantity: item.quantity,
-        condition: item.condition as any,
-        estimatedWeightKg: item.estimatedWeight * item.quantity,
-        actualWeightKg: null,
-        photoUrl: null,
-        aiDetectedLabel: null,
-        aiConfidence: null,
-        creditsEarned: 0,
-      })));
+function PickupDetailPage({ pickupId, profile, onBack }: { pickupId: string; profile: Profile; onBack: () => void }) {
+  const [pickup, setPickup] = useState<PickupRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [openPanel, setOpenPanel] = useState<'cancel' | 'reschedule' | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-      setPickupId(newPickupId);
-      toast.success('Pickup request created! 🎉');
-      setIsSubmitted(true);
-    } catch (err: any) {
-      toast.error(err.message || 'Failed to create pickup');
+  useEffect(() => {
+    return subscribeToPickup(pickupId, (next) => {
+      setPickup(next);
+      setLoading(false);
+    });
+  }, [pickupId]);
+
+  const handleCancel = async (reason: string) => {
+    if (!pickup) return;
+    setIsSubmitting(true);
+    try {
+      await cancelPickup(pickup.id, reason, profile);
+      toast.success('Pickup cancelled');
+      setOpenPanel(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel pickup');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  if (isSubmitted) {
+  const handleReschedule = async (schedule: Pick<PickupRequest, 'preferredDate' | 'preferredTimeSlot'>) => {
+    if (!pickup) return;
+    setIsSubmitting(true);
+    try {
+      await reschedulePickup(pickup.id, schedule, profile);
+      toast.success(pickup.collectorId ? 'Pickup rescheduled. Your collector has been notified.' : 'Pickup rescheduled');
+      setOpenPanel(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reschedule pickup');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center"><Loader2 className="w-8 h-8 animate-spin text-eco-400" /></div>;
+  }
+
+  if (!pickup) {
     return (
-      <div className="min-h-[80vh] flex flex-col items-center justify-center px-4 text-center">
-        <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} transition={{ type: 'spring', stiffness: 200, damping: 15, delay: 0.2 }} className="w-24 h-24 rounded-full bg-eco-gradient flex items-center justify-center shadow-glow-xl mb-6">
-          <motion.div initial={{ scale: 0, rotate: -45 }} animate={{ scale: 1, rotate: 0 }} transition={{ delay: 0.5, type: 'spring' }}>
-            <Check className="w-12 h-12 text-black" strokeWidth={3} />
-          </motion.div>
-        </motion.div>
-        <motion.h1 initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.4 }} className="text-2xl font-bold text-white mb-2">Pickup Scheduled! 🎉</motion.h1>
-        <motion.p initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }} className="text-zinc-400 text-sm max-w-xs mb-6">
-          We're matching you with a collector nearby. You'll get a notification when someone accepts your request.
-        </motion.p>
-        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.6 }}>
-          <GlassCard className="p-4 mb-6">
-            <p className="text-xs text-zinc-500 uppercase tracking-wider mb-1">Tracking ID</p>
-            <div className="flex items-center gap-3">
-              <code className="text-xl font-bold font-mono text-eco-400 tracking-widest">{pickupId.slice(0, 8).toUpperCase()}</code>
-            </div>
-          </GlassCard>
-        </motion.div>
-        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.7 }} className="flex gap-3">
-          <button onClick={onBack} className="eco-button flex items-center justify-center gap-2"><Home className="w-4 h-4" /> Dashboard</button>
-        </motion.div>
+      <div className="min-h-screen px-4 pt-6 pb-32 space-y-4">
+        <button onClick={onBack} className="w-10 h-10 rounded-xl glass flex items-center justify-center"><ArrowLeft className="w-5 h-5 text-white" /></button>
+        <GlassCard className="flex flex-col items-center py-8 gap-3">
+          <p className="text-zinc-500 text-sm">This pickup could not be found</p>
+        </GlassCard>
       </div>
     );
   }
 
+  const actor = resolvePickupActor(pickup, profile);
+  const canCancel = actor !== null && canTransition(pickup.status, 'cancelled', actor);
+  const canReschedule = (actor === 'donor' || actor === 'admin') && reschedulableStatuses.includes(pickup.status);
+  const photos = pickup.itemPhotos ?? [];
+
   return (
-    <div className="min-h-screen px-4 pt-6 pb-32">
-      <div className="flex items-center gap-4 mb-6">
-        <button onClick={currentStep > 1 ? prevStep : onBack} className="w-10 h-10 rounded-xl glass flex items-center justify-center"><ArrowLeft className="w-5 h-5 text-white" /></button>
+    <div className="min-h-screen px-4 pt-6 pb-32 space-y-4">
+      <div className="flex items-center gap-4">
+        <button onClick={onBack} className="w-10 h-10 rounded-xl glass flex items-center justify-center"><ArrowLeft className="w-5 h-5 text-white" /></button>
         <div>
-          <h1 className="text-xl font-bold text-white">New Pickup</h1>
-          <p className="text-sm text-zinc-500">{steps[currentStep - 1].subtitle}</p>
+          <h1 className="text-xl font-bold text-white">Pickup Details</h1>
+          <p className="text-sm text-zinc-500 font-mono">#{pickup.id.slice(0, 8).toUpperCase()}</p>
         </div>
       </div>
 
-      <div className="flex items-center gap-2 mb-8">
-        {steps.map((step) => (
-          <div key={step.id} className="flex-1 flex items-center gap-2">
-            <div className="flex-1 relative">
-              <div className="h-1 bg-white/[0.06] rounded-full overflow-hidden">
-                <motion.div className="h-full bg-eco-gradient rounded-full" initial={{ width: '0%' }} animate={{ width: step.id <= currentStep ? '100%' : '0%' }} transition={{ duration: 0.4, ease: 'easeOut' }} />
-              </div>
-            </div>
-            <motion.div className={`w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold shrink-0 transition-all duration-300 ${step.id < currentStep ? 'bg-eco-500 text-black' : step.id === currentStep ? 'bg-eco-500/20 text-eco-400 border border-eco-500/40' : 'bg-white/[0.04] text-zinc-600 border border-white/[0.06]'}`} animate={step.id === currentStep ? { scale: [1, 1.1, 1] } : {}} transition={{ duration: 0.3 }}>
-              {step.id < currentStep ? <Check className="w-3.5 h-3.5" /> : step.id}
-            </motion.div>
+      <PickupLiveStatus pickup={pickup} />
+
+      <GlassCard className="p-4 grid grid-cols-3 gap-3 text-center">
+        <div>
+          <p className="text-[11px] text-zinc-500 uppercase tracking-wider">Items</p>
+          <p className="text-lg font-bold text-white font-mono">{pickup.totalItems}</p>
+        </div>
+        <div>
+          <p className="text-[11px] text-zinc-500 uppercase tracking-wider">Weight</p>
+          <p className="text-lg font-bold text-white font-mono">{(pickup.actualWeightKg ?? pickup.estimatedWeightKg).toFixed(1)}<span className="text-xs text-zinc-500 ml-0.5">kg</span></p>
+        </div>
+        <div>
+          <p className="text-[11px] text-zinc-500 uppercase tracking-wider">{pickup.actualCreditsAwarded !== null ? 'Awarded' : 'Estimated'}</p>
+          <p className="text-lg font-bold text-eco-400 font-mono">+{pickup.actualCreditsAwarded ?? pickup.estimatedCredits}</p>
+        </div>
+      </GlassCard>
+
+      {pickup.collectorId && <CollectorCard collectorId={pickup.collectorId} />}
+
+      {pickup.inspectionCompletedAt ? <InspectionComparison pickup={pickup} /> : <PickupItemsList pickup={pickup} />}
+
+      {photos.length > 0 && (
+        <GlassCard className="p-4 space-y-3">
+          <h3 className="text-sm font-semibold text-white flex items-center gap-2"><Camera className="w-4 h-4 text-eco-400" /> Photos</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {photos.map(path => <PickupPhoto key={path} path={path} className="w-full aspect-square rounded-xl" />)}
           </div>
-        ))}
-      </div>
+        </GlassCard>
+      )}
 
-      <AnimatePresence mode="wait">
-        <motion.div key={currentStep} initial={{ opacity: 0, x: 30 }} animate={{ opacity: 1, x: 0 }} exit={{ opacity: 0, x: -30 }} transition={{ duration: 0.3 }}>
-          {currentStep === 1 && <StepSelectItems items={formData.items} onUpdate={(items) => updateFormData('items', items)} onNext={nextStep} />}
-          {currentStep === 2 && <StepLocation location={formData.location} onUpdate={(loc) => updateFormData('location', loc)} onNext={nextStep} />}
-          {currentStep === 3 && <StepSchedule schedule={formData.schedule} onUpdate={(sched) => updateFormData('schedule', sched)} onNext={nextStep} />}
-          {currentStep === 4 && <StepReview formData={formData} onSubmit={handleSubmit} isSubmitting={isSubmitting} />}
-        </motion.div>
-      </AnimatePresence>
+      <RatePickupCard pickup={pickup} profile={profile} />
+
+      <PickupTimeline pickup={pickup} />
+
+      {openPanel === 'cancel' && (
+        <CancelPickupPanel reasons={actor === 'collector' ? collectorCancelReasons : donorCancelReasons} isSubmitting={isSubmitting} onConfirm={handleCancel} onClose={() => setOpenPanel(null)} />
+      )}
+      {openPanel === 'reschedule' && (
+        <ReschedulePanel pickup={pickup} isSubmitting={isSubmitting} onConfirm={handleReschedule} onClose={() => setOpenPanel(null)} />
+      )}
+      {openPanel === null && (canCancel || canReschedule) && (
+        <div className="flex gap-3">
+          {canReschedule && (
+            <button onClick={() => setOpenPanel('reschedule')} className="flex-1 glass-button text-sm py-3 flex items-center justify-center gap-1.5"><Calendar className="w-4 h-4" /> Reschedule</button>
+          )}
+          {canCancel && (
+            <button onClick={() => setOpenPanel('cancel')} className="flex-1 glass-button text-sm py-3 text-red-400 flex items-center justify-center gap-1.5"><X className="w-4 h-4" /> Cancel Pickup</button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
 
-// Step Components
-function StepSelectItems({ items, onUpdate, onNext }: { items: any[]; onUpdate: (items: any[]) => void; onNext: () => void }) {
-  const toggleCategory = (cat: typeof ewasteCategories[0]) => {
-    const exists = items.find(i => i.categoryId === cat.id);
-    if (exists) {
-      onUpdate(items.filter(i => i.categoryId !== cat.id));
-    } else {
-      onUpdate([...items, { categoryId: cat.id, categoryName: cat.name, quantity: 1, condition: 'non_working', estimatedWeight: cat.avgWeightKg }]);
-    }
-  };
+// A fix older than this is shown as stale, e.g. the collector lost signal
+const STALE_LOCATION_MS = 2 * 60 * 1000;
+// Below this the GPS-reported speed is mostly noise (waiting at lights), so use the city average
+const MIN_REPORTED_SPEED_MPS = 2;
 
-  const updateItem = (categoryId: string, field: string, value: any) => {
-    onUpdate(items.map(i => i.categoryId === categoryId ? { ...i, [field]: value } : i));
-  };
+// Where the pickup stands right now, with the live map while a collector is on the way
+function PickupLiveStatus({ pickup }: { pickup: PickupRequest }) {
+  const [collectorLocation, setCollectorLocation] = useState<CollectorLocation | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const isEnroute = pickup.status === 'collector_enroute';
 
-  const totalWeight = items.reduce((sum, i) => sum + i.estimatedWeight * i.quantity, 0);
-  const totalCredits = items.reduce((sum, i) => {
-    const cat = ewasteCategories.find(c => c.id === i.categoryId);
-    return sum + (cat?.greenCreditsPerKg || 10) * i.estimatedWeight * i.quantity;
-  }, 0);
+  useEffect(() => {
+    if (!isEnroute) return;
+    const unsubscribe = subscribeToCollectorLocation(pickup.id, setCollectorLocation);
+    return () => {
+      unsubscribe();
+      setCollectorLocation(null);
+    };
+  }, [pickup.id, isEnroute]);
 
-  return (
-    <div className="space-y-4 pb-32">
-      <p className="text-zinc-400 text-sm">Select the electronics you want to recycle. Tap to add, tap again to remove.</p>
-      <div className="grid grid-cols-2 gap-3">
-        {ewasteCategories.map((cat, i) => {
-          const isSelected = items.some(item => item.categoryId === cat.id);
-          const Icon = iconMap[cat.iconName] || Smartphone;
-          return (
-            <motion.button key={cat.id} initial={{ opacity: 0, scale: 0.9 }} animate={{ opacity: 1, scale: 1 }} transition={{ delay: i * 0.05 }} onClick={() => toggleCategory(cat)}
-              className={`p-4 rounded-2xl border text-left transition-all duration-200 ${isSelected ? 'bg-eco-500/10 border-eco-500/30 shadow-glow' : 'bg-white/[0.03] border-white/[0.06] hover:bg-white/[0.05]'}`}>
-              <div className={`w-10 h-10 rounded-xl flex items-center justify-center mb-2 ${isSelected ? 'bg-eco-500/20' : 'bg-white/[0.06]'}`}>
-                <Icon className={`w-5 h-5 ${isSelected ? 'text-eco-400' : 'text-zinc-400'}`} />
-              </div>
-              <p className={`text-sm font-medium ${isSelected ? 'text-eco-300' : 'text-white'}`}>{cat.name}</p>
-              <p className="text-xs text-zinc-500 mt-0.5">~{cat.greenCreditsPerKg} credits/kg</p>
-            </motion.button>
-          );
-        })}
-      </div>
+  // Keep "updated Xs ago" ticking between location updates
+  useEffect(() => {
+    if (!isEnroute) return;
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, [isEnroute]);
+
+  const pickupPosition = useMemo<LatLng>(() => [pickup.pickupLatitude, pickup.pickupLongitude], [pickup.pickupLatitude, pickup.pickupLongitude]);
+  const collectorPosition = useMemo<LatLng | null>(
+    () => (collectorLocation ? [collectorLocation.latitude, collectorLocation.longitude] : null),
+    [collectorLocation]
+  );
 
-      {items.length > 0 && (
-        <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} className="space-y-3">
-          <h3 className="text-sm font-semibold text-white">Selected Items</h3>
-          {items.map(item => (
-            <GlassCard key={item.categoryId} className="p-4 space-y-3">
-              <div className="flex items-center justify-between">
-                <p className="text-sm font-medium text-white">{item.categoryName}</p>
-                <div className="flex items-center gap-3">
-                  <button onClick={() => updateItem(item.categoryId, 'quantity', Math.max(1, item.quantity - 1))} className="w-8 h-8 rounded-lg bg-white/[0.06] flex items-center justify-center"><Minus className="w-4 h-4 text-zinc-400" /></button>
-                  <span className="text-white font-mono font-bold w-6 text-center">{item.quantity}</span>
-                  <button onClick={() => updateItem(item.categoryId, 'quantity', item.quantity + 1)} className="w-8 h-8 rounded-lg bg-eco-500/20 flex items-center justify-center"><Plus className="w-4 h-4 text-eco-400" /></button>
-                </div>
-              </div>
-              <div className="flex gap-2">
-                {['working', 'partially_working', 'non_working', 'damaged'].map(cond => (
-                  <button key={cond} onClick={() => updateItem(item.categoryId, 'condition', cond)}
-                    className={`flex-1 py-1.5 rounded-lg text-[11px] font-medium transition-all ${item.condition === cond ? 'bg-white/[0.08] text-eco-400 border border-white/[0.1]' : 'bg-white/[0.02] text-zinc-500 border border-transparent'}`}>
-                    {cond.replace('_', ' ')}
-                  </button>
-                ))}
-              </div>
-            </GlassCard>
-          ))}
-        </motion.div>
+  const remainingKm = collectorPosition ? distanceKm(collectorPosition, pickupPosition) : null;
+  const speedKmh = collectorLocation?.speedMps && collectorLocation.speedMps >= MIN_REPORTED_SPEED_MPS ? collectorLocation.speedMps * 3.6 : undefined;
+  const etaMinutes = remainingKm !== null ? estimateEtaMinutes(remainingKm, speedKmh) : null;
+  const ageMs = collectorLocation ? now - new Date(collectorLocation.updatedAt).getTime() : null;
+  const isStale = ageMs !== null && ageMs > STALE_LOCATION_MS;
+
+  const headline =
+    pickup.status === 'matched' ? 'Your collector will start the route soon'
+    : pickup.status === 'arrived' ? 'Your collector has arrived'
+    : pickup.status === 'inspecting' ? 'Your collector is inspecting your items'
+    : pickup.status === 'collected' ? 'Your items have been collected'
+    : pickup.status === 'completed' ? 'Pickup completed'
+    : pickup.status === 'cancelled' ? 'This pickup was cancelled'
+    : pickup.status === 'pending' ? 'Waiting for a collector to accept'
+    : etaMinutes !== null ? `About ${formatEta(etaMinutes)} away`
+    : 'Waiting for the collector\'s location…';
+
+  return (
+    <>
+      {trackableStatuses.includes(pickup.status) && (
+        <div className="rounded-3xl overflow-hidden border border-white/[0.06] h-[50vh]">
+          <TrackingMap pickupLocation={pickupPosition} collectorLocation={collectorPosition} />
+        </div>
       )}
 
-      {items.length > 0 && (
-        <motion.div initial={{ opacity: 0, y: 40 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
-          <div className="glass-card p-4 flex items-center justify-between">
-            <div>
-              <p className="text-xs text-zinc-500">{items.reduce((s, i) => s + i.quantity, 0)} items · {totalWeight.toFixed(1)}kg est.</p>
-              <p className="text-lg font-bold text-eco-400 font-mono">~{Math.round(totalCredits)} credits</p>
-            </div>
-            <button onClick={onNext} className="eco-button flex items-center gap-2">Next <ArrowRight className="w-4 h-4" /></button>
+      <GlassCard className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Truck className="w-5 h-5 text-eco-400" />
+            <p className="text-white font-semibold">{headline}</p>
           </div>
-        </motion.div>
-      )}
-    </div>
+          <Badge className={`text-[10px] border ${statusColors[pickup.status]}`}>{pickup.status.replace('_', ' ')}</Badge>
+        </div>
+        {isEnroute && remainingKm !== null && (
+          <div className="flex items-center justify-between text-xs text-zinc-400">
+            <span className="flex items-center gap-1"><Navigation className="w-3 h-3" />{formatDistance(remainingKm)} in a straight line</span>
+            <span className={isStale ? 'text-yellow-400' : ''}>
+              {isStale ? 'Location may be out of date' : `Updated ${Math.max(0, Math.round((ageMs ?? 0) / 1000))}s ago`}
+            </span>
+          </div>
+        )}
+        {pickup.status === 'cancelled' && pickup.cancellationReason && (
+          <p className="text-xs text-red-400/80">Reason: {pickup.cancellationReason}</p>
+        )}
+        <div className="flex items-start gap-2 text-xs text-zinc-500">
+          <MapPin className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>{pickup.pickupAddress}</span>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          <Calendar className="w-3 h-3 shrink-0" />
+          <span>{pickup.preferredDate ? new Date(pickup.preferredDate).toLocaleDateString() : 'Flexible'} · {timeSlotLabels[pickup.preferredTimeSlot]}</span>
+        </div>
+      </GlassCard>
+    </>
   );
 }
 
-function StepLocation({ location, onUpdate, onNext }: { location: any; onUpdate: (loc: any) => void; onNext: () => void }) {
-  const [isLocating, setIsLocating] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+const inspectionOutcomeLabels: Record<InspectionOutcome, { label: string; className: string }> = {
+  as_declared: { label: 'as described', className: 'bg-eco-500/10 text-eco-400 border-eco-500/20' },
+  adjusted: { label: 'adjusted', className: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20' },
+  added: { label: 'added on site', className: 'bg-cyan-500/10 text-cyan-400 border-cyan-500/20' },
+  rejected: { label: 'rejected', className: 'bg-red-500/10 text-red-400 border-red-500/20' },
+};
 
-  const getCurrentLocation = useCallback(() => {
-    setIsLocating(true);
-    setError(null);
-    if (!navigator.geolocation) {
-      setError('Geolocation is not supported by your browser');
-      setIsLocating(false);
-      return;
-    }
-    navigator.geolocation.getCurrentPosition(
-      async (position) => {
-        const { latitude, longitude } = position.coords;
-        try {
-          const res = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`);
-          const data = await res.json();
-          onUpdate({
-            address: data.display_name?.split(',').slice(0, 3).join(',') || '',
-            city: data.address?.city || data.address?.town || '',
-            state: data.address?.state || '',
-            zip: data.address?.postcode || '',
-            lat: latitude,
-            lng: longitude,
-            instructions: location.instructions,
-          });
-        } catch {
-          onUpdate({ ...location, lat: latitude, lng: longitude, address: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}` });
-        }
-        setIsLocating(false);
-      },
-      () => { setError('Unable to get your location. Please enter manually.'); setIsLocating(false); },
-      { enableHighAccuracy: true, timeout: 10000 }
-    );
-  }, [location, onUpdate]);
+// What the donor was quoted against what the collector found, line by line
+function InspectionComparison({ pickup }: { pickup: PickupRequest }) {
+  const [items, setItems] = useState<PickupItem[]>([]);
+  const [categories, setCategories] = useState<EwasteCategory[]>([]);
 
-  const handleMapClick = useCallback(async (lat: number, lng: number) => {
-    try {
-      const res = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`);
-      const data = await res.json();
-      onUpdate({
-        address: data.display_name?.split(',').slice(0, 3).join(',') || '',
-        city: data.address?.city || data.address?.town || '',
-        state: data.address?.state || '',
-        zip: data.address?.postcode || '',
-        lat, lng,
-        instructions: location.instructions,
-      });
-    } catch {
-      onUpdate({ ...location, lat, lng });
-    }
-  }, [location, onUpdate]);
+  useEffect(() => subscribeToPickupItems(pickup.id, setItems), [pickup.id]);
 
-  const isValid = location.lat !== 0 && location.address.length > 0;
+  useEffect(() => {
+    getCategoryCatalog(pickup.catalogVersion ?? 1)
+      .then(catalog => setCategories(catalog.categories))
+      .catch((err) => console.error('Failed to load category catalog:', err));
+  }, [pickup.catalogVersion]);
 
-  return (
-    <div className="space-y-4 pb-32">
-      <p className="text-zinc-400 text-sm">Set your pickup location. We'll send a collector to this address.</p>
-      <button onClick={getCurrentLocation} disabled={isLocating} className="w-full glass-button flex items-center justify-center gap-2">
-        {isLocating ? <Loader2 className="w-5 h-5 animate-spin text-eco-400" /> : <Navigation className="w-5 h-5 text-eco-400" />}
-        <span>{isLocating ? 'Getting location...' : 'Use Current Location'}</span>
-      </button>
-      {error && <p className="text-red-400 text-sm bg-red-500/10 rounded-xl p-3">{error}</p>}
+  const lines = compareInspection(items, categories);
+  const estimatedCredits = lines.reduce((sum, l) => sum + (l.estimated?.credits ?? 0), 0);
+  const actualCredits = lines.reduce((sum, l) => sum + (l.actual?.credits ?? 0), 0);
+  const creditDiff = actualCredits - estimatedCredits;
+  const categoryName = (id: string | null | undefined) => categories.find(c => c.id === id)?.name ?? id;
 
-      <div className="rounded-2xl overflow-hidden border border-white/[0.06]">
-        <MapContainer center={location.lat ? [location.lat, location.lng] : [28.6139, 77.209]} zoom={location.lat ? 16 : 12} scrollWheelZoom={true}
-          style={{ height: '260px', width: '100%', borderRadius: '1rem' }} zoomControl={false} attributionControl={false}>
-          <TileLayer url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png" attribution='&copy; <a href="https://carto.com/">CARTO</a>' />
-          <MapClickHandler onMapClick={handleMapClick} />
-          {location.lat && <Marker position={[location.lat, location.lng]} icon={pickupIcon} />}
-        </MapContainer>
+  if (lines.length === 0) return null;
+
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-white flex items-center gap-2"><Weight className="w-4 h-4 text-eco-400" /> Inspection results</h3>
+      {lines.map(({ item, outcome, estimated, actual }) => (
+        <div key={item.id} className="flex items-start gap-3 py-2 border-b border-white/[0.04] last:border-0">
+          {item.photoUrl
+            ? <PickupPhoto path={item.photoUrl} className="w-10 h-10 rounded-lg shrink-0" />
+            : <div className="w-10 h-10 rounded-lg bg-white/[0.04] flex items-center justify-center shrink-0"><Recycle className="w-4 h-4 text-zinc-500" /></div>}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <p className="text-sm text-white truncate">{item.quantity}× {categoryName(item.categoryId)}</p>
+              <Badge className={`text-[10px] border ${inspectionOutcomeLabels[outcome].className}`}>{inspectionOutcomeLabels[outcome].label}</Badge>
+            </div>
+            {item.declaredCategoryId && item.declaredCategoryId !== item.categoryId && (
+              <p className="text-[11px] text-zinc-500">You listed: {categoryName(item.declaredCategoryId)}</p>
+            )}
+            {item.declaredCondition && item.declaredCondition !== item.condition && (
+              <p className="text-[11px] text-zinc-500">Condition: {item.declaredCondition.replace('_', ' ')} → {item.condition.replace('_', ' ')}</p>
+            )}
+            <AiDetectionNote item={item} />
+            {item.isRejected && item.rejectionReason && <p className="text-[11px] text-red-400/80">{item.rejectionReason}</p>}
+            <p className="text-[11px] text-zinc-500 font-mono">
+              {estimated ? `${estimated.weightKg.toFixed(1)}kg` : '—'} → {actual ? `${actual.weightKg.toFixed(1)}kg` : '—'}
+            </p>
+          </div>
+          <div className="text-right shrink-0 font-mono text-xs">
+            <p className="text-zinc-500 line-through">{estimated ? estimated.credits : ''}</p>
+            <p className="text-eco-400">{actual ? `+${actual.credits}` : '0'}</p>
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between items-center pt-1">
+        <span className="text-xs text-zinc-400">Estimated {estimatedCredits} → actual</span>
+        <span className="font-mono font-bold text-white">
+          {actualCredits} <span className={creditDiff >= 0 ? 'text-eco-400' : 'text-red-400'}>({creditDiff >= 0 ? '+' : ''}{creditDiff})</span>
+        </span>
       </div>
+    </GlassCard>
+  );
+}
 
-      {location.address && (
-        <GlassCard className="p-4">
-          <div className="flex items-start gap-3">
-            <div className="w-10 h-10 rounded-xl bg-eco-500/10 flex items-center justify-center shrink-0 mt-0.5"><MapPin className="w-5 h-5 text-eco-400" /></div>
+// ==================== AI SCANNER ====================
+
+// A scanned item as a pickup form line, keeping the captured image as its photo
+async function toScannedFormItem(scan: ScanResult, image: string, category: EwasteCategory): Promise<PickupFormItem> {
+  const blob = await (await fetch(image)).blob();
+  return {
+    id: newPickupItemId(),
+    categoryId: category.id,
+    categoryName: category.name,
+    quantity: 1,
+    condition: 'non_working',
+    estimatedWeight: category.avgWeightKg,
+    photo: new File([blob], 'scan.jpg', { type: blob.type || 'image/jpeg' }),
+    photoPreview: image,
+    photoPath: null,
+    scan,
+  };
+}
+
+// A photo picked from the gallery or dropped onto the scanner, with its own result
+interface UploadedScan {
+  id: string;
+  fileName: string;
+  image: string;
+  // null when classification failed
+  scan: ScanResult | null;
+  // Session item with the same category, while the user decides whether this is another one
+  duplicateOf: PickupFormItem | null;
+}
+
+function UploadedScanCard({ upload, onAdd, onAddOneMore, onDismiss }: {
+  upload: UploadedScan;
+  onAdd: (separate: boolean) => void;
+  onAddOneMore: () => void;
+  onDismiss: () => void;
+}) {
+  const { scan, duplicateOf } = upload;
+  return (
+    <GlassCard className="p-3 space-y-3">
+      <div className="flex items-center gap-3">
+        <img src={upload.image} alt="" className="w-14 h-14 rounded-xl object-cover shrink-0" />
+        <div className="flex-1 min-w-0">
+          {scan?.isEwaste ? (
+            <>
+              <p className="text-sm font-medium text-white truncate">{scan.category}</p>
+              <p className="text-[11px] text-zinc-500 truncate">{scan.label} · {Math.round(scan.confidence * 100)}%</p>
+            </>
+          ) : (
+            <>
+              <p className="text-sm font-medium text-yellow-400">{scan ? 'Not identified as e-waste' : 'Could not scan this photo'}</p>
+              <p className="text-[11px] text-zinc-500 truncate">{scan ? `${scan.label} · ${Math.round(scan.confidence * 100)}%` : upload.fileName}</p>
+            </>
+          )}
+        </div>
+        <button onClick={onDismiss} className="w-8 h-8 rounded-lg bg-white/[0.06] flex items-center justify-center shrink-0"><X className="w-4 h-4 text-zinc-400" /></button>
+        {scan?.isEwaste && !duplicateOf && (
+          <button onClick={() => onAdd(false)} className="w-8 h-8 rounded-lg bg-eco-500/20 flex items-center justify-center shrink-0"><ListPlus className="w-4 h-4 text-eco-400" /></button>
+        )}
+      </div>
+      {duplicateOf && (
+        <div className="space-y-2">
+          <p className="text-xs text-zinc-400">{duplicateOf.categoryName} is already in your list. Is this another one?</p>
+          <div className="flex gap-2">
+            <button onClick={onDismiss} className="flex-1 glass-button text-xs">Same item</button>
+            <button onClick={onAddOneMore} className="flex-1 glass-button text-xs">Another (+1)</button>
+            <button onClick={() => onAdd(true)} className="flex-1 glass-button text-xs">Add separately</button>
+          </div>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
+
+function ScannerPage({ onAddToPickup }: { onAddToPickup: (items: PickupFormItem[]) => void }) {
+  const webcamRef = useRef<Webcam>(null);
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [isCameraUnavailable, setIsCameraUnavailable] = useState(false);
+  const [uploads, setUploads] = useState<UploadedScan[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const { isModelLoading, loadProgress, isScanning, result, error, loadModel, scanImage, resetScan } = useEwasteScanner();
+  const categories = useAppStore((state) => state.categoryCatalog.categories);
+  // Items scanned so far, sent to the pickup form together
+  const [session, setSession] = useState<PickupFormItem[]>([]);
+  // Session item with the same category as the current scan, while the user decides what it is
+  const [duplicate, setDuplicate] = useState<PickupFormItem | null>(null);
+
+  useEffect(() => { loadModel(); }, [loadModel]);
+
+  const capture = useCallback(async () => {
+    if (!webcamRef.current) return;
+    const imageSrc = webcamRef.current.getScreenshot();
+    if (!imageSrc) return;
+    setCapturedImage(imageSrc);
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.src = imageSrc;
+    img.onload = async () => { await scanImage(img); };
+  }, [scanImage]);
+
+  const retake = () => { setCapturedImage(null); setDuplicate(null); resetScan(); };
+
+  const scanCategory = (scan: ScanResult) => categories.find(c => c.slug === scan.categorySlug);
+
+  // When the same category is scanned again it's either the same item twice or another one
+  // of the same kind, so the user is asked before it's added
+  const findDuplicate = (scan: ScanResult) => {
+    const category = scanCategory(scan);
+    return category ? session.find(item => item.categoryId === category.id) ?? null : null;
+  };
+
+  const addScan = async (scan: ScanResult, image: string) => {
+    const category = scanCategory(scan);
+    if (!category) {
+      toast.error('This category is no longer available. Please select it manually.');
+      return false;
+    }
+    const item = await toScannedFormItem(scan, image, category);
+    setSession(prev => [...prev, item]);
+    toast.success(`${category.name} added to your list`);
+    return true;
+  };
+
+  const addOneMore = (existing: PickupFormItem) => {
+    setSession(prev => prev.map(item => item.id === existing.id ? { ...item, quantity: item.quantity + 1 } : item));
+    toast.success(`${existing.categoryName} ×${existing.quantity + 1}`);
+  };
+
+  const addCapture = async (separate = false) => {
+    if (!result || !capturedImage) return;
+    const existing = separate ? null : findDuplicate(result);
+    if (existing) {
+      setDuplicate(existing);
+      return;
+    }
+    if (await addScan(result, capturedImage)) retake();
+  };
+
+  const dismissUpload = (id: string) => setUploads(prev => prev.filter(u => u.id !== id));
+
+  const addUpload = async (upload: UploadedScan, separate: boolean) => {
+    if (!upload.scan) return;
+    const existing = separate ? null : findDuplicate(upload.scan);
+    if (existing) {
+      setUploads(prev => prev.map(u => u.id === upload.id ? { ...u, duplicateOf: existing } : u));
+      return;
+    }
+    if (await addScan(upload.scan, upload.image)) dismissUpload(upload.id);
+  };
+
+  // Photos from the gallery go through the same classifier as camera captures, one at a time
+  const scanFiles = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) {
+      toast.error('Please choose image files');
+      return;
+    }
+    retake();
+    setUploadProgress({ done: 0, total: images.length });
+    for (const [index, file] of images.entries()) {
+      try {
+        const image = await toScannerImage(file);
+        const scan = await scanImage(await loadImage(image));
+        setUploads(prev => [...prev, { id: crypto.randomUUID(), fileName: file.name, image, scan, duplicateOf: null }]);
+      } catch (err) {
+        console.error('Failed to read image:', err);
+        toast.error(`Couldn't read ${file.name}`);
+      }
+      setUploadProgress({ done: index + 1, total: images.length });
+    }
+    setUploadProgress(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    scanFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const toggleCamera = () => setFacingMode(prev => prev === 'environment' ? 'user' : 'environment');
+
+  return (
+    <div className={`px-4 pt-6 ${session.length > 0 ? 'pb-56' : 'pb-32'}`}>
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-1">
+          <Sparkles className="w-5 h-5 text-purple-400" />
+          <h1 className="text-xl font-bold text-white">AI Scanner</h1>
+        </div>
+        <p className="text-sm text-zinc-500">Point your camera at any electronic item, or upload photos, to identify it</p>
+      </div>
+
+      {isModelLoading && (
+        <GlassCard className="p-4 mb-4 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-purple-500/10 flex items-center justify-center"><Loader2 className="w-5 h-5 text-purple-400 animate-spin" /></div>
+          {loadProgress?.source === 'network' ? (
             <div className="flex-1">
-              <p className="text-sm font-medium text-white">{location.address}</p>
-              {location.city && <p className="text-xs text-zinc-500 mt-0.5">{location.city}{location.state ? `, ${location.state}` : ''}{location.zip ? ` ${location.zip}` : ''}</p>}
+              <div className="flex justify-between">
+                <p className="text-sm font-medium text-white">Downloading AI Model...</p>
+                <span className="text-xs font-mono text-purple-400">{Math.round((loadProgress.fraction ?? 0) * 100)}%</span>
+              </div>
+              <div className="h-1.5 bg-white/[0.06] rounded-full overflow-hidden mt-1.5">
+                <div className="h-full bg-purple-400 rounded-full transition-all" style={{ width: `${Math.round((loadProgress.fraction ?? 0) * 100)}%` }} />
+              </div>
+              <p className="text-xs text-zinc-500 mt-1">Only needed once. The scanner works offline afterwards.</p>
             </div>
-          </div>
+          ) : (
+            <div>
+              <p className="text-sm font-medium text-white">Loading AI Model...</p>
+              <p className="text-xs text-zinc-500">{loadProgress?.source === 'cache' ? 'Loading from this device' : 'First time may take a few seconds'}</p>
+            </div>
+          )}
         </GlassCard>
       )}
 
-      <div>
-        <label className="text-sm text-zinc-400 mb-2 block">Pickup Instructions (optional)</label>
-        <textarea value={location.instructions} onChange={e => onUpdate({ ...location, instructions: e.target.value })} placeholder="e.g., Ring doorbell, items are in the garage..." className="glass-input w-full h-24 resize-none" />
+      <div className={`relative rounded-3xl overflow-hidden border mb-4 ${isDragging ? 'border-eco-400' : 'border-white/[0.06]'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}>
+        {isDragging && (
+          <div className="absolute inset-0 z-10 bg-black/60 flex flex-col items-center justify-center gap-2 pointer-events-none">
+            <ImagePlus className="w-10 h-10 text-eco-400" />
+            <p className="text-white text-sm font-medium">Drop photos to scan</p>
+          </div>
+        )}
+        {isCameraUnavailable && !capturedImage ? (
+          <div className="w-full aspect-[4/3] flex flex-col items-center justify-center gap-2 text-center px-6">
+            <Camera className="w-10 h-10 text-zinc-600" />
+            <p className="text-sm text-white font-medium">No camera available</p>
+            <p className="text-xs text-zinc-500">Upload photos of your items or drag them here instead</p>
+          </div>
+        ) : !capturedImage ? (
+          <>
+            <Webcam ref={webcamRef} audio={false} screenshotFormat="image/jpeg" videoConstraints={{ facingMode, width: { ideal: 640 }, height: { ideal: 480 } }} onUserMedia={() => setIsCameraReady(true)} onUserMediaError={() => setIsCameraUnavailable(true)} className="w-full aspect-[4/3] object-cover" />
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className="w-48 h-48 relative">
+                <div className="absolute top-0 left-0 w-8 h-8 border-t-2 border-l-2 border-eco-400 rounded-tl-lg" />
+                <div className="absolute top-0 right-0 w-8 h-8 border-t-2 border-r-2 border-eco-400 rounded-tr-lg" />
+                <div className="absolute bottom-0 left-0 w-8 h-8 border-b-2 border-l-2 border-eco-400 rounded-bl-lg" />
+                <div className="absolute bottom-0 right-0 w-8 h-8 border-b-2 border-r-2 border-eco-400 rounded-br-lg" />
+                <motion.div className="absolute left-0 right-0 h-0.5 bg-eco-gradient" animate={{ top: ['0%', '100%', '0%'] }} transition={{ duration: 3, repeat: Infinity, ease: 'easeInOut' }} />
+              </div>
+            </div>
+            <div className="absolute bottom-4 left-0 right-0 flex items-center justify-center gap-6">
+              <button onClick={toggleCamera} className="w-12 h-12 rounded-full glass flex items-center justify-center"><RotateCcw className="w-5 h-5 text-white" /></button>
+              <motion.button whileTap={{ scale: 0.85 }} onClick={capture} disabled={!isCameraReady || isModelLoading} className="w-18 h-18 rounded-full bg-white flex items-center justify-center shadow-lg disabled:opacity-50">
+                <div className="w-16 h-16 rounded-full border-4 border-surface flex items-center justify-center"><Camera className="w-7 h-7 text-surface" /></div>
+              </motion.button>
+              <div className="w-12 h-12" />
+            </div>
+          </>
+        ) : (
+          <>
+            <img src={capturedImage} alt="Captured" className="w-full aspect-[4/3] object-cover" />
+            {isScanning && (
+              <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
+                <div className="flex flex-col items-center gap-3">
+                  <motion.div animate={{ rotate: 360 }} transition={{ duration: 2, repeat: Infinity, ease: 'linear' }}><ScanLine className="w-12 h-12 text-eco-400" /></motion.div>
+                  <p className="text-white text-sm font-medium">Analyzing with AI...</p>
+                </div>
+              </div>
+            )}
+          </>
+        )}
       </div>
 
-      {isValid && (
-        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
-          <button onClick={onNext} className="eco-button w-full flex items-center justify-center gap-2">Continue to Schedule <ArrowRight className="w-4 h-4" /></button>
-        </motion.div>
+      <label className={`glass-button w-full flex items-center justify-center gap-2 mb-4 cursor-pointer ${uploadProgress ? 'opacity-50 pointer-events-none' : ''}`}>
+        {uploadProgress
+          ? <><Loader2 className="w-4 h-4 animate-spin" /> Scanning {Math.min(uploadProgress.done + 1, uploadProgress.total)} of {uploadProgress.total}...</>
+          : <><ImagePlus className="w-4 h-4" /> Upload Photos</>}
+        <input type="file" accept="image/*" multiple className="hidden" disabled={!!uploadProgress || isModelLoading}
+          onChange={(e) => { scanFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+      </label>
+
+      {uploads.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {uploads.map(upload => (
+            <div key={upload.id} className="space-y-2">
+              <UploadedScanCard upload={upload}
+                onAdd={(separate) => addUpload(upload, separate)}
+                onAddOneMore={() => { if (upload.duplicateOf) addOneMore(upload.duplicateOf); dismissUpload(upload.id); }}
+                onDismiss={() => dismissUpload(upload.id)} />
+              {upload.scan?.isEwaste && <HazardGuidanceCard categoryIds={[scanCategory(upload.scan)?.id ?? '']} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {result && capturedImage && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="space-y-3">
+            {result.isEwaste ? (
+              <>
+                <GlassCard variant="glow" className="p-5">
+                  <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 rounded-xl bg-eco-500/20 flex items-center justify-center shrink-0"><Check className="w-6 h-6 text-eco-400" /></div>
+                    <div className="flex-1">
+                      <p className="text-xs text-eco-400 uppercase tracking-wider font-semibold">E-Waste Identified ✓</p>
+                      <p className="text-lg font-bold text-white mt-1">{result.category}</p>
+                      <div className="flex items-center gap-2 mt-2">
+                        <div className="h-1.5 flex-1 bg-white/[0.06] rounded-full overflow-hidden">
+                          <motion.div initial={{ width: 0 }} animate={{ width: `${Math.round(result.confidence * 100)}%` }} className="h-full bg-eco-gradient rounded-full" />
+                        </div>
+                        <span className="text-xs font-mono text-eco-400">{Math.round(result.confidence * 100)}%</span>
+                      </div>
+                      <p className="text-xs text-zinc-500 mt-1">Detected as: {result.label}</p>
+                    </div>
+                  </div>
+                </GlassCard>
+                <HazardGuidanceCard categoryIds={[scanCategory(result)?.id ?? '']} />
+                <GlassCard className="p-4 flex items-center gap-3">
+                  <Zap className="w-5 h-5 text-yellow-400" />
+                  <div className="flex-1">
+                    <p className="text-sm text-white font-medium">AI Scan Bonus</p>
+                    <p className="text-xs text-zinc-500">+5 bonus credits for using the scanner!</p>
+                  </div>
+                  <span className="text-eco-400 font-mono font-bold">+5</span>
+                </GlassCard>
+                {duplicate ? (
+                  <GlassCard className="p-4 space-y-3 border-yellow-500/20">
+                    <div className="flex items-start gap-3">
+                      <Copy className="w-5 h-5 text-yellow-400 shrink-0 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-medium text-white">{duplicate.categoryName} is already in your list</p>
+                        <p className="text-xs text-zinc-500 mt-0.5">Did you scan the same item twice, or is this another one?</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={retake} className="flex-1 glass-button text-sm">Same item</button>
+                      <button onClick={() => { addOneMore(duplicate); retake(); }} className="flex-1 glass-button text-sm">Another (+1)</button>
+                      <button onClick={() => addCapture(true)} className="flex-1 glass-button text-sm">Add separately</button>
+                    </div>
+                  </GlassCard>
+                ) : (
+                  <div className="flex gap-3">
+                    <button onClick={retake} className="flex-1 glass-button"><RotateCcw className="w-4 h-4 mr-2 inline" /> Scan Again</button>
+                    <button onClick={() => addCapture()} className="flex-1 eco-button flex items-center justify-center gap-2"><ListPlus className="w-4 h-4" /> Add to List</button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <GlassCard className="p-5">
+                <div className="flex items-start gap-4">
+                  <div className="w-12 h-12 rounded-xl bg-yellow-500/10 flex items-center justify-center shrink-0"><AlertTriangle className="w-6 h-6 text-yellow-400" /></div>
+                  <div>
+                    <p className="text-sm font-bold text-white">Not Identified as E-Waste</p>
+                    <p className="text-xs text-zinc-400 mt-1">Detected: {result.label} ({Math.round(result.confidence * 100)}%)</p>
+                    <p className="text-xs text-zinc-500 mt-2">Try scanning from a different angle, or select the category manually.</p>
+                  </div>
+                </div>
+                <div className="flex gap-3 mt-4">
+                  <button onClick={retake} className="flex-1 glass-button">Try Again</button>
+                  <button onClick={() => onAddToPickup(session)} className="flex-1 eco-button">Select Manually</button>
+                </div>
+              </GlassCard>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {error && (
+        <GlassCard className="p-4 border-red-500/20">
+          <div className="flex items-center gap-3"><X className="w-5 h-5 text-red-400" /><p className="text-sm text-red-400">{error}</p></div>
+        </GlassCard>
+      )}
+
+      {session.length > 0 && (
+        <>
+          <ScanSessionList items={session} onChange={setSession} />
+          <motion.div initial={{ opacity: 0, y: 40 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
+            <div className="glass-card p-4 flex items-center justify-between">
+              <p className="text-sm text-white">{session.reduce((sum, item) => sum + item.quantity, 0)} items scanned</p>
+              <button onClick={() => onAddToPickup(session)} className="eco-button flex items-center gap-2">Send to Pickup <ArrowRight className="w-4 h-4" /></button>
+            </div>
+          </motion.div>
+        </>
       )}
     </div>
   );
 }
 
-function StepSchedule({ schedule, onUpdate, onNext }: { schedule: any; onUpdate: (sched: any) => void; onNext: () => void }) {
-  const today = new Date().toISOString().split('T')[0];
+function ScanSessionList({ items, onChange }: { items: PickupFormItem[]; onChange: (items: PickupFormItem[]) => void }) {
+  const categories = useAppStore((state) => state.categoryCatalog.categories);
+
+  const updateItem = (id: string, changes: Partial<PickupFormItem>) => {
+    onChange(items.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Correcting the AI's category keeps the scan, so its original guess can still be audited
+  const changeCategory = (id: string, categoryId: string) => {
+    const category = categories.find(c => c.id === categoryId);
+    if (category) updateItem(id, { categoryId: category.id, categoryName: category.name, estimatedWeight: category.avgWeightKg });
+  };
+
+  return (
+    <div className="space-y-3 mt-6">
+      <h3 className="text-sm font-semibold text-white">Scanned Items</h3>
+      {items.map(item => (
+        <GlassCard key={item.id} className="p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            {item.photoPreview && <img src={item.photoPreview} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />}
+            <select value={item.categoryId} onChange={(e) => changeCategory(item.id, e.target.value)}
+              className="flex-1 min-w-0 bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white">
+              {categories.map(cat => <option key={cat.id} value={cat.id} className="bg-zinc-900">{cat.name}</option>)}
+            </select>
+            <button onClick={() => onChange(items.filter(i => i.id !== item.id))} className="w-8 h-8 rounded-lg bg-white/[0.06] flex items-center justify-center shrink-0"><Trash2 className="w-4 h-4 text-zinc-400" /></button>
+          </div>
+          <div className="flex items-center justify-between">
+            {item.scan && <p className="text-[11px] text-purple-400/80 truncate">AI: {item.scan.label} · {Math.round(item.scan.confidence * 100)}%</p>}
+            <div className="flex items-center gap-3 ml-auto">
+              <button onClick={() => updateItem(item.id, { quantity: Math.max(1, item.quantity - 1) })} className="w-8 h-8 rounded-lg bg-white/[0.06] flex items-center justify-center"><Minus className="w-4 h-4 text-zinc-400" /></button>
+              <span className="text-white font-mono font-bold w-6 text-center">{item.quantity}</span>
+              <button onClick={() => updateItem(item.id, { quantity: item.quantity + 1 })} className="w-8 h-8 rounded-lg bg-eco-500/20 flex items-center justify-center"><Plus className="w-4 h-4 text-eco-400" /></button>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {itemConditions.map(cond => (
+              <button key={cond} onClick={() => updateItem(item.id, { condition: cond })}
+                className={`flex-1 py-1.5 rounded-lg text-[11px] font-medium transition-all ${item.condition === cond ? 'bg-white/[0.08] text-eco-400 border border-white/[0.1]' : 'bg-white/[0.02] text-zinc-500 border border-transparent'}`}>
+                {cond.replace('_', ' ')}
+              </button>
+            ))}
+          </div>
+        </GlassCard>
+      ))}
+    </div>
+  );
+}
+
+// ==================== PICKUP FORM ====================
+
+interface PickupFormItem {
+  // Reserved item id, so the photo can be uploaded under it before the item is saved
+  id: string;
+  categoryId: string;
+  categoryName: string;
+  quantity: number;
+  condition: PickupItem['condition'];
+  // Per unit; PickupItem.estimatedWeightKg is the line total
+  estimatedWeight: number;
+  photo: File | null;
+  photoPreview: string | null;
+  // Set once the photo is uploaded, so retrying a failed submit doesn't upload it again
+  photoPath: string | null;
+  // Present when the item was added from the AI scanner
+  scan?: ScanResult;
+}
+
+const toAiScanResult = (item: PickupFormItem): AiScanResult | null => item.scan?.categorySlug ? {
+  itemId: item.id,
+  label: item.scan.label,
+  confidence: item.scan.confidence,
+  categorySlug: item.scan.categorySlug,
+  predictions: item.scan.allPredictions.slice(0, 5).map(({ className, probability }) => ({ className, probability })),
+} : null;
+
+const toImpactItems = (items: PickupFormItem[]): ImpactItem[] => items.map(item => ({
+  categoryId: item.categoryId,
+  quantity: item.quantity,
+  condition: item.condition,
+  estimatedWeightKg: item.estimatedWeight * item.quantity,
+  actualWeightKg: null,
+}));
+
+function PickupForm({ userId, initialItems = [], onBack }: { userId: string; initialItems?: PickupFormItem[]; onBack: () => void }) {
+  const [currentStep, setCurrentStep] = useState(1);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pickupId, setPickupId] = useState<string>('');
+  // Reserved on first submit and reused on retry, so already uploaded photos stay put
+  const reservedPickupId = useRef<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const categoryCatalog = useAppStore((state) => state.categoryCatalog);
+  const [formData, setFormData] = useState({
+    items: initialItems,
+    location: { address: '', city: '', state: '', zip: '', lat: 0, lng: 0, instructions: '' },
+    schedule: { date: '', timeSlot: 'morning' as 'morning' | 'afternoon' | 'evening' },
+  });
+
+  const steps = [
+    { id: 1, title: 'Items', subtitle: 'What are you recycling?' },
+    { id: 2, title: 'Location', subtitle: 'Where should we pick up?' },
+    { id: 3, title: 'Schedule', subtitle: 'When works for you?' },
+    { id: 4, title: 'Review', subtitle: 'Confirm your pickup' },
+  ];
+
+  const updateFormData = (section: keyof typeof formData, data: any) => {
+    setFormData(prev => ({ ...prev, [section]: data }));
+  };
+
+  const nextStep = () => setCurrentStep(s => Math.min(s + 1, 4));
+  const prevStep = () => setCurrentStep(s => Math.max(s - 1, 1));
+
+  const uploadPhotos = async (reservedId: string): Promise<PickupFormItem[]> => {
+    const results = await Promise.allSettled(formData.items.map(async (item) => {
+      if (!item.photo || item.photoPath) return item;
+      const photoPath = await uploadPickupItemPhoto(
+        { donorId: userId, pickupId: reservedId, itemId: item.id },
+        item.photo,
+        (fraction) => setUploadProgress(prev => ({ ...prev, [item.id]: fraction }))
+      );
+      return { ...item, photoPath };
+    }));
+    // Keep the uploaded paths even if another upload or a later step fails, so a retry skips them
+    const uploaded = results.map((result, i) => result.status === 'fulfilled' ? result.value : formData.items[i]);
+    setFormData(prev => ({ ...prev, items: uploaded }));
+    const failed = results.find(result => result.status === 'rejected');
+    if (failed) throw failed.reason;
+    return uploaded;
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const impact = calculateImpact(toImpactItems(formData.items), categoryCatalog.categories);
+      reservedPickupId.current ??= newPickupId();
+      const items = await uploadPhotos(reservedPickupId.current);
+      const scanResults = items.flatMap(item => toAiScanResult(item) ?? []);
+
+      // Written in one batch with the pickup, so a retry never finds half a request
+      const pickupItems = items.map(item => ({
+        id: item.id,
+        categoryId: item.categoryId,
+        description: null,
+        quantity: item.quantity,
+        condition: item.condition,
+        estimatedWeightKg: item.estimatedWeight * item.quantity,
+        actualWeightKg: null,
+        photoUrl: item.photoPath,
+        aiDetectedLabel: item.scan?.label ?? null,
+        aiConfidence: item.scan?.confidence ?? null,
+        creditsEarned: 0,
+      }));
+
+      const createdId = await createPickup({
+        donorId: userId,
+        collectorId: null,
+        pickupAddress: formData.location.address,
+        pickupCity: formData.location.city,
+        pickupState: formData.location.state,
+        pickupZip: formData.location.zip,
+        pickupLatitude: formData.location.lat,
+        pickupLongitude: formData.location.lng,
+        pickupInstructions: formData.location.instructions,
+        preferredDate: formData.schedule.date,
+        preferredTimeSlot: formData.schedule.timeSlot,
+        status: 'pending',
+        totalItems: impact.totalItems,
+        estimatedWeightKg: impact.totalWeightKg,
+        actualWeightKg: null,
+        estimatedCredits: impact.credits,
+        actualCreditsAwarded: null,
+        declaredHazardousCategoryIds: impact.hazard.hazardousCategoryIds,
+        aiScanResults: scanResults.length > 0 ? scanResults : null,
+        itemPhotos: items.flatMap(item => item.photoPath ? [item.photoPath] : []),
+        donorRating: null,
+        collectorRating: null,
+        matchedAt: null,
+        collectedAt: null,
+        completedAt: null,
+        catalogVersion: categoryCatalog.version,
+      } as any, pickupItems, reservedPickupId.current);
+
+      // Requesting a pickup counts towards the donor's streak; never block the request on it
+      recordStreakActivity(userId).catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to update your streak'));
+
+      setPickupId(createdId);
+      toast.success('Pickup request created! 🎉');
+      setIsSubmitted(true);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to create pickup', { description: 'Your details are kept. Tap the button to try again.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="min-h-[80vh] flex flex-col items-center justify-center px-4 text-center">
+        <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} transition={{ type: 'spring', stiffness: 200, damping: 15, delay: 0.2 }} className="w-24 h-24 rounded-full bg-eco-gradient flex items-center justify-center shadow-glow-xl mb-6">
+          <motion.div initial={{ scale: 0, rotate: -45 }} animate={{ scale: 1, rotate: 0 }} transition={{ delay: 0.5, type: 'spring' }}>
+            <Check className="w-12 h-12 text-black" strokeWidth={3} />
+          </motion.div>
+        </motion.div>
+        <motion.h1 initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.4 }} className="text-2xl font-bold text-white mb-2">Pickup Scheduled! 🎉</motion.h1>
+        <motion.p initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }} className="text-zinc-400 text-sm max-w-xs mb-6">
+          We're matching you with a collector nearby. You'll get a notification when someone accepts your request.
+        </motion.p>
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.6 }}>
+          <GlassCard className="p-4 mb-6">
+            <p className="text-xs text-zinc-500 uppercase tracking-wider mb-1">Tracking ID</p>
+            <div className="flex items-center gap-3">
+              <code className="text-xl font-bold font-mono text-eco-400 tracking-widest">{pickupId.slice(0, 8).toUpperCase()}</code>
+            </div>
+          </GlassCard>
+        </motion.div>
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.7 }} className="flex gap-3">
+          <button onClick={onBack} className="eco-button flex items-center justify-center gap-2"><Home className="w-4 h-4" /> Dashboard</button>
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen px-4 pt-6 pb-32">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={currentStep > 1 ? prevStep : onBack} className="w-10 h-10 rounded-xl glass flex items-center justify-center"><ArrowLeft className="w-5 h-5 text-white" /></button>
+        <div>
+          <h1 className="text-xl font-bold text-white">New Pickup</h1>
+          <p className="text-sm text-zinc-500">{steps[currentStep - 1].subtitle}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mb-8">
+        {steps.map((step) => (
+          <div key={step.id} className="flex-1 flex items-center gap-2">
+            <div className="flex-1 relative">
+              <div className="h-1 bg-white/[0.06] rounded-full overflow-hidden">
+                <motion.div className="h-full bg-eco-gradient rounded-full" initial={{ width: '0%' }} animate={{ width: step.id <= currentStep ? '100%' : '0%' }} transition={{ duration: 0.4, ease: 'easeOut' }} />
+              </div>
+            </div>
+            <motion.div className={`w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold shrink-0 transition-all duration-300 ${step.id < currentStep ? 'bg-eco-500 text-black' : step.id === currentStep ? 'bg-eco-500/20 text-eco-400 border border-eco-500/40' : 'bg-white/[0.04] text-zinc-600 border border-white/[0.06]'}`} animate={step.id === currentStep ? { scale: [1, 1.1, 1] } : {}} transition={{ duration: 0.3 }}>
+              {step.id < currentStep ? <Check className="w-3.5 h-3.5" /> : step.id}
+            </motion.div>
+          </div>
+        ))}
+      </div>
+
+      <AnimatePresence mode="wait">
+        <motion.div key={currentStep} initial={{ opacity: 0, x: 30 }} animate={{ opacity: 1, x: 0 }} exit={{ opacity: 0, x: -30 }} transition={{ duration: 0.3 }}>
+          {currentStep === 1 && <StepSelectItems items={formData.items} onUpdate={(items) => updateFormData('items', items)} onNext={nextStep} />}
+          {currentStep === 2 && <StepLocation location={formData.location} onUpdate={(loc) => updateFormData('location', loc)} onNext={nextStep} />}
+          {currentStep === 3 && <StepSchedule schedule={formData.schedule} onUpdate={(sched) => updateFormData('schedule', sched)} onNext={nextStep} />}
+          {currentStep === 4 && <StepReview formData={formData} onSubmit={handleSubmit} isSubmitting={isSubmitting} uploadProgress={uploadProgress} />}
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// Safety tips for donors whenever the items include high or critical hazard categories
+function HazardGuidanceCard({ categoryIds }: { categoryIds: string[] }) {
+  const categories = useAppStore((state) => state.categoryCatalog.categories);
+  const guidance = getHazardGuidance(categoryIds, categories);
+  if (guidance.length === 0) return null;
+
+  return (
+    <GlassCard className="p-4 space-y-3 border-orange-500/20">
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="w-4 h-4 text-orange-400" />
+        <p className="text-sm font-semibold text-white">Handle with care</p>
+      </div>
+      {guidance.map(g => (
+        <div key={g.categoryId}>
+          <p className="text-xs font-medium text-orange-300">{g.title}</p>
+          <ul className="mt-1 space-y-1">
+            {g.donorTips.map(tip => <li key={tip} className="text-xs text-zinc-400 flex gap-2"><span className="text-orange-400">•</span>{tip}</li>)}
+          </ul>
+        </div>
+      ))}
+    </GlassCard>
+  );
+}
+
+// Step Components
+function StepSelectItems({ items, onUpdate, onNext }: { items: PickupFormItem[]; onUpdate: (items: PickupFormItem[]) => void; onNext: () => void }) {
+  const categories = useAppStore((state) => state.categoryCatalog.categories);
+
+  const toggleCategory = (cat: EwasteCategory) => {
+    const exists = items.find(i => i.categoryId === cat.id);
+    if (exists) {
+      onUpdate(items.filter(i => i.categoryId !== cat.id));
+    } else {
+      onUpdate([...items, {
+        id: newPickupItemId(), categoryId: cat.id, categoryName: cat.name, quantity: 1, condition: 'non_working', estimatedWeight: cat.avgWeightKg,
+        photo: null, photoPreview: null, photoPath: null,
+      }]);
+    }
+  };
+
+  const updateItem = (id: string, field: string, value: any) => {
+    onUpdate(items.map(i => i.id === id ? { ...i, [field]: value } : i));
+  };
+
+  const selectPhoto = (id: string, file: File | undefined) => {
+    if (!file) return;
+    onUpdate(items.map(i => i.id === id ? { ...i, photo: file, photoPreview: URL.createObjectURL(file), photoPath: null } : i));
+  };
+
+  const impact = calculateImpact(toImpactItems(items), categories);
+
+  return (
+    <div className="space-y-4 pb-32">
+      <p className="text-zinc-400 text-sm">Select the electronics you want to recycle. Tap to add, tap again to remove.</p>
+      <div className="grid grid-cols-2 gap-3">
+        {categories.map((cat, i) => {
+          const isSelected = items.some(item => item.categoryId === cat.id);
+          const Icon = iconMap[cat.iconName] || Smartphone;
+          return (
+            <motion.button key={cat.id} initial={{ opacity: 0, scale: 0.9 }} animate={{ opacity: 1, scale: 1 }} transition={{ delay: i * 0.05 }} onClick={() => toggleCategory(cat)}
+              className={`p-4 rounded-2xl border text-left transition-all duration-200 ${isSelected ? 'bg-eco-500/10 border-eco-500/30 shadow-glow' : 'bg-white/[0.03] border-white/[0.06] hover:bg-white/[0.05]'}`}>
+              <div className={`w-10 h-10 rounded-xl flex items-center justify-center mb-2 ${isSelected ? 'bg-eco-500/20' : 'bg-white/[0.06]'}`}>
+                <Icon className={`w-5 h-5 ${isSelected ? 'text-eco-400' : 'text-zinc-400'}`} />
+              </div>
+              <p className={`text-sm font-medium ${isSelected ? 'text-eco-300' : 'text-white'}`}>{cat.name}</p>
+              <p className="text-xs text-zinc-500 mt-0.5">~{cat.greenCreditsPerKg} credits/kg</p>
+            </motion.button>
+          );
+        })}
+      </div>
+
+      {items.length > 0 && (
+        <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} className="space-y-3">
+          <h3 className="text-sm font-semibold text-white">Selected Items</h3>
+          {items.map(item => (
+            <GlassCard key={item.id} className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <label className="w-10 h-10 rounded-lg bg-white/[0.06] flex items-center justify-center overflow-hidden cursor-pointer shrink-0" title="Add a photo">
+                    {item.photoPreview ? <img src={item.photoPreview} alt="" className="w-full h-full object-cover" /> : <Camera className="w-4 h-4 text-zinc-400" />}
+                    <input type="file" accept="image/*" capture="environment" className="hidden" onChange={(e) => selectPhoto(item.id, e.target.files?.[0])} />
+                  </label>
+                  <p className="text-sm font-medium text-white">{item.categoryName}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button onClick={() => updateItem(item.id, 'quantity', Math.max(1, item.quantity - 1))} className="w-8 h-8 rounded-lg bg-white/[0.06] flex items-center justify-center"><Minus className="w-4 h-4 text-zinc-400" /></button>
+                  <span className="text-white font-mono font-bold w-6 text-center">{item.quantity}</span>
+                  <button onClick={() => updateItem(item.id, 'quantity', item.quantity + 1)} className="w-8 h-8 rounded-lg bg-eco-500/20 flex items-center justify-center"><Plus className="w-4 h-4 text-eco-400" /></button>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {['working', 'partially_working', 'non_working', 'damaged'].map(cond => (
+                  <button key={cond} onClick={() => updateItem(item.id, 'condition', cond)}
+                    className={`flex-1 py-1.5 rounded-lg text-[11px] font-medium transition-all ${item.condition === cond ? 'bg-white/[0.08] text-eco-400 border border-white/[0.1]' : 'bg-white/[0.02] text-zinc-500 border border-transparent'}`}>
+                    {cond.replace('_', ' ')}
+                  </button>
+                ))}
+              </div>
+            </GlassCard>
+          ))}
+        </motion.div>
+      )}
+
+      <HazardGuidanceCard categoryIds={items.map(item => item.categoryId)} />
+
+      {items.length > 0 && (
+        <motion.div initial={{ opacity: 0, y: 40 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
+          <div className="glass-card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-xs text-zinc-500">{impact.totalItems} items · {impact.totalWeightKg.toFixed(1)}kg est.</p>
+              <p className="text-lg font-bold text-eco-400 font-mono">~{impact.credits} credits</p>
+            </div>
+            <button onClick={onNext} className="eco-button flex items-center gap-2">Next <ArrowRight className="w-4 h-4" /></button>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
+
+function StepLocation({ location, onUpdate, onNext }: { location: any; onUpdate: (loc: any) => void; onNext: () => void }) {
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getCurrentLocation = useCallback(() => {
+    setIsLocating(true);
+    setError(null);
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by your browser');
+      setIsLocating(false);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const { latitude, longitude } = position.coords;
+        try {
+          const res = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`);
+          const data = await res.json();
+          onUpdate({
+            address: data.display_name?.split(',').slice(0, 3).join(',') || '',
+            city: data.address?.city || data.address?.town || '',
+            state: data.address?.state || '',
+            zip: data.address?.postcode || '',
+            lat: latitude,
+            lng: longitude,
+            instructions: location.instructions,
+          });
+        } catch {
+          onUpdate({ ...location, lat: latitude, lng: longitude, address: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}` });
+        }
+        setIsLocating(false);
+      },
+      () => { setError('Unable to get your location. Please enter manually.'); setIsLocating(false); },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }, [location, onUpdate]);
+
+  const handleMapClick = useCallback(async (lat: number, lng: number) => {
+    try {
+      const res = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`);
+      const data = await res.json();
+      onUpdate({
+        address: data.display_name?.split(',').slice(0, 3).join(',') || '',
+        city: data.address?.city || data.address?.town || '',
+        state: data.address?.state || '',
+        zip: data.address?.postcode || '',
+        lat, lng,
+        instructions: location.instructions,
+      });
+    } catch {
+      onUpdate({ ...location, lat, lng });
+    }
+  }, [location, onUpdate]);
+
+  const isValid = location.lat !== 0 && location.address.length > 0;
+
+  return (
+    <div className="space-y-4 pb-32">
+      <p className="text-zinc-400 text-sm">Set your pickup location. We'll send a collector to this address.</p>
+      <button onClick={getCurrentLocation} disabled={isLocating} className="w-full glass-button flex items-center justify-center gap-2">
+        {isLocating ? <Loader2 className="w-5 h-5 animate-spin text-eco-400" /> : <Navigation className="w-5 h-5 text-eco-400" />}
+        <span>{isLocating ? 'Getting location...' : 'Use Current Location'}</span>
+      </button>
+      {error && <p className="text-red-400 text-sm bg-red-500/10 rounded-xl p-3">{error}</p>}
+
+      <div className="rounded-2xl overflow-hidden border border-white/[0.06]">
+        <MapContainer center={location.lat ? [location.lat, location.lng] : [28.6139, 77.209]} zoom={location.lat ? 16 : 12} scrollWheelZoom={true}
+          style={{ height: '260px', width: '100%', borderRadius: '1rem' }} zoomControl={false} attributionControl={false}>
+          <TileLayer url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png" attribution='&copy; <a href="https://carto.com/">CARTO</a>' />
+          <MapClickHandler onMapClick={handleMapClick} />
+          {location.lat && <Marker position={[location.lat, location.lng]} icon={pickupIcon} />}
+        </MapContainer>
+      </div>
+
+      {location.address && (
+        <GlassCard className="p-4">
+          <div className="flex items-start gap-3">
+            <div className="w-10 h-10 rounded-xl bg-eco-500/10 flex items-center justify-center shrink-0 mt-0.5"><MapPin className="w-5 h-5 text-eco-400" /></div>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-white">{location.address}</p>
+              {location.city && <p className="text-xs text-zinc-500 mt-0.5">{location.city}{location.state ? `, ${location.state}` : ''}{location.zip ? ` ${location.zip}` : ''}</p>}
+            </div>
+          </div>
+        </GlassCard>
+      )}
+
+      <div>
+        <label className="text-sm text-zinc-400 mb-2 block">Pickup Instructions (optional)</label>
+        <textarea value={location.instructions} onChange={e => onUpdate({ ...location, instructions: e.target.value })} placeholder="e.g., Ring doorbell, items are in the garage..." className="glass-input w-full h-24 resize-none" />
+      </div>
+
+      {isValid && (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
+          <button onClick={onNext} className="eco-button w-full flex items-center justify-center gap-2">Continue to Schedule <ArrowRight className="w-4 h-4" /></button>
+        </motion.div>
+      )}
+    </div>
+  );
+}
+
+function StepSchedule({ schedule, onUpdate, onNext }: { schedule: any; onUpdate: (sched: any) => void; onNext: () => void }) {
+  const today = new Date().toISOString().split('T')[0];
+  return (
+    <div className="space-y-4 pb-32">
+      <p className="text-zinc-400 text-sm">Choose a date and time that works for you.</p>
+      <div>
+        <label className="text-sm text-zinc-400 mb-2 block">Preferred Date</label>
+        <input type="date" min={today} value={schedule.date} onChange={e => onUpdate({ ...schedule, date: e.target.value })} className="glass-input w-full" />
+      </div>
+      <div>
+        <label className="text-sm text-zinc-400 mb-2 block">Time Slot</label>
+        <div className="space-y-2">
+          {(['morning', 'afternoon', 'evening'] as const).map(slot => (
+            <button key={slot} onClick={() => onUpdate({ ...schedule, timeSlot: slot })}
+              className={`w-full p-4 rounded-2xl border text-left transition-all ${schedule.timeSlot === slot ? 'bg-eco-500/10 border-eco-500/30' : 'bg-white/[0.03] border-white/[0.06]'}`}>
+              <p className={`text-sm font-medium ${schedule.timeSlot === slot ? 'text-eco-300' : 'text-white'}`}>{timeSlotLabels[slot]}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+      {schedule.date && (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
+          <button onClick={onNext} className="eco-button w-full flex items-center justify-center gap-2">Review Pickup <ArrowRight className="w-4 h-4" /></button>
+        </motion.div>
+      )}
+    </div>
+  );
+}
+
+function StepReview({ formData, onSubmit, isSubmitting, uploadProgress }: { formData: any; onSubmit: () => void; isSubmitting: boolean; uploadProgress: Record<string, number> }) {
+  const categories = useAppStore((state) => state.categoryCatalog.categories);
+  const impact = calculateImpact(toImpactItems(formData.items), categories);
+
+  return (
+    <div className="space-y-4 pb-32">
+      <p className="text-zinc-400 text-sm">Review your pickup details before submitting.</p>
+      <GlassCard className="p-4 space-y-3">
+        <div className="flex items-center gap-2 text-white">
+          <PackagePlus className="w-4 h-4 text-eco-400" />
+          <span className="text-sm font-semibold">Items ({impact.totalItems})</span>
+        </div>
+        {formData.items.map((item: PickupFormItem) => (
+          <div key={item.id} className="flex justify-between items-center gap-3 py-2 border-b border-white/[0.04] last:border-0">
+            {item.photoPreview && <img src={item.photoPreview} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white">{item.categoryName}</p>
+              <p className="text-xs text-zinc-500 capitalize">{item.condition.replace('_', ' ')} · {item.estimatedWeight}kg each</p>
+              {isSubmitting && item.photo && !item.photoPath && (
+                <div className="h-1 rounded-full bg-white/[0.06] mt-1.5 overflow-hidden">
+                  <div className="h-full bg-eco-500 transition-all" style={{ width: `${Math.round((uploadProgress[item.id] ?? 0) * 100)}%` }} />
+                </div>
+              )}
+            </div>
+            <span className="text-sm font-mono text-zinc-300">×{item.quantity}</span>
+          </div>
+        ))}
+      </GlassCard>
+
+      <GlassCard className="p-4">
+        <div className="flex items-start gap-3">
+          <MapPin className="w-4 h-4 text-eco-400 mt-0.5 shrink-0" />
+          <div>
+            <p className="text-sm font-semibold text-white">Pickup Location</p>
+            <p className="text-xs text-zinc-400 mt-0.5">{formData.location.address}</p>
+            {formData.location.instructions && <p className="text-xs text-zinc-500 mt-1 italic">"{formData.location.instructions}"</p>}
+          </div>
+        </div>
+      </GlassCard>
+
+      <GlassCard className="p-4">
+        <div className="flex items-center gap-3">
+          <Calendar className="w-4 h-4 text-eco-400 shrink-0" />
+          <div>
+            <p className="text-sm font-semibold text-white">{new Date(formData.schedule.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+            <p className="text-xs text-zinc-400 mt-0.5">{timeSlotLabels[formData.schedule.timeSlot]}</p>
+          </div>
+        </div>
+      </GlassCard>
+
+      <HazardGuidanceCard categoryIds={formData.items.map((item: PickupFormItem) => item.categoryId)} />
+
+      <GlassCard variant="glow" className="p-5 relative overflow-hidden">
+        <div className="absolute top-0 right-0 w-24 h-24 bg-eco-500/10 rounded-full blur-[40px]" />
+        <div className="relative z-10 flex items-center justify-between">
+          <div>
+            <p className="text-xs text-zinc-500 uppercase tracking-wider">Estimated Reward</p>
+            <p className="text-3xl font-bold text-white font-mono mt-1">+{impact.credits}</p>
+            <p className="text-xs text-eco-400 mt-0.5">Green Credits</p>
+          </div>
+          <div className="text-right space-y-1">
+            <div className="flex items-center gap-1 text-xs text-zinc-400"><Leaf className="w-3 h-3 text-eco-500" />~{impact.co2SavedKg.toFixed(1)}kg CO₂ saved</div>
+            <div className="flex items-center gap-1 text-xs text-zinc-400"><CheckCircle2 className="w-3 h-3 text-cyan-400" />Certified recycling</div>
+          </div>
+        </div>
+      </GlassCard>
+
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
+        <button onClick={onSubmit} disabled={isSubmitting} className="eco-button w-full flex items-center justify-center gap-2 py-4 disabled:opacity-50">
+          {isSubmitting ? <><Loader2 className="w-5 h-5 animate-spin" /> Creating Pickup...</> : <><CheckCircle2 className="w-5 h-5" /> Confirm & Request Pickup</>}
+        </button>
+      </motion.div>
+    </div>
+  );
+}
+
+// ==================== REWARDS PAGE ====================
+
+function RewardsPage({ profile }: { profile: Profile }) {
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [unlocks, setUnlocks] = useState<AchievementUnlock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState('rewards');
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const txs = await getUserTransactions(profile.id);
+      setTransactions(txs);
+      setLoading(false);
+    };
+    loadData();
+
+    // Subscribe to real-time updates
+    const unsubTx = subscribeToUserTransactions(profile.id, setTransactions);
+    const unsubRedemptions = subscribeToUserRedemptions(profile.id, setRedemptions);
+    const unsubAchievements = subscribeToUserAchievements(profile.id, setUnlocks);
+    
+    return () => {
+      unsubTx();
+      unsubRedemptions();
+      unsubAchievements();
+    };
+  }, [profile.id]);
+
+  const handleRedeem = async (rewardId: string) => {
+    setRedeemingId(rewardId);
+    try {
+      const redemption = await redeemReward(profile.id, rewardId);
+      toast.success(`${redemption.rewardName} redeemed! 🎁`);
+      setActiveTab('mine');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to redeem reward');
+    } finally {
+      setRedeemingId(null);
+    }
+  };
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Code copied');
+    } catch {
+      toast.error('Could not copy code');
+    }
+  };
+
+  const userAchievements: UserAchievement[] = achievements.map(achievement => ({
+    ...achievement,
+    unlockedAt: unlocks.find(u => u.achievementId === achievement.id)?.unlockedAt ?? null,
+  }));
+
+  return (
+    <div className="px-4 pt-6 pb-32 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-white">Rewards</h1>
+        <p className="text-sm text-zinc-500">Earn, unlock, and redeem your Green Credits</p>
+      </div>
+
+      <GlassCard variant="glow" className="p-5 relative overflow-hidden">
+        <div className="absolute -top-10 -right-10 w-40 h-40 bg-eco-500/10 rounded-full blur-[60px]" />
+        <div className="relative z-10 flex items-center justify-between">
+          <div>
+            <p className="text-xs text-eco-400 uppercase tracking-wider font-semibold">Available Balance</p>
+            <p className="text-4xl font-bold text-white font-mono mt-1">{profile.greenCredits.toLocaleString()}</p>
+          </div>
+          <div className="w-16 h-16 rounded-2xl bg-eco-gradient flex items-center justify-center shadow-glow">
+            <Sparkles className="w-8 h-8 text-black" />
+          </div>
+        </div>
+        <div className="mt-4 flex items-center gap-4 text-xs text-zinc-400">
+          <span className="flex items-center gap-1"><Flame className="w-3 h-3 text-orange-400" />{getCurrentStreak(profile, new Date(), profile.timeZone)}-day streak</span>
+          <span className="flex items-center gap-1"><Star className="w-3 h-3 text-yellow-400" />Level: {profile.badgeLevel}</span>
+        </div>
+      </GlassCard>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+        <TabsList className="grid grid-cols-4 bg-white/[0.03] rounded-2xl p-1">
+          <TabsTrigger value="rewards" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Gift className="w-4 h-4 mr-1.5" />Redeem</TabsTrigger>
+          <TabsTrigger value="achievements" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Trophy className="w-4 h-4 mr-1.5" />Badges</TabsTrigger>
+          <TabsTrigger value="history" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Star className="w-4 h-4 mr-1.5" />History</TabsTrigger>
+          <TabsTrigger value="mine" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Ticket className="w-4 h-4 mr-1.5" />Mine</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="rewards" className="space-y-3">
+          {rewardsCatalog.map((reward, i) => (
+            <motion.div key={reward.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.1 }}>
+              <GlassCard variant="interactive" className="p-4 flex items-center gap-4">
+                <div className="w-12 h-12 rounded-xl bg-white/[0.06] flex items-center justify-center shrink-0">
+                  {reward.icon === 'TreePine' && <TreePine className={`w-6 h-6 ${reward.color}`} />}
+                  {reward.icon === 'Coffee' && <Coffee className={`w-6 h-6 ${reward.color}`} />}
+                  {reward.icon === 'Heart' && <Heart className={`w-6 h-6 ${reward.color}`} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white">{reward.name}</p>
+                  <p className="text-xs text-zinc-500 mt-0.5">{reward.description}</p>
+                  <p className="text-[10px] text-zinc-600 mt-0.5">Partner: {reward.partner}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-sm font-bold text-eco-400 font-mono">{reward.credits}</p>
+                  <button onClick={() => handleRedeem(reward.id)} disabled={profile.greenCredits < reward.credits || redeemingId !== null} className={`mt-1 text-xs px-3 py-1 rounded-lg font-medium transition-all disabled:cursor-not-allowed ${profile.greenCredits >= reward.credits ? 'bg-eco-500/20 text-eco-400 hover:bg-eco-500/30' : 'bg-white/[0.04] text-zinc-600'}`}>
+                    {redeemingId === reward.id ? <Loader2 className="w-3 h-3 animate-spin inline" /> : profile.greenCredits >= reward.credits ? 'Redeem' : 'Locked'}
+                  </button>
+                </div>
+              </GlassCard>
+            </motion.div>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="achievements" className="space-y-3">
+          {userAchievements.map((ach, i) => {
+            const isUnlocked = ach.unlockedAt !== null;
+            return (
+              <motion.div key={ach.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.05 }}>
+                <GlassCard className={`p-4 flex items-center gap-4 ${isUnlocked ? '' : 'opacity-50'}`}>
+                  <div className={`w-12 h-12 rounded-xl flex items-center justify-center shrink-0 ${isUnlocked ? 'bg-eco-gradient shadow-glow' : 'bg-white/[0.04]'}`}>
+                    {isUnlocked ? <Trophy className="w-6 h-6 text-black" /> : <Lock className="w-5 h-5 text-zinc-600" />}
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-white">{ach.name}</p>
+                    <p className="text-xs text-zinc-500 mt-0.5">{ach.description}</p>
+                    {isUnlocked ? (
+                      <p className="text-[10px] text-eco-400 mt-1 flex items-center gap-1"><Check className="w-3 h-3" />Unlocked {new Date(ach.unlockedAt!).toLocaleDateString()}</p>
+                    ) : (
+                      <div className="h-1 mt-2 bg-white/[0.06] rounded-full overflow-hidden">
+                        <div className="h-full bg-eco-gradient rounded-full" style={{ width: `${Math.round(getAchievementProgress(ach, profile) * 100)}%` }} />
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-right shrink-0"><span className="text-xs font-mono text-eco-400">+{ach.creditReward}</span></div>
+                </GlassCard>
+              </motion.div>
+            );
+          })}
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-2">
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map(i => <div key={i} className="glass-card h-16 shimmer" />)}
+            </div>
+          ) : (
+            transactions.map((tx, i) => (
+              <motion.div key={tx.id} initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: i * 0.05 }} className="flex items-center gap-3 py-3 border-b border-white/[0.04] last:border-0">
+                <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${tx.amount > 0 ? 'bg-eco-500/10 text-eco-400' : 'bg-red-500/10 text-red-400'}`}>{tx.amount > 0 ? '+' : '−'}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{tx.description}</p>
+                  <p className="text-xs text-zinc-500">{tx.createdAt ? new Date(tx.createdAt).toLocaleDateString() : 'Just now'}</p>
+                </div>
+                <div className="text-right">
+                  <p className={`text-sm font-mono font-bold ${tx.amount > 0 ? 'text-eco-400' : 'text-red-400'}`}>{tx.amount > 0 ? '+' : ''}{tx.amount}</p>
+                </div>
+              </motion.div>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="mine" className="space-y-3">
+          <h2 className="text-sm font-semibold text-white">My Rewards</h2>
+          {redemptions.length === 0 ? (
+            <GlassCard className="flex flex-col items-center py-8 gap-3">
+              <div className="w-16 h-16 rounded-full bg-eco-500/10 flex items-center justify-center"><Gift className="w-8 h-8 text-eco-500/50" /></div>
+              <p className="text-zinc-500 text-sm">No rewards redeemed yet</p>
+            </GlassCard>
+          ) : (
+            redemptions.map((redemption, i) => (
+              <motion.div key={redemption.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.05 }}>
+                <GlassCard className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-sm font-medium text-white">{redemption.rewardName}</p>
+                      <p className="text-[10px] text-zinc-600 mt-0.5">{redemption.partnerName} · {redemption.createdAt ? new Date(redemption.createdAt).toLocaleDateString() : 'Just now'}</p>
+                    </div>
+                    <span className="text-xs font-mono text-red-400">−{redemption.creditsSpent}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-3 rounded-xl bg-white/[0.04] border border-dashed border-white/[0.1] px-3 py-2">
+                    <div>
+                      <p className="text-[10px] text-zinc-500 uppercase tracking-wider">{redemption.rewardCategory === 'donation' ? 'Donation Receipt' : 'Voucher Code'}</p>
+                      <code className="text-sm font-bold font-mono text-eco-400 tracking-widest">{redemption.code}</code>
+                    </div>
+                    <button onClick={() => copyCode(redemption.code)} className="w-8 h-8 rounded-lg bg-white/[0.06] flex items-center justify-center"><Copy className="w-4 h-4 text-zinc-400" /></button>
+                  </div>
+                  {redemption.status !== 'issued' && <Badge className="text-[10px] border bg-white/[0.06] text-zinc-400 border-white/[0.08]">{redemption.status}</Badge>}
+                </GlassCard>
+              </motion.div>
+            ))
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+// ==================== COLLECTOR WORKSPACE ====================
+
+function CollectorJobsPage({ profile }: { profile: Profile }) {
+  const [pendingPickups, setPendingPickups] = useState<PickupRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  const { position, error: locationError } = useGeolocation();
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPendingPickups((pickups) => {
+      setPendingPickups(pickups);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  // Nearest first; jobs without a known distance keep their newest-first order at the end
+  const jobs = useMemo(() => {
+    return pendingPickups
+      .filter(p => p.donorId !== profile.id)
+      .map(pickup => ({
+        pickup,
+        distance: position ? distanceKm(position, [pickup.pickupLatitude, pickup.pickupLongitude]) : null,
+      }))
+      .sort((a, b) => {
+        if (a.distance === null || b.distance === null) return a.distance === null ? (b.distance === null ? 0 : 1) : -1;
+        return a.distance - b.distance;
+      });
+  }, [pendingPickups, position, profile.id]);
+
+  const handleAccept = async (pickup: PickupRequest) => {
+    setAcceptingId(pickup.id);
+    try {
+      await acceptPickup(pickup.id, profile);
+      toast.success('Job accepted! Find it under My Jobs 🚚');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to accept job');
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  return (
+    <div className="px-4 pt-6 pb-32 space-y-6">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Inbox className="w-5 h-5 text-eco-400" />
+          <h1 className="text-xl font-bold text-white">Available Jobs</h1>
+        </div>
+        <p className="text-sm text-zinc-500">Live pickup requests, nearest first</p>
+      </div>
+
+      {locationError && (
+        <p className="text-yellow-400 text-xs bg-yellow-500/10 rounded-xl p-3 flex items-center gap-2"><AlertTriangle className="w-4 h-4 shrink-0" />{locationError}</p>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map(i => <div key={i} className="glass-card h-24 shimmer" />)}
+        </div>
+      ) : jobs.length === 0 ? (
+        <GlassCard className="flex flex-col items-center py-8 gap-3">
+          <div className="w-16 h-16 rounded-full bg-eco-500/10 flex items-center justify-center"><Inbox className="w-8 h-8 text-eco-500/50" /></div>
+          <p className="text-zinc-500 text-sm">No pending pickups right now</p>
+          <p className="text-zinc-600 text-xs">New requests will appear here automatically</p>
+        </GlassCard>
+      ) : (
+        <div className="space-y-3">
+          <AnimatePresence>
+            {jobs.map(({ pickup, distance }) => (
+              <motion.div key={pickup.id} layout initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, x: 40 }}>
+                <GlassCard className="p-4 space-y-3">
+                  <div className="flex items-start gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-eco-500/10 flex items-center justify-center shrink-0 mt-0.5"><MapPin className="w-5 h-5 text-eco-400" /></div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-white truncate">{pickup.pickupAddress}</p>
+                      <p className="text-xs text-zinc-500 mt-0.5">{pickup.pickupCity}{distance !== null && <> · <span className="text-eco-400">{formatDistance(distance)} away</span></>}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-sm font-semibold text-eco-400 font-mono">{pickup.estimatedWeightKg.toFixed(1)}kg</p>
+                      <p className="text-[10px] text-zinc-500">{pickup.totalItems} item{pickup.totalItems !== 1 ? 's' : ''}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-zinc-400 flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {pickup.preferredDate ? new Date(pickup.preferredDate).toLocaleDateString() : 'Flexible'} · {timeSlotLabels[pickup.preferredTimeSlot]}
+                    </p>
+                    <button onClick={() => handleAccept(pickup)} disabled={acceptingId !== null} className="eco-button text-sm px-4 py-2 flex items-center gap-1.5 shrink-0 disabled:opacity-50">
+                      {acceptingId === pickup.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Check className="w-4 h-4" /> Accept</>}
+                    </button>
+                  </div>
+                </GlassCard>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const itemConditions: PickupItem['condition'][] = ['working', 'partially_working', 'non_working', 'damaged'];
+
+interface InspectionDraftItem extends InspectionItemInput {
+  estimatedWeightKg: number;
+  addedDuringInspection: boolean;
+  weightInput: string;
+  photoFile: File | null;
+  // Local preview of a photo taken during this inspection, before it is uploaded
+  photoPreview: string | null;
+}
+
+const toInspectionDraft = (item: PickupItem): InspectionDraftItem => ({
+  id: item.id,
+  categoryId: item.categoryId,
+  description: item.description,
+  quantity: item.quantity,
+  condition: item.condition,
+  actualWeightKg: item.actualWeightKg,
+  photoUrl: item.photoUrl,
+  isRejected: item.isRejected ?? false,
+  rejectionReason: item.rejectionReason ?? null,
+  estimatedWeightKg: item.estimatedWeightKg,
+  addedDuringInspection: item.addedDuringInspection ?? false,
+  weightInput: item.actualWeightKg !== null ? String(item.actualWeightKg) : '',
+  photoFile: null,
+  photoPreview: null,
+});
+
+// On-site inspection: confirm each item, weigh it, photograph it, and add or reject items
+function CollectorInspectionPage({ pickup, profile, onDone }: { pickup: PickupRequest; profile: Profile; onDone: () => void }) {
+  const [items, setItems] = useState<InspectionDraftItem[]>([]);
+  const [categories, setCategories] = useState<EwasteCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Price with the catalog version the donor was quoted, not the latest one
+    Promise.all([getPickupItems(pickup.id), getCategoryCatalog(pickup.catalogVersion ?? 1)])
+      .then(([pickupItems, catalog]) => {
+        if (cancelled) return;
+        setItems(pickupItems.map(toInspectionDraft));
+        setCategories(catalog.categories);
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load items'))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [pickup.id, pickup.catalogVersion]);
+
+  const updateItem = (id: string, changes: Partial<InspectionDraftItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const addItem = () => {
+    const category = categories[0];
+    if (!category) return;
+    setItems(prev => [...prev, {
+      id: newPickupItemId(),
+      categoryId: category.id,
+      description: null,
+      quantity: 1,
+      condition: 'non_working',
+      actualWeightKg: null,
+      photoUrl: null,
+      isRejected: false,
+      rejectionReason: null,
+      estimatedWeightKg: 0,
+      addedDuringInspection: true,
+      weightInput: '',
+      photoFile: null,
+      photoPreview: null,
+    }]);
+  };
+
+  const selectPhoto = (id: string, file: File | undefined) => {
+    if (!file) return;
+    updateItem(id, { photoFile: file, photoPreview: URL.createObjectURL(file) });
+  };
+
+  const parsedItems = items.map(item => {
+    const weight = parseFloat(item.weightInput);
+    return { ...item, actualWeightKg: Number.isFinite(weight) && weight > 0 ? weight : null };
+  });
+  const impact = calculateImpact(parsedItems.filter(item => !item.isRejected), categories);
+  const canSave = parsedItems.length > 0 && parsedItems.every(item => item.isRejected || item.actualWeightKg !== null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const inspected = await Promise.all(parsedItems.map(async (item) => ({
+        id: item.id,
+        categoryId: item.categoryId,
+        description: item.description,
+        quantity: item.quantity,
+        condition: item.condition,
+        actualWeightKg: item.actualWeightKg,
+        photoUrl: item.photoFile
+          ? await uploadPickupItemPhoto({ donorId: pickup.donorId, pickupId: pickup.id, itemId: item.id }, item.photoFile)
+          : item.photoUrl,
+        isRejected: item.isRejected,
+        rejectionReason: item.rejectionReason,
+      })));
+      await saveInspection(pickup.id, inspected, profile);
+      toast.success('Inspection saved');
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save inspection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen px-4 pt-6 pb-48 space-y-4">
+      <div className="flex items-center gap-4">
+        <button onClick={onDone} className="w-10 h-10 rounded-xl glass flex items-center justify-center"><ArrowLeft className="w-5 h-5 text-white" /></button>
+        <div>
+          <h1 className="text-xl font-bold text-white">Inspect Items</h1>
+          <p className="text-sm text-zinc-500 font-mono">#{pickup.id.slice(0, 8).toUpperCase()}</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2].map(i => <div key={i} className="glass-card h-40 shimmer" />)}
+        </div>
+      ) : (
+        <>
+          {parsedItems.map((item) => {
+            const line = item.isRejected ? null : calculateItemImpact(item, categories);
+            return (
+              <GlassCard key={item.id} className={`p-4 space-y-3 ${item.isRejected ? 'opacity-60' : ''}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <select value={item.categoryId} onChange={(e) => updateItem(item.id, { categoryId: e.target.value })} disabled={item.isRejected}
+                    className="flex-1 min-w-0 bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white">
+                    {categories.map(cat => <option key={cat.id} value={cat.id} className="bg-zinc-900">{cat.name}</option>)}
+                  </select>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => updateItem(item.id, { quantity: Math.max(1, item.quantity - 1) })} disabled={item.isRejected} className="w-8 h-8 rounded-lg bg-white/[0.06] flex items-center justify-center"><Minus className="w-4 h-4 text-zinc-400" /></button>
+                    <span className="text-white font-mono font-bold w-6 text-center">{item.quantity}</span>
+                    <button onClick={() => updateItem(item.id, { quantity: item.quantity + 1 })} disabled={item.isRejected} className="w-8 h-8 rounded-lg bg-eco-500/20 flex items-center justify-center"><Plus className="w-4 h-4 text-eco-400" /></button>
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  {itemConditions.map(cond => (
+                    <button key={cond} onClick={() => updateItem(item.id, { condition: cond })} disabled={item.isRejected}
+                      className={`flex-1 py-1.5 rounded-lg text-[11px] font-medium transition-all ${item.condition === cond ? 'bg-white/[0.08] text-eco-400 border border-white/[0.1]' : 'bg-white/[0.02] text-zinc-500 border border-transparent'}`}>
+                      {cond.replace('_', ' ')}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <label className="text-[11px] text-zinc-500">Actual weight (kg){!item.addedDuringInspection && ` · donor est. ${item.estimatedWeightKg.toFixed(1)}`}</label>
+                    <input type="number" inputMode="decimal" min="0" step="0.01" value={item.weightInput} disabled={item.isRejected}
+                      onChange={(e) => updateItem(item.id, { weightInput: e.target.value })}
+                      className="w-full mt-1 bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white font-mono" placeholder="0.00" />
+                  </div>
+                  <label className="w-16 h-16 rounded-xl bg-white/[0.04] border border-white/[0.08] flex items-center justify-center overflow-hidden cursor-pointer shrink-0">
+                    {item.photoPreview
+                      ? <img src={item.photoPreview} alt="" className="w-full h-full object-cover" />
+                      : item.photoUrl ? <PickupPhoto path={item.photoUrl} className="w-full h-full" /> : <Camera className="w-5 h-5 text-zinc-400" />}
+                    <input type="file" accept="image/*" capture="environment" className="hidden" disabled={item.isRejected} onChange={(e) => selectPhoto(item.id, e.target.files?.[0])} />
+                  </label>
+                </div>
+
+                <div className="flex items-center justify-between gap-3">
+                  <button onClick={() => updateItem(item.id, { isRejected: !item.isRejected })}
+                    className={`text-xs flex items-center gap-1 ${item.isRejected ? 'text-eco-400' : 'text-red-400'}`}>
+                    {item.isRejected ? <><RotateCcw className="w-3 h-3" /> Accept item</> : <><X className="w-3 h-3" /> Reject item</>}
+                  </button>
+                  {line && <span className="text-xs text-eco-400 font-mono">+{line.credits} credits</span>}
+                </div>
+                {item.isRejected && (
+                  <input value={item.rejectionReason ?? ''} onChange={(e) => updateItem(item.id, { rejectionReason: e.target.value || null })}
+                    className="w-full bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white" placeholder="Why was it rejected? (optional)" />
+                )}
+              </GlassCard>
+            );
+          })}
+
+          <button onClick={addItem} className="w-full glass-button text-sm py-3 flex items-center justify-center gap-1.5"><Plus className="w-4 h-4" /> Add an item</button>
+        </>
+      )}
+
+      <div className="fixed bottom-28 left-4 right-4 z-40">
+        <GlassCard variant="elevated" className="p-4 flex items-center justify-between gap-3">
+          <div>
+            <p className="text-xs text-zinc-500">{impact.totalItems} items · {impact.totalWeightKg.toFixed(1)}kg</p>
+            <p className="text-lg font-bold text-eco-400 font-mono">+{impact.credits} credits</p>
+          </div>
+          <button onClick={handleSave} disabled={!canSave || isSaving} className="eco-button text-sm px-5 py-2.5 flex items-center gap-1.5 disabled:opacity-50">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Check className="w-4 h-4" /> Save Inspection</>}
+          </button>
+        </GlassCard>
+      </div>
+    </div>
+  );
+}
+
+// Streams the collector's GPS to the donor while this job is en route
+function LiveLocationStatus({ pickup, collectorId }: { pickup: PickupRequest; collectorId: string }) {
+  const { isSharing, error } = useLocationSharing(pickup.id, collectorId, pickup.status === 'collector_enroute');
+
+  if (error) {
+    return <p className="text-xs text-yellow-400 flex items-center gap-1.5"><AlertTriangle className="w-3 h-3" />{error}</p>;
+  }
+  return (
+    <p className="text-xs text-eco-400 flex items-center gap-1.5">
+      <Navigation className={`w-3 h-3 ${isSharing ? '' : 'animate-pulse'}`} />
+      {isSharing ? 'Sharing your live location with the donor' : 'Starting location sharing…'}
+    </p>
+  );
+}
+
+// Collectors confirm each hazardous handling step before the pickup can be marked collected
+function HazardChecklist({ checks, checked, onToggle }: { checks: string[]; checked: string[]; onToggle: (check: string) => void }) {
+  return (
+    <div className="rounded-xl border border-orange-500/20 bg-orange-500/[0.04] p-3 space-y-2">
+      <p className="text-xs font-semibold text-orange-300 flex items-center gap-1.5"><ShieldAlert className="w-3.5 h-3.5" /> Hazardous items: confirm before collecting</p>
+      {checks.map(check => (
+        <label key={check} className="flex items-start gap-2 text-xs text-zinc-300 cursor-pointer">
+          <input type="checkbox" checked={checked.includes(check)} onChange={() => onToggle(check)} className="mt-0.5 accent-orange-400" />
+          {check}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function CollectorActiveJobsPage({ profile }: { profile: Profile }) {
+  const [activePickups, setActivePickups] = useState<PickupRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [inspectingId, setInspectingId] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [unratedPickups, setUnratedPickups] = useState<PickupRequest[]>([]);
+  // Hazardous handling checks ticked per pickup, confirmed when marking it collected
+  const [hazardChecks, setHazardChecks] = useState<Record<string, string[]>>({});
+
+  // Completed jobs whose donor still needs a rating; refreshed as jobs leave the active list
+  useEffect(() => {
+    getCollectorCompletedPickups(profile.id)
+      .then(pickups => setUnratedPickups(pickups.filter(p => p.donorRating === null && isRatingWindowOpen(p))))
+      .catch((err) => console.error('Failed to load completed pickups:', err));
+  }, [profile.id, activePickups.length]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToCollectorPickups(profile.id, (pickups) => {
+      setActivePickups(pickups);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, [profile.id]);
+
+  const advanceStatus = async (pickup: PickupRequest, next: PickupStatus) => {
+    setUpdatingId(pickup.id);
+    try {
+      if (next === 'completed') {
+        const result = await completePickupAndAwardCredits(pickup.id, profile);
+        if (result.alreadyCompleted) toast.info('This pickup was already completed');
+        else toast.success(`Pickup completed! ${result.creditsAwarded} credits sent to the donor 🌿`);
+      } else if (next === 'collected') {
+        await updatePickupStatus(pickup.id, next, profile, {
+          hazardAcknowledgement: {
+            acknowledgedBy: profile.id,
+            acknowledgedAt: new Date().toISOString(),
+            checks: confirmHazardChecks(getHazardousCategoryIds(pickup), hazardChecks[pickup.id] ?? []),
+          },
+        });
+      } else {
+        await updatePickupStatus(pickup.id, next, profile);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update pickup');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const toggleHazardCheck = (pickupId: string, check: string) => {
+    setHazardChecks(prev => {
+      const checked = prev[pickupId] ?? [];
+      return { ...prev, [pickupId]: checked.includes(check) ? checked.filter(c => c !== check) : [...checked, check] };
+    });
+  };
+
+  const cancelJob = async (pickup: PickupRequest, reason: string) => {
+    setUpdatingId(pickup.id);
+    try {
+      await cancelPickup(pickup.id, reason, profile);
+      setCancellingId(null);
+      toast.success('Job cancelled. The donor has been notified.');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel job');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const inspectingPickup = activePickups.find(p => p.id === inspectingId && p.status === 'inspecting');
+  if (inspectingPickup) {
+    return <CollectorInspectionPage pickup={inspectingPickup} profile={profile} onDone={() => setInspectingId(null)} />;
+  }
+
+  return (
+    <div className="px-4 pt-6 pb-32 space-y-6">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Truck className="w-5 h-5 text-eco-400" />
+          <h1 className="text-xl font-bold text-white">My Active Jobs</h1>
+        </div>
+        <p className="text-sm text-zinc-500">Pickups you've accepted and haven't completed yet</p>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2].map(i => <div key={i} className="glass-card h-24 shimmer" />)}
+        </div>
+      ) : activePickups.length === 0 ? (
+        <GlassCard className="flex flex-col items-center py-8 gap-3">
+          <div className="w-16 h-16 rounded-full bg-eco-500/10 flex items-center justify-center"><Truck className="w-8 h-8 text-eco-500/50" /></div>
+          <p className="text-zinc-500 text-sm">No active jobs</p>
+          <p className="text-zinc-600 text-xs">Accept a pickup from the Jobs feed to get started</p>
+        </GlassCard>
+      ) : (
+        <div className="space-y-3">
+          {activePickups.map((pickup, i) => (
+            <motion.div key={pickup.id} initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: i * 0.1 }}>
+              <GlassCard className="p-4 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <code className="text-xs font-mono text-zinc-500 tracking-widest">#{pickup.id.slice(0, 8).toUpperCase()}</code>
+                  <Badge className={`text-[10px] border ${statusColors[pickup.status]}`}>{pickup.status.replace('_', ' ')}</Badge>
+                </div>
+                <div className="flex items-start gap-3">
+                  <MapPin className="w-4 h-4 text-eco-400 mt-0.5 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white">{pickup.pickupAddress}</p>
+                    {pickup.pickupInstructions && <p className="text-xs text-zinc-500 mt-1 italic">"{pickup.pickupInstructions}"</p>}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between text-xs text-zinc-400">
+                  <span className="flex items-center gap-1"><Calendar className="w-3 h-3" />{pickup.preferredDate ? new Date(pickup.preferredDate).toLocaleDateString() : 'Flexible'} · {timeSlotLabels[pickup.preferredTimeSlot]}</span>
+                  <span className="font-mono">{pickup.totalItems} items · {pickup.estimatedWeightKg.toFixed(1)}kg</span>
+                </div>
+                {pickup.status === 'collector_enroute' && <LiveLocationStatus pickup={pickup} collectorId={profile.id} />}
+                {(() => {
+                  const action = collectorStatusActions[pickup.status];
+                  const canCancel = canTransition(pickup.status, 'cancelled', 'collector');
+                  const needsInspection = pickup.status === 'inspecting' && !pickup.inspectionCompletedAt;
+                  const checklist = pickup.status === 'inspecting' && !needsInspection ? getCollectorChecklist(getHazardousCategoryIds(pickup)) : [];
+                  const checked = hazardChecks[pickup.id] ?? [];
+                  const checklistDone = checklist.every(check => checked.includes(check));
+                  if (!action && !canCancel) return null;
+                  if (cancellingId === pickup.id) {
+                    return (
+                      <CancelPickupPanel reasons={collectorCancelReasons} isSubmitting={updatingId === pickup.id}
+                        onConfirm={(reason) => cancelJob(pickup, reason)} onClose={() => setCancellingId(null)} />
+                    );
+                  }
+                  return (
+                    <>
+                      {checklist.length > 0 && (
+                        <HazardChecklist checks={checklist} checked={checked} onToggle={(check) => toggleHazardCheck(pickup.id, check)} />
+                      )}
+                      <div className="flex gap-3">
+                        {canCancel && (
+                          <button onClick={() => setCancellingId(pickup.id)} disabled={updatingId !== null} className="glass-button text-sm px-4 py-2 text-red-400 disabled:opacity-50">Cancel</button>
+                        )}
+                        {pickup.status === 'inspecting' && (
+                          <button onClick={() => setInspectingId(pickup.id)} disabled={updatingId !== null}
+                            className={`${needsInspection ? 'flex-1 eco-button' : 'glass-button px-4'} text-sm py-2 flex items-center justify-center gap-1.5 disabled:opacity-50`}>
+                            <Weight className="w-4 h-4" /> {needsInspection ? 'Inspect Items' : 'Edit'}
+                          </button>
+                        )}
+                        {action && !needsInspection && (
+                          <button onClick={() => advanceStatus(pickup, action.next)} disabled={updatingId !== null || !checklistDone} className="flex-1 eco-button text-sm py-2 flex items-center justify-center gap-1.5 disabled:opacity-50">
+                            {updatingId === pickup.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <>{action.label} <ArrowRight className="w-4 h-4" /></>}
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  );
+                })()}
+              </GlassCard>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      {unratedPickups.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-white">Rate Recent Donors</h2>
+          {unratedPickups.map(pickup => (
+            <div key={pickup.id} className="space-y-1">
+              <p className="text-xs text-zinc-500 font-mono px-1">#{pickup.id.slice(0, 8).toUpperCase()} · {pickup.pickupAddress}</p>
+              <RatePickupCard pickup={pickup} profile={profile}
+                onRated={() => setUnratedPickups(prev => prev.filter(p => p.id !== pickup.id))} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ==================== HAZARD REPORT ====================
+
+const REPORT_PERIOD_COUNT = 12;
+
+const formatPeriod = (periodStart: string, period: ReportPeriod) => {
+  const date = new Date(`${periodStart}T00:00:00`);
+  return period === 'month'
+    ? date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : `Week of ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+};
+
+function HazardReportPage() {
+  const [period, setPeriod] = useState<ReportPeriod>('month');
+  const [pickups, setPickups] = useState<PickupRequest[] | null>(null);
+  const categories = useAppStore((state) => state.categoryCatalog.categories);
+
+  useEffect(() => {
+    // The last REPORT_PERIOD_COUNT periods, including the current one
+    const from = getPeriodStart(new Date(), period);
+    if (period === 'month') from.setMonth(from.getMonth() - (REPORT_PERIOD_COUNT - 1));
+    else from.setDate(from.getDate() - 7 * (REPORT_PERIOD_COUNT - 1));
+
+    let cancelled = false;
+    getCompletedPickupsBetween(from, new Date())
+      .then(result => { if (!cancelled) setPickups(result); })
+      .catch((err) => {
+        console.error('Failed to load hazard report:', err);
+        toast.error('Failed to load the report');
+      });
+    return () => {
+      cancelled = true;
+      setPickups(null);
+    };
+  }, [period]);
+
+  const rows = pickups ? summarizeHazardousWeight(pickups, period) : [];
+  const totalKg = rows.reduce((sum, row) => sum + row.hazardousWeightKg, 0);
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name ?? id;
+
+  return (
+    <div className="px-4 pt-6 pb-32 space-y-6">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <ShieldAlert className="w-5 h-5 text-orange-400" />
+          <h1 className="text-xl font-bold text-white">Hazardous Waste</h1>
+        </div>
+        <p className="text-sm text-zinc-500">Inspected weight of high and critical hazard items in completed pickups</p>
+      </div>
+
+      <div className="flex gap-2">
+        {(['week', 'month'] as ReportPeriod[]).map(p => (
+          <button key={p} onClick={() => setPeriod(p)}
+            className={`px-4 py-1.5 rounded-full text-xs font-medium transition-all ${period === p ? 'bg-eco-500/20 text-eco-400 border border-eco-500/30' : 'bg-white/[0.04] text-zinc-400 border border-transparent'}`}>
+            {p === 'week' ? 'Weekly' : 'Monthly'}
+          </button>
+        ))}
+      </div>
+
+      {!pickups ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map(i => <div key={i} className="glass-card h-16 shimmer" />)}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard icon={<Weight className="w-5 h-5 text-orange-400" />} label={`Last ${REPORT_PERIOD_COUNT} ${period}s`} value={totalKg.toFixed(1)} unit="kg" />
+            <StatCard icon={<Truck className="w-5 h-5 text-eco-400" />} label="Pickups with hazards" value={rows.reduce((sum, row) => sum + row.pickups, 0)} delay={0.1} />
+          </div>
+
+          {rows.length === 0 ? (
+            <GlassCard className="p-6 text-center text-sm text-zinc-500">No completed pickups in this range</GlassCard>
+          ) : (
+            <div className="space-y-3">
+              {rows.map(row => (
+                <GlassCard key={row.periodStart} className="p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-white">{formatPeriod(row.periodStart, period)}</p>
+                    <span className="font-mono text-sm text-orange-400">{row.hazardousWeightKg.toFixed(1)}kg</span>
+                  </div>
+                  <p className="text-[11px] text-zinc-500">{row.pickups} pickup{row.pickups === 1 ? '' : 's'} with hazardous items</p>
+                  {Object.entries(row.weightByCategory).map(([categoryId, weightKg]) => (
+                    <div key={categoryId} className="flex justify-between text-xs text-zinc-400">
+                      <span>{categoryName(categoryId)}</span>
+                      <span className="font-mono">{weightKg.toFixed(1)}kg</span>
+                    </div>
+                  ))}
+                </GlassCard>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ==================== ADMIN CONSOLE ====================
+
+const ADMIN_PAGE_SIZE = 20;
+const allPickupStatuses = Object.keys(statusTimelineLabels) as PickupStatus[];
+const adminCancelReasons = ['No progress for days', 'Donor unreachable', 'Duplicate request', 'No collector available'];
+
+interface AdminPickupFilters {
+  status: PickupStatus | '';
+  city: string;
+  // YYYY-MM-DD, inclusive
+  from: string;
+  to: string;
+}
+
+// Inclusive local days as the [from, to) range the searches take
+const toDateRange = (from: string, to: string) => {
+  const end = to ? new Date(`${to}T00:00:00`) : undefined;
+  end?.setDate(end.getDate() + 1);
+  return { from: from ? new Date(`${from}T00:00:00`) : undefined, to: end };
+};
+
+const toPickupSearch = ({ status, city, from, to }: AdminPickupFilters): PickupSearch => ({
+  status: status || undefined,
+  city: city.trim() || undefined,
+  ...toDateRange(from, to),
+});
+
+function AdminReassignPanel({ pickup, collectors, isSubmitting, onConfirm, onClose }: {
+  pickup: PickupRequest;
+  collectors: Profile[];
+  isSubmitting: boolean;
+  onConfirm: (collectorId: string, reason: string) => void;
+  onClose: () => void;
+}) {
+  const [collectorId, setCollectorId] = useState('');
+  const [reason, setReason] = useState('');
+  const options = collectors.filter(c => c.id !== pickup.collectorId);
+
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Reassign to another collector</h3>
+        <button onClick={onClose} className="text-zinc-500"><X className="w-4 h-4" /></button>
+      </div>
+      <select value={collectorId} onChange={(e) => setCollectorId(e.target.value)}
+        className="w-full bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white">
+        <option value="" className="bg-zinc-900">Choose a collector</option>
+        {options.map(c => (
+          <option key={c.id} value={c.id} className="bg-zinc-900">{c.fullName}{c.city ? ` · ${c.city}` : ''}{c.isVerified ? ' ✓' : ''}</option>
+        ))}
+      </select>
+      <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} placeholder="Reason (shown to the current collector)" className="glass-input w-full resize-none text-sm" />
+      <button onClick={() => onConfirm(collectorId, reason)} disabled={!collectorId || !reason.trim() || isSubmitting}
+        className="w-full eco-button text-sm py-2.5 flex items-center justify-center gap-1.5 disabled:opacity-50">
+        {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Truck className="w-4 h-4" /> Reassign</>}
+      </button>
+    </GlassCard>
+  );
+}
+
+function AdminPickupsTab({ admin, onSelectPickup }: { admin: Profile; onSelectPickup: (pickupId: string) => void }) {
+  const [filters, setFilters] = useState<AdminPickupFilters>({ status: '', city: '', from: '', to: '' });
+  // Filters only apply on Search; a new object also reloads after a change
+  const [applied, setApplied] = useState<AdminPickupFilters>(filters);
+  const [pickups, setPickups] = useState<PickupRequest[]>([]);
+  const [cursor, setCursor] = useState<PickupPage['cursor']>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [collectors, setCollectors] = useState<Profile[]>([]);
+  const [openPanel, setOpenPanel] = useState<{ pickupId: string; kind: 'reassign' | 'cancel' } | null>(null);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    searchPickups(toPickupSearch(applied), { pageSize: ADMIN_PAGE_SIZE })
+      .then(page => {
+        if (cancelled) return;
+        setPickups(page.pickups);
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => {
+        console.error('Pickup search failed:', err);
+        toast.error('Search failed. This combination of filters may need a new index.');
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [applied]);
+
+  useEffect(() => {
+    listProfiles({ role: 'collector' }, { pageSize: 100 })
+      .then(page => setCollectors(page.profiles))
+      .catch((err) => console.error('Failed to load collectors:', err));
+  }, []);
+
+  const reload = () => {
+    setLoading(true);
+    setOpenPanel(null);
+    setApplied({ ...filters });
+  };
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await searchPickups(toPickupSearch(applied), { pageSize: ADMIN_PAGE_SIZE, after: cursor });
+      setPickups(prev => [...prev, ...page.pickups]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load more pickups');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleReassign = async (pickupId: string, collectorId: string, reason: string) => {
+    setSubmittingId(pickupId);
+    try {
+      await reassignPickup(pickupId, collectorId, admin, reason);
+      toast.success('Pickup reassigned');
+      reload();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reassign pickup');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const handleCancel = async (pickupId: string, reason: string) => {
+    setSubmittingId(pickupId);
+    try {
+      await cancelPickup(pickupId, reason, admin);
+      toast.success('Pickup cancelled');
+      reload();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel pickup');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <GlassCard className="p-4 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <select value={filters.status} onChange={(e) => setFilters({ ...filters, status: e.target.value as AdminPickupFilters['status'] })}
+            className="bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white">
+            <option value="" className="bg-zinc-900">Any status</option>
+            {allPickupStatuses.map(s => <option key={s} value={s} className="bg-zinc-900">{s.replace('_', ' ')}</option>)}
+          </select>
+          <input value={filters.city} onChange={(e) => setFilters({ ...filters, city: e.target.value })} placeholder="City" className="glass-input text-sm" />
+          <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className="glass-input text-sm" />
+          <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className="glass-input text-sm" />
+        </div>
+        <button onClick={reload} className="w-full eco-button text-sm py-2.5">Search</button>
+      </GlassCard>
+
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map(i => <div key={i} className="glass-card h-20 shimmer" />)}
+        </div>
+      ) : pickups.length === 0 ? (
+        <GlassCard className="p-6 text-center text-sm text-zinc-500">No pickups match these filters</GlassCard>
+      ) : (
+        <div className="space-y-2">
+          {pickups.map(pickup => {
+            const isOpen = (kind: 'reassign' | 'cancel') => openPanel?.pickupId === pickup.id && openPanel.kind === kind;
+            const canReassign = reassignableStatuses.includes(pickup.status);
+            const canCancel = canTransition(pickup.status, 'cancelled', 'admin');
+            return (
+              <div key={pickup.id} className="space-y-2">
+                <PickupRow pickup={pickup} onSelect={onSelectPickup} />
+                {(canReassign || canCancel) && (
+                  <div className="flex gap-2 px-1">
+                    <p className="flex-1 text-[11px] text-zinc-500 self-center truncate">{pickup.pickupCity} · {pickup.collectorId ? 'assigned' : 'unassigned'}</p>
+                    {canReassign && (
+                      <button onClick={() => setOpenPanel(isOpen('reassign') ? null : { pickupId: pickup.id, kind: 'reassign' })} className="glass-button text-xs py-1.5 px-3">Reassign</button>
+                    )}
+                    {canCancel && (
+                      <button onClick={() => setOpenPanel(isOpen('cancel') ? null : { pickupId: pickup.id, kind: 'cancel' })} className="glass-button text-xs py-1.5 px-3 text-red-400">Cancel</button>
+                    )}
+                  </div>
+                )}
+                {isOpen('reassign') && (
+                  <AdminReassignPanel pickup={pickup} collectors={collectors} isSubmitting={submittingId === pickup.id}
+                    onConfirm={(collectorId, reason) => handleReassign(pickup.id, collectorId, reason)} onClose={() => setOpenPanel(null)} />
+                )}
+                {isOpen('cancel') && (
+                  <CancelPickupPanel reasons={adminCancelReasons} isSubmitting={submittingId === pickup.id}
+                    onConfirm={(reason) => handleCancel(pickup.id, reason)} onClose={() => setOpenPanel(null)} />
+                )}
+              </div>
+            );
+          })}
+          {hasMore && (
+            <button onClick={loadMore} disabled={loadingMore} className="w-full glass-button text-sm py-3 flex items-center justify-center gap-1.5 disabled:opacity-50">
+              {loadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const userRoles: UserRole[] = ['donor', 'collector', 'admin'];
+
+function AdminProfileEditor({ user, admin, onSaved, onClose }: {
+  user: Profile;
+  admin: Profile;
+  onSaved: (updated: Profile) => void;
+  onClose: () => void;
+}) {
+  const [changes, setChanges] = useState<AdminProfileChanges>({
+    fullName: user.fullName,
+    phone: user.phone,
+    city: user.city,
+    role: user.role,
+    isVerified: user.isVerified,
+  });
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await adminUpdateProfile(user.id, changes, admin, reason);
+      toast.success('Profile updated');
+      onSaved({ ...user, ...changes });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Edit {user.fullName}</h3>
+        <button onClick={onClose} className="text-zinc-500"><X className="w-4 h-4" /></button>
+      </div>
+      <input value={changes.fullName ?? ''} onChange={(e) => setChanges({ ...changes, fullName: e.target.value })} placeholder="Full name" className="glass-input w-full text-sm" />
+      <div className="grid grid-cols-2 gap-2">
+        <input value={changes.phone ?? ''} onChange={(e) => setChanges({ ...changes, phone: e.target.value || null })} placeholder="Phone" className="glass-input text-sm" />
+        <input value={changes.city ?? ''} onChange={(e) => setChanges({ ...changes, city: e.target.value || null })} placeholder="City" className="glass-input text-sm" />
+      </div>
+      <div className="flex gap-2">
+        {userRoles.map(role => (
+          <button key={role} onClick={() => setChanges({ ...changes, role })} disabled={user.id === admin.id && role !== 'admin'}
+            className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium capitalize transition-all disabled:opacity-40 ${changes.role === role ? 'bg-eco-500/20 text-eco-400 border border-eco-500/30' : 'bg-white/[0.03] text-zinc-400 border border-white/[0.06]'}`}>
+            {role}
+          </button>
+        ))}
+      </div>
+      {changes.role === 'collector' && (
+        <label className="flex items-center gap-2 text-sm text-zinc-300">
+          <input type="checkbox" checked={changes.isVerified ?? false} onChange={(e) => setChanges({ ...changes, isVerified: e.target.checked })} className="accent-eco-500" />
+          Verified collector
+        </label>
+      )}
+      <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} placeholder="Reason for the change" className="glass-input w-full resize-none text-sm" />
+      <button onClick={handleSave} disabled={!changes.fullName?.trim() || !reason.trim() || isSaving}
+        className="w-full eco-button text-sm py-2.5 flex items-center justify-center gap-1.5 disabled:opacity-50">
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Check className="w-4 h-4" /> Save Changes</>}
+      </button>
+    </GlassCard>
+  );
+}
+
+// Replays a user's credit ledger and lets an admin settle any difference with a correction
+function LedgerCheckPanel({ user, admin, reconciliation, onChecked }: {
+  user: Profile;
+  admin: Profile;
+  reconciliation: LedgerReconciliation | undefined;
+  onChecked: (reconciliation: LedgerReconciliation) => void;
+}) {
+  const [isChecking, setIsChecking] = useState(false);
+  const [keep, setKeep] = useState<'ledger' | 'profile'>('ledger');
+  const [reason, setReason] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  const check = async () => {
+    setIsChecking(true);
+    try {
+      onChecked(await reconcileUserLedger(user.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to check the ledger');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleCorrect = async () => {
+    if (!reconciliation) return;
+    setIsPosting(true);
+    try {
+      const balance = keep === 'ledger' ? reconciliation.ledgerBalance : reconciliation.profileBalance;
+      await postLedgerCorrection(reconciliation, balance, admin, reason);
+      toast.success('Correction posted');
+      setReason('');
+      await check();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to post the correction');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const unresolved = reconciliation?.mismatches.filter(m => !m.resolved) ?? [];
+
+  return (
+    <GlassCard className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2"><Scale className="w-4 h-4 text-eco-400" /> Credit Ledger</h3>
+        <button onClick={check} disabled={isChecking || isPosting} className="glass-button text-xs py-1.5 px-3 flex items-center gap-1.5 disabled:opacity-50">
+          {isChecking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}{reconciliation ? 'Check again' : 'Check'}
+        </button>
+      </div>
+
+      {reconciliation && (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div><p className="text-sm font-mono text-white">{reconciliation.profileBalance}</p><p className="text-[10px] text-zinc-500">Profile</p></div>
+            <div><p className="text-sm font-mono text-white">{reconciliation.ledgerBalance}</p><p className="text-[10px] text-zinc-500">Ledger ({reconciliation.transactionCount})</p></div>
+            <div><p className={`text-sm font-mono ${reconciliation.difference === 0 ? 'text-eco-400' : 'text-red-400'}`}>{reconciliation.difference > 0 ? '+' : ''}{reconciliation.difference}</p><p className="text-[10px] text-zinc-500">Difference</p></div>
+          </div>
+
+          {reconciliation.isBalanced ? (
+            <p className="text-xs text-eco-400 flex items-center gap-1.5"><CheckCircle2 className="w-3.5 h-3.5" /> Ledger and balance agree</p>
+          ) : (
+            <>
+              {unresolved.slice(0, 5).map(m => (
+                <p key={m.transactionId} className="text-[11px] text-zinc-400">
+                  <span className="font-mono">{m.transactionId.slice(0, 8)}</span> {m.type} {m.amount > 0 ? '+' : ''}{m.amount}: recorded {m.recordedBalance}, expected {m.expectedBalance}
+                </p>
+              ))}
+              {unresolved.length > 5 && <p className="text-[11px] text-zinc-500">and {unresolved.length - 5} more</p>}
+              <div className="flex gap-2">
+                {(['ledger', 'profile'] as const).map(k => (
+                  <button key={k} onClick={() => setKeep(k)}
+                    className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${keep === k ? 'bg-eco-500/20 text-eco-400 border border-eco-500/30' : 'bg-white/[0.03] text-zinc-400 border border-white/[0.06]'}`}>
+                    Keep {k === 'ledger' ? `ledger (${reconciliation.ledgerBalance})` : `profile (${reconciliation.profileBalance})`}
+                  </button>
+                ))}
+              </div>
+              <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} placeholder="Why this balance is right" className="glass-input w-full resize-none text-sm" />
+              <button onClick={handleCorrect} disabled={!reason.trim() || isPosting}
+                className="w-full eco-button text-sm py-2.5 flex items-center justify-center gap-1.5 disabled:opacity-50">
+                {isPosting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Approve Correction'}
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </GlassCard>
+  );
+}
+
+function AdminUsersTab({ admin }: { admin: Profile }) {
+  const [role, setRole] = useState<UserRole | ''>('');
+  const [email, setEmail] = useState('');
+  // Applied on Search or when the role changes
+  const [applied, setApplied] = useState<{ role: UserRole | ''; email: string }>({ role: '', email: '' });
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [cursor, setCursor] = useState<ProfilePage['cursor']>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [ledgers, setLedgers] = useState<Record<string, LedgerReconciliation>>({});
+  const [isCheckingLedgers, setIsCheckingLedgers] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listProfiles({ role: applied.role || undefined, email: applied.email || undefined }, { pageSize: ADMIN_PAGE_SIZE })
+      .then(page => {
+        if (cancelled) return;
+        setUsers(page.profiles);
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load users'))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [applied]);
+
+  const search = (next: { role: UserRole | ''; email: string }) => {
+    setLoading(true);
+    setEditingId(null);
+    setApplied(next);
+  };
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await listProfiles({ role: applied.role || undefined, email: applied.email || undefined }, { pageSize: ADMIN_PAGE_SIZE, after: cursor });
+      setUsers(prev => [...prev, ...page.profiles]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load more users');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const setLedger = (reconciliation: LedgerReconciliation) =>
+    setLedgers(prev => ({ ...prev, [reconciliation.userId]: reconciliation }));
+
+  // One user at a time to keep the reads gentle
+  const checkLedgers = async () => {
+    setIsCheckingLedgers(true);
+    try {
+      for (const user of users) setLedger(await reconcileUserLedger(user.id));
+      toast.success('Ledgers checked');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to check ledgers');
+    } finally {
+      setIsCheckingLedgers(false);
+    }
+  };
+
   return (
-    <div className="space-y-4 pb-32">
-      <p className="text-zinc-400 text-sm">Choose a date and time that works for you.</p>
-      <div>
-        <label className="text-sm text-zinc-400 mb-2 block">Preferred Date</label>
-        <input type="date" min={today} value={schedule.date} onChange={e => onUpdate({ ...schedule, date: e.target.value })} className="glass-input w-full" />
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto">
+        {(['', ...userRoles] as const).map(r => (
+          <button key={r || 'all'} onClick={() => { setRole(r); search({ role: r, email }); }}
+            className={`px-4 py-1.5 rounded-full text-xs font-medium capitalize whitespace-nowrap transition-all ${role === r ? 'bg-eco-500/20 text-eco-400 border border-eco-500/30' : 'bg-white/[0.03] text-zinc-400 border border-white/[0.06]'}`}>
+            {r || 'All'}
+          </button>
+        ))}
       </div>
-      <div>
-        <label className="text-sm text-zinc-400 mb-2 block">Time Slot</label>
+      <div className="flex gap-2">
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Find by email" className="glass-input flex-1 text-sm" />
+        <button onClick={() => search({ role, email })} className="glass-button text-sm px-4">Search</button>
+      </div>
+      <button onClick={checkLedgers} disabled={isCheckingLedgers || loading || users.length === 0}
+        className="w-full glass-button text-sm py-2.5 flex items-center justify-center gap-1.5 disabled:opacity-50">
+        {isCheckingLedgers ? <Loader2 className="w-4 h-4 animate-spin" /> : <Scale className="w-4 h-4 text-eco-400" />} Check credit ledgers of these users
+      </button>
+
+      {loading ? (
         <div className="space-y-2">
-          {(['morning', 'afternoon', 'evening'] as const).map(slot => (
-            <button key={slot} onClick={() => onUpdate({ ...schedule, timeSlot: slot })}
-              className={`w-full p-4 rounded-2xl border text-left transition-all ${schedule.timeSlot === slot ? 'bg-eco-500/10 border-eco-500/30' : 'bg-white/[0.03] border-white/[0.06]'}`}>
-              <p className={`text-sm font-medium ${schedule.timeSlot === slot ? 'text-eco-300' : 'text-white'}`}>{timeSlotLabels[slot]}</p>
+          {[1, 2, 3].map(i => <div key={i} className="glass-card h-16 shimmer" />)}
+        </div>
+      ) : users.length === 0 ? (
+        <GlassCard className="p-6 text-center text-sm text-zinc-500">No users found</GlassCard>
+      ) : (
+        <div className="space-y-2">
+          {users.map(user => editingId === user.id ? (
+            <div key={user.id} className="space-y-2">
+              <AdminProfileEditor user={user} admin={admin} onClose={() => setEditingId(null)}
+                onSaved={(updated) => {
+                  setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+                  setEditingId(null);
+                }} />
+              <LedgerCheckPanel user={user} admin={admin} reconciliation={ledgers[user.id]} onChecked={setLedger} />
+            </div>
+          ) : (
+            <button key={user.id} onClick={() => setEditingId(user.id)} className="w-full text-left">
+              <GlassCard variant="interactive" className="flex items-center gap-3 p-4">
+                <div className="w-10 h-10 rounded-xl bg-eco-gradient flex items-center justify-center text-black font-bold shrink-0">{user.fullName.charAt(0)}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white flex items-center gap-1.5 truncate">
+                    {user.fullName}
+                    {user.isVerified && <CheckCircle2 className="w-3.5 h-3.5 text-eco-400 shrink-0" />}
+                  </p>
+                  <p className="text-xs text-zinc-500 truncate">{user.email}{user.city && ` · ${user.city}`}</p>
+                </div>
+                {ledgers[user.id] && (ledgers[user.id].isBalanced
+                  ? <CheckCircle2 className="w-4 h-4 text-eco-400 shrink-0" />
+                  : <Badge className="text-[10px] border bg-red-500/10 text-red-400 border-red-500/20">Ledger off</Badge>)}
+                <Badge className="bg-white/[0.06] text-zinc-400 border-white/[0.08] capitalize">{user.role}</Badge>
+              </GlassCard>
             </button>
           ))}
+          {hasMore && (
+            <button onClick={loadMore} disabled={loadingMore} className="w-full glass-button text-sm py-3 flex items-center justify-center gap-1.5 disabled:opacity-50">
+              {loadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more'}
+            </button>
+          )}
         </div>
-      </div>
-      {schedule.date && (
-        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
-          <button onClick={onNext} className="eco-button w-full flex items-center justify-center gap-2">Review Pickup <ArrowRight className="w-4 h-4" /></button>
-        </motion.div>
       )}
     </div>
   );
 }
 
-function StepReview({ formData, onSubmit, isSubmitting }: { formData: any; onSubmit: () => void; isSubmitting: boolean }) {
-  const totalWeight = formData.items.reduce((s: number, i: any) => s + i.estimatedWeight * i.quantity, 0);
-  const totalItems = formData.items.reduce((s: number, i: any) => s + i.quantity, 0);
-  const estimatedCredits = Math.round(totalWeight * 20);
+const hazardLevels: EwasteCategory['hazardLevel'][] = ['low', 'medium', 'high', 'critical'];
 
-  return (
-    <div className="space-y-4 pb-32">
-      <p className="text-zinc-400 text-sm">Review your pickup details before submitting.</p>
-      <GlassCard className="p-4 space-y-3">
-        <div className="flex items-center gap-2 text-white">
-          <PackagePlus className="w-4 h-4 text-eco-400" />
-          <span className="text-sm font-semibold">Items ({totalItems})</span>
-        </div>
-        {formData.items.map((item: any) => (
-          <div key={item.categoryId} className="flex justify-between items-center py-2 border-b border-white/[0.04] last:border-0">
-            <div>
-              <p className="text-sm text-white">{item.categoryName}</p>
-              <p className="text-xs text-zinc-500 capitalize">{item.condition.replace('_', ' ')} · {item.estimatedWeight}kg each</p>
-            </div>
-            <span className="text-sm font-mono text-zinc-300">×{item.quantity}</span>
-          </div>
-        ))}
-      </GlassCard>
+// Edits are local until published as the next catalog version. Keyed by the version, so
+// the draft starts over whenever a new one is published.
+function AdminCatalogTab({ admin }: { admin: Profile }) {
+  const catalog = useAppStore((state) => state.categoryCatalog);
+  const [draft, setDraft] = useState<EwasteCategory[]>(catalog.categories);
+  const [notes, setNotes] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(catalog.categories);
 
-      <GlassCard className="p-4">
-        <div className="flex items-start gap-3">
-          <MapPin className="w-4 h-4 text-eco-400 mt-0.5 shrink-0" />
-          <div>
-            <p className="text-sm font-semibold text-white">Pickup Location</p>
-            <p className="text-xs text-zinc-400 mt-0.5">{formData.location.address}</p>
-            {formData.location.instructions && <p className="text-xs text-zinc-500 mt-1 italic">"{formData.location.instructions}"</p>}
-          </div>
-        </div>
-      </GlassCard>
+  const updateCategory = (id: string, updates: Partial<EwasteCategory>) =>
+    setDraft(prev => prev.map(c => (c.id === id ? { ...c, ...updates } : c)));
 
-      <GlassCard className="p-4">
-        <div className="flex items-center gap-3">
-          <Calendar className="w-4 h-4 text-eco-400 shrink-0" />
-          <div>
-            <p className="text-sm font-semibold text-white">{new Date(formData.schedule.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
-            <p className="text-xs text-zinc-400 mt-0.5">{timeSlotLabels[formData.schedule.timeSlot]}</p>
-          </div>
-        </div>
-      </GlassCard>
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      const published = await publishCategoryCatalog(draft, admin.id, notes.trim() || null);
+      toast.success(`Published catalog v${published.version}`);
+      setNotes('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to publish the catalog');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
 
-      <GlassCard variant="glow" className="p-5 relative overflow-hidden">
-        <div className="absolute top-0 right-0 w-24 h-24 bg-eco-500/10 rounded-full blur-[40px]" />
-        <div className="relative z-10 flex items-center justify-between">
-          <div>
-            <p className="text-xs text-zinc-500 uppercase tracking-wider">Estimated Reward</p>
-            <p className="text-3xl font-bold text-white font-mono mt-1">+{estimatedCredits}</p>
-            <p className="text-xs text-eco-400 mt-0.5">Green Credits</p>
+  const numberField = (category: EwasteCategory, field: 'greenCreditsPerKg' | 'avgWeightKg' | 'co2SavedPerKg', label: string) => (
+    <label className="text-[11px] text-zinc-500 space-y-1">
+      <span>{label}</span>
+      <input type="number" min={0} step="0.1" value={category[field]}
+        onChange={(e) => updateCategory(category.id, { [field]: Math.max(0, Number(e.target.value) || 0) })}
+        className="glass-input w-full text-sm font-mono" />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-zinc-500">Current version v{catalog.version}. Existing pickups keep the rates they were priced with.</p>
+      {draft.map(category => (
+        <GlassCard key={category.id} className="p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <input value={category.name} onChange={(e) => updateCategory(category.id, { name: e.target.value })} className="glass-input flex-1 min-w-0 text-sm" />
+            <select value={category.hazardLevel} onChange={(e) => updateCategory(category.id, { hazardLevel: e.target.value as EwasteCategory['hazardLevel'] })}
+              className="bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white capitalize">
+              {hazardLevels.map(level => <option key={level} value={level} className="bg-zinc-900">{level}</option>)}
+            </select>
           </div>
-          <div className="text-right space-y-1">
-            <div className="flex items-center gap-1 text-xs text-zinc-400"><Leaf className="w-3 h-3 text-eco-500" />~{(totalWeight * 1.5).toFixed(1)}kg CO₂ saved</div>
-            <div className="flex items-center gap-1 text-xs text-zinc-400"><CheckCircle2 className="w-3 h-3 text-cyan-400" />Certified recycling</div>
+          <div className="grid grid-cols-3 gap-2">
+            {numberField(category, 'greenCreditsPerKg', 'Credits/kg')}
+            {numberField(category, 'avgWeightKg', 'Avg kg')}
+            {numberField(category, 'co2SavedPerKg', 'CO₂/kg')}
           </div>
+        </GlassCard>
+      ))}
+      <GlassCard className="p-4 space-y-3">
+        <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} placeholder="What changed and why" className="glass-input w-full resize-none text-sm" />
+        <div className="flex gap-2">
+          <button onClick={() => setDraft(catalog.categories)} disabled={!isDirty || isPublishing} className="glass-button text-sm px-4 disabled:opacity-50">Reset</button>
+          <button onClick={handlePublish} disabled={!isDirty || !notes.trim() || draft.some(c => !c.name.trim()) || isPublishing}
+            className="flex-1 eco-button text-sm py-2.5 flex items-center justify-center gap-1.5 disabled:opacity-50">
+            {isPublishing ? <Loader2 className="w-4 h-4 animate-spin" /> : `Publish v${catalog.version + 1}`}
+          </button>
         </div>
       </GlassCard>
-
-      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="fixed bottom-28 left-4 right-4 z-40">
-        <button onClick={onSubmit} disabled={isSubmitting} className="eco-button w-full flex items-center justify-center gap-2 py-4 disabled:opacity-50">
-          {isSubmitting ? <><Loader2 className="w-5 h-5 animate-spin" /> Creating Pickup...</> : <><CheckCircle2 className="w-5 h-5" /> Confirm & Request Pickup</>}
-        </button>
-      </motion.div>
     </div>
   );
 }
 
-// ==================== REWARDS PAGE ====================
+const auditActionLabels: Record<AuditAction, string> = {
+  'pickup.status': 'Status change',
+  'pickup.reassign': 'Reassignment',
+  'credits.change': 'Credit change',
+  'profile.update': 'Profile edit',
+  'profile.role': 'Role change',
+  'catalog.publish': 'Catalog publish',
+};
 
-function RewardsPage({ profile }: { profile: Profile }) {
-  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+interface AuditLogFilters {
+  action: AuditAction | '';
+  actorRole: UserRole | '';
+  targetId: string;
+  // YYYY-MM-DD, inclusive
+  from: string;
+  to: string;
+}
+
+const toAuditLogSearch = ({ action, actorRole, targetId, from, to }: AuditLogFilters): AuditLogSearch => ({
+  action: action || undefined,
+  actorRole: actorRole || undefined,
+  targetId: targetId.trim() || undefined,
+  ...toDateRange(from, to),
+});
+
+function AuditLogEntryCard({ entry }: { entry: AuditLogEntry }) {
+  const createdAt = toDate(entry.createdAt);
+  const fields = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+
+  return (
+    <GlassCard className="p-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Badge className={`text-[10px] border ${entry.actorRole === 'admin' ? 'bg-orange-500/10 text-orange-400 border-orange-500/20' : 'bg-white/[0.06] text-zinc-400 border-white/[0.08]'}`}>
+          {auditActionLabels[entry.action] ?? entry.action}
+        </Badge>
+        <span className="text-[11px] text-zinc-500">{createdAt ? createdAt.toLocaleString() : 'Just now'}</span>
+      </div>
+      <p className="text-xs text-zinc-400">
+        <span className="capitalize">{entry.actorRole}</span> <span className="font-mono">{entry.actorId.slice(0, 8)}</span>
+        {' → '}{entry.targetType} <span className="font-mono">{entry.targetId.slice(0, 8)}</span>
+      </p>
+      {fields.map(field => (
+        <div key={field} className="text-xs flex flex-wrap gap-x-1.5">
+          <span className="text-zinc-500">{field}:</span>
+          <span className="text-red-300/80 font-mono break-all">{formatAuditValue(entry.before?.[field])}</span>
+          <span className="text-zinc-600">→</span>
+          <span className="text-eco-300 font-mono break-all">{formatAuditValue(entry.after?.[field])}</span>
+        </div>
+      ))}
+      {entry.reason && <p className="text-xs text-zinc-300 italic">“{entry.reason}”</p>}
+    </GlassCard>
+  );
+}
+
+function AdminAuditLogTab() {
+  const [filters, setFilters] = useState<AuditLogFilters>({ action: '', actorRole: '', targetId: '', from: '', to: '' });
+  const [applied, setApplied] = useState<AuditLogFilters>(filters);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [cursor, setCursor] = useState<AuditLogPage['cursor']>(null);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
-    const loadData = async () => {
-      const txs = await getUserTransactions(profile.id);
-      setTransactions(txs);
-      setLoading(false);
-    };
-    loadData();
-
-    // Subscribe to real-time updates
-    const unsubTx = subscribeToUserTransactions(profile.id, setTransactions);
-    
-    return () => {
-      unsubTx();
-    };
-  }, [profile.id]);
+    let cancelled = false;
+    searchAuditLog(toAuditLogSearch(applied), { pageSize: ADMIN_PAGE_SIZE })
+      .then(page => {
+        if (cancelled) return;
+        setEntries(page.entries);
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => {
+        console.error('Audit log search failed:', err);
+        toast.error('Search failed. This combination of filters may need a new index.');
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [applied]);
+
+  const search = () => {
+    setLoading(true);
+    setApplied({ ...filters });
+  };
 
-  const userAchievements: UserAchievement[] = [
-    { ...achievements[0], unlockedAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString() },
-    { ...achievements[1], unlockedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString() },
-    { ...achievements[3], unlockedAt: null },
-    { ...achievements[4], unlockedAt: null },
-  ];
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await searchAuditLog(toAuditLogSearch(applied), { pageSize: ADMIN_PAGE_SIZE, after: cursor });
+      setEntries(prev => [...prev, ...page.entries]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load more entries');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   return (
-    <div className="px-4 pt-6 pb-32 space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-white">Rewards</h1>
-        <p className="text-sm text-zinc-500">Earn, unlock, and redeem your Green Credits</p>
-      </div>
+    <div className="space-y-3">
+      <GlassCard className="p-4 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <select value={filters.action} onChange={(e) => setFilters({ ...filters, action: e.target.value as AuditLogFilters['action'] })}
+            className="bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white">
+            <option value="" className="bg-zinc-900">Any action</option>
+            {(Object.keys(auditActionLabels) as AuditAction[]).map(a => <option key={a} value={a} className="bg-zinc-900">{auditActionLabels[a]}</option>)}
+          </select>
+          <select value={filters.actorRole} onChange={(e) => setFilters({ ...filters, actorRole: e.target.value as AuditLogFilters['actorRole'] })}
+            className="bg-white/[0.04] border border-white/[0.08] rounded-xl px-3 py-2 text-sm text-white capitalize">
+            <option value="" className="bg-zinc-900">Anyone</option>
+            {userRoles.map(r => <option key={r} value={r} className="bg-zinc-900">{r}</option>)}
+          </select>
+          <input value={filters.targetId} onChange={(e) => setFilters({ ...filters, targetId: e.target.value })} placeholder="Pickup or user id" className="glass-input col-span-2 text-sm font-mono" />
+          <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className="glass-input text-sm" />
+          <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className="glass-input text-sm" />
+        </div>
+        <button onClick={search} className="w-full eco-button text-sm py-2.5">Search</button>
+      </GlassCard>
 
-      <GlassCard variant="glow" className="p-5 relative overflow-hidden">
-        <div className="absolute -top-10 -right-10 w-40 h-40 bg-eco-500/10 rounded-full blur-[60px]" />
-        <div className="relative z-10 flex items-center justify-between">
-          <div>
-            <p className="text-xs text-eco-400 uppercase tracking-wider font-semibold">Available Balance</p>
-            <p className="text-4xl font-bold text-white font-mono mt-1">{profile.greenCredits.toLocaleString()}</p>
-          </div>
-          <div className="w-16 h-16 rounded-2xl bg-eco-gradient flex items-center justify-center shadow-glow">
-            <Sparkles className="w-8 h-8 text-black" />
-          </div>
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map(i => <div key={i} className="glass-card h-24 shimmer" />)}
         </div>
-        <div className="mt-4 flex items-center gap-4 text-xs text-zinc-400">
-          <span className="flex items-center gap-1"><Flame className="w-3 h-3 text-orange-400" />{profile.streakDays}-day streak</span>
-          <span className="flex items-center gap-1"><Star className="w-3 h-3 text-yellow-400" />Level: {profile.badgeLevel}</span>
+      ) : entries.length === 0 ? (
+        <GlassCard className="p-6 text-center text-sm text-zinc-500">No entries match these filters</GlassCard>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => <AuditLogEntryCard key={entry.id} entry={entry} />)}
+          {hasMore && (
+            <button onClick={loadMore} disabled={loadingMore} className="w-full glass-button text-sm py-3 flex items-center justify-center gap-1.5 disabled:opacity-50">
+              {loadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more'}
+            </button>
+          )}
         </div>
-      </GlassCard>
+      )}
+    </div>
+  );
+}
 
-      <Tabs defaultValue="rewards" className="space-y-4">
-        <TabsList className="grid grid-cols-3 bg-white/[0.03] rounded-2xl p-1">
-          <TabsTrigger value="rewards" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Gift className="w-4 h-4 mr-1.5" />Redeem</TabsTrigger>
-          <TabsTrigger value="achievements" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Trophy className="w-4 h-4 mr-1.5" />Badges</TabsTrigger>
-          <TabsTrigger value="history" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Star className="w-4 h-4 mr-1.5" />History</TabsTrigger>
-        </TabsList>
+function AdminConsolePage({ profile, onSelectPickup }: { profile: Profile; onSelectPickup: (pickupId: string) => void }) {
+  const [activeTab, setActiveTab] = useState('pickups');
+  const catalogVersion = useAppStore((state) => state.categoryCatalog.version);
 
-        <TabsContent value="rewards" className="space-y-3">
-          {rewardsCatalog.map((reward, i) => (
-            <motion.div key={reward.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.1 }}>
-              <GlassCard variant="interactive" className="p-4 flex items-center gap-4">
-                <div className="w-12 h-12 rounded-xl bg-white/[0.06] flex items-center justify-center shrink-0">
-                  {reward.icon === 'TreePine' && <TreePine className={`w-6 h-6 ${reward.color}`} />}
-                  {reward.icon === 'Coffee' && <Coffee className={`w-6 h-6 ${reward.color}`} />}
-                  {reward.icon === 'Heart' && <Heart className={`w-6 h-6 ${reward.color}`} />}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-white">{reward.name}</p>
-                  <p className="text-xs text-zinc-500 mt-0.5">{reward.description}</p>
-                  <p className="text-[10px] text-zinc-600 mt-0.5">Partner: {reward.partner}</p>
-                </div>
-                <div className="text-right shrink-0">
-                  <p className="text-sm font-bold text-eco-400 font-mono">{reward.credits}</p>
-                  <button disabled={profile.greenCredits < reward.credits} className={`mt-1 text-xs px-3 py-1 rounded-lg font-medium transition-all ${profile.greenCredits >= reward.credits ? 'bg-eco-500/20 text-eco-400 hover:bg-eco-500/30' : 'bg-white/[0.04] text-zinc-600'}`}>
-                    {profile.greenCredits >= reward.credits ? 'Redeem' : 'Locked'}
-                  </button>
-                </div>
-              </GlassCard>
-            </motion.div>
-          ))}
-        </TabsContent>
+  return (
+    <div className="px-4 pt-6 pb-32 space-y-6">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Shield className="w-5 h-5 text-eco-400" />
+          <h1 className="text-xl font-bold text-white">Admin</h1>
+        </div>
+        <p className="text-sm text-zinc-500">Every change made here is recorded in the audit log</p>
+      </div>
 
-        <TabsContent value="achievements" className="space-y-3">
-          {userAchievements.map((ach, i) => {
-            const isUnlocked = ach.unlockedAt !== null;
-            return (
-              <motion.div key={ach.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.05 }}>
-                <GlassCard className={`p-4 flex items-center gap-4 ${isUnlocked ? '' : 'opacity-50'}`}>
-                  <div className={`w-12 h-12 rounded-xl flex items-center justify-center shrink-0 ${isUnlocked ? 'bg-eco-gradient shadow-glow' : 'bg-white/[0.04]'}`}>
-                    {isUnlocked ? <Trophy className="w-6 h-6 text-black" /> : <Lock className="w-5 h-5 text-zinc-600" />}
-                  </div>
-                  <div className="flex-1">
-                    <p className="text-sm font-medium text-white">{ach.name}</p>
-                    <p className="text-xs text-zinc-500 mt-0.5">{ach.description}</p>
-                    {isUnlocked && <p className="text-[10px] text-eco-400 mt-1 flex items-center gap-1"><Check className="w-3 h-3" />Unlocked {new Date(ach.unlockedAt!).toLocaleDateString()}</p>}
-                  </div>
-                  <div className="text-right shrink-0"><span className="text-xs font-mono text-eco-400">+{ach.creditReward}</span></div>
-                </GlassCard>
-              </motion.div>
-            );
-          })}
-        </TabsContent>
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+        <TabsList className="grid grid-cols-5 bg-white/[0.03] rounded-2xl p-1">
+          <TabsTrigger value="pickups" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Truck className="w-4 h-4 sm:mr-1.5" /><span className="hidden sm:inline">Pickups</span></TabsTrigger>
+          <TabsTrigger value="users" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Users className="w-4 h-4 sm:mr-1.5" /><span className="hidden sm:inline">Users</span></TabsTrigger>
+          <TabsTrigger value="catalog" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><Recycle className="w-4 h-4 sm:mr-1.5" /><span className="hidden sm:inline">Catalog</span></TabsTrigger>
+          <TabsTrigger value="hazards" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><ShieldAlert className="w-4 h-4 sm:mr-1.5" /><span className="hidden sm:inline">Hazards</span></TabsTrigger>
+          <TabsTrigger value="audit" className="rounded-xl data-[state=active]:bg-eco-500/20 data-[state=active]:text-eco-400"><ScrollText className="w-4 h-4 sm:mr-1.5" /><span className="hidden sm:inline">Audit</span></TabsTrigger>
+        </TabsList>
 
-        <TabsContent value="history" className="space-y-2">
-          {loading ? (
-            <div className="space-y-3">
-              {[1, 2, 3].map(i => <div key={i} className="glass-card h-16 shimmer" />)}
-            </div>
-          ) : (
-            transactions.map((tx, i) => (
-              <motion.div key={tx.id} initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: i * 0.05 }} className="flex items-center gap-3 py-3 border-b border-white/[0.04] last:border-0">
-                <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${tx.amount > 0 ? 'bg-eco-500/10 text-eco-400' : 'bg-red-500/10 text-red-400'}`}>{tx.amount > 0 ? '+' : '−'}</div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm text-white truncate">{tx.description}</p>
-                  <p className="text-xs text-zinc-500">{tx.createdAt ? new Date(tx.createdAt).toLocaleDateString() : 'Just now'}</p>
-                </div>
-                <div className="text-right">
-                  <p className={`text-sm font-mono font-bold ${tx.amount > 0 ? 'text-eco-400' : 'text-red-400'}`}>{tx.amount > 0 ? '+' : ''}{tx.amount}</p>
-                </div>
-              </motion.div>
-            ))
-          )}
-        </TabsContent>
+        <TabsContent value="pickups"><AdminPickupsTab admin={profile} onSelectPickup={onSelectPickup} /></TabsContent>
+        <TabsContent value="users"><AdminUsersTab admin={profile} /></TabsContent>
+        <TabsContent value="catalog"><AdminCatalogTab key={catalogVersion} admin={profile} /></TabsContent>
+        <TabsContent value="hazards"><HazardReportPage /></TabsContent>
+        <TabsContent value="audit"><AdminAuditLogTab /></TabsContent>
       </Tabs>
     </div>
   );
@@ -1106,6 +3685,13 @@ function ProfilePage({ profile, onSignOut }: { profile: Profile; onSignOut: () =
           <Badge className="eco-badge">{badge.icon} {badge.label}</Badge>
           <Badge className="bg-white/[0.06] text-zinc-400 border-white/[0.08]">{profile.role}</Badge>
         </div>
+        {profile.ratingAverage !== null && (profile.ratingCount ?? 0) > 0 && (
+          <p className="text-sm text-zinc-400 flex items-center justify-center gap-1 mt-2">
+            <Star className="w-4 h-4 text-yellow-400 fill-yellow-400" />
+            <span className="text-white font-semibold">{profile.ratingAverage.toFixed(1)}</span>
+            <span className="text-zinc-500">· {profile.ratingCount} rating{profile.ratingCount !== 1 ? 's' : ''}</span>
+          </p>
+        )}
       </div>
 
       <GlassCard className="p-4">
@@ -1150,14 +3736,42 @@ function ProfilePage({ profile, onSignOut }: { profile: Profile; onSignOut: () =
 
 // ==================== BOTTOM NAV ====================
 
-function BottomNav({ currentPage, onNavigate }: { currentPage: string; onNavigate: (page: string) => void }) {
-  const navItems = [
+interface NavItem {
+  id: string;
+  icon: React.ElementType;
+  label: string;
+  isPrimary?: boolean;
+}
+
+const navItemsByRole: Record<UserRole, NavItem[]> = {
+  donor: [
     { id: 'dashboard', icon: Home, label: 'Home' },
     { id: 'scan', icon: ScanLine, label: 'Scan' },
     { id: 'pickup', icon: PackagePlus, label: 'Pickup', isPrimary: true },
     { id: 'rewards', icon: Trophy, label: 'Rewards' },
     { id: 'profile', icon: User, label: 'Profile' },
-  ];
+  ],
+  collector: [
+    { id: 'jobs', icon: Inbox, label: 'Jobs' },
+    { id: 'active', icon: Truck, label: 'My Jobs' },
+    { id: 'profile', icon: User, label: 'Profile' },
+  ],
+  admin: [
+    { id: 'dashboard', icon: Home, label: 'Home' },
+    { id: 'jobs', icon: Inbox, label: 'Jobs' },
+    { id: 'admin', icon: Shield, label: 'Admin' },
+    { id: 'profile', icon: User, label: 'Profile' },
+  ],
+};
+
+const homePageByRole: Record<UserRole, string> = {
+  donor: 'dashboard',
+  collector: 'jobs',
+  admin: 'dashboard',
+};
+
+function BottomNav({ role, currentPage, onNavigate }: { role: UserRole; currentPage: string; onNavigate: (page: string) => void }) {
+  const navItems = navItemsByRole[role];
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 z-50 pb-safe">
@@ -1168,7 +3782,7 @@ function BottomNav({ currentPage, onNavigate }: { currentPage: string; onNavigat
             const Icon = item.icon;
             if (item.isPrimary) {
               return (
-                <button key={item.id} onClick={() => onNavigate('pickup')} className="relative -mt-6">
+                <button key={item.id} onClick={() => onNavigate(item.id)} className="relative -mt-6">
                   <motion.div whileTap={{ scale: 0.9 }} className="w-14 h-14 rounded-2xl bg-eco-gradient flex items-center justify-center shadow-glow active:shadow-glow-lg transition-shadow">
                     <Icon className="w-6 h-6 text-black" strokeWidth={2.5} />
                   </motion.div>
@@ -1211,6 +3825,10 @@ function App() {
   const [user, setUser] = useState<any>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [pickups, setPickups] = useState<PickupRequest[]>([]);
+  const [selectedPickupId, setSelectedPickupId] = useState<string | null>(null);
+  const [detailBackPage, setDetailBackPage] = useState('dashboard');
+  // Items handed from the scanner to the pickup form
+  const [scannedItems, setScannedItems] = useState<PickupFormItem[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Auth state listener
@@ -1228,6 +3846,13 @@ function App() {
           });
         }
         setProfile(userProfile);
+        setCurrentPage(homePageByRole[userProfile.role]);
+
+        // Streak days follow the time zone the user was last seen in
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        if (userProfile.timeZone !== timeZone) {
+          updateUserProfile(firebaseUser.uid, { timeZone }).catch((err) => console.error('Failed to update time zone:', err));
+        }
         
         // Get user's pickups
         const userPickups = await getUserPickups(firebaseUser.uid);
@@ -1247,6 +3872,45 @@ function App() {
     return () => unsubscribe();
   }, []);
 
+  // Mirror notifications into the store and toast the ones that arrive while the app is open
+  const userId: string | undefined = user?.uid;
+  const setNotifications = useAppStore((state) => state.setNotifications);
+  const seenNotificationIds = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    seenNotificationIds.current = null;
+    const unsubscribe = subscribeToUserNotifications(userId, (notifications) => {
+      setNotifications(notifications);
+      const seen = seenNotificationIds.current;
+      if (seen) {
+        notifications
+          .filter(n => !n.isRead && !seen.has(n.id))
+          .forEach(n => toast(n.title, { description: n.body }));
+      }
+      seenNotificationIds.current = new Set(notifications.map(n => n.id));
+    });
+    return () => unsubscribe();
+  }, [userId, setNotifications]);
+
+  const setCategoryCatalog = useAppStore((state) => state.setCategoryCatalog);
+
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToCategoryCatalog(setCategoryCatalog);
+  }, [userId, setCategoryCatalog]);
+
+  const openPickup = (pickupId: string) => {
+    setSelectedPickupId(pickupId);
+    setDetailBackPage(currentPage);
+    setCurrentPage('pickup-detail');
+  };
+
+  const startPickupWith = (items: PickupFormItem[]) => {
+    setScannedItems(items);
+    setCurrentPage('pickup');
+  };
+
   const handleSignOut = async () => {
     await signOut(auth);
     toast.success('Signed out successfully');
@@ -1256,13 +3920,28 @@ function App() {
     if (!user) return <AuthPage onAuth={setUser} />;
     if (!profile) return <div className="min-h-screen flex items-center justify-center"><Loader2 className="w-8 h-8 animate-spin text-eco-400" /></div>;
 
+    if (profile.role === 'collector') {
+      switch (currentPage) {
+        case 'jobs': return <CollectorJobsPage profile={profile} />;
+        case 'active': return <CollectorActiveJobsPage profile={profile} />;
+        case 'profile': return <ProfilePage profile={profile} onSignOut={handleSignOut} />;
+        default: return <CollectorJobsPage profile={profile} />;
+      }
+    }
+
     switch (currentPage) {
-      case 'dashboard': return <Dashboard profile={profile} pickups={pickups} onNavigate={setCurrentPage} />;
-      case 'scan': return <ScannerPage />;
-      case 'pickup': return <PickupForm userId={user.uid} onBack={() => setCurrentPage('dashboard')} />;
+      case 'dashboard': return <Dashboard profile={profile} pickups={pickups} onNavigate={setCurrentPage} onSelectPickup={openPickup} />;
+      case 'scan': return <ScannerPage onAddToPickup={startPickupWith} />;
+      case 'pickup': return <PickupForm userId={user.uid} initialItems={scannedItems} onBack={() => { setScannedItems([]); setCurrentPage('dashboard'); }} />;
+      case 'history': return <PickupHistoryPage userId={user.uid} onSelect={openPickup} onBack={() => setCurrentPage('dashboard')} />;
+      case 'pickup-detail': return selectedPickupId
+        ? <PickupDetailPage pickupId={selectedPickupId} profile={profile} onBack={() => setCurrentPage(detailBackPage)} />
+        : <Dashboard profile={profile} pickups={pickups} onNavigate={setCurrentPage} onSelectPickup={openPickup} />;
       case 'rewards': return <RewardsPage profile={profile} />;
       case 'profile': return <ProfilePage profile={profile} onSignOut={handleSignOut} />;
-      default: return <Dashboard profile={profile} pickups={pickups} onNavigate={setCurrentPage} />;
+      case 'jobs': return profile.role === 'admin' ? <CollectorJobsPage profile={profile} /> : <Dashboard profile={profile} pickups={pickups} onNavigate={setCurrentPage} onSelectPickup={openPickup} />;
+      case 'admin': return profile.role === 'admin' ? <AdminConsolePage profile={profile} onSelectPickup={openPickup} /> : <Dashboard profile={profile} pickups={pickups} onNavigate={setCurrentPage} onSelectPickup={openPickup} />;
+      default: return <Dashboard profile={profile} pickups={pickups} onNavigate={setCurrentPage} onSelectPickup={openPickup} />;
     }
   };
 
@@ -1301,7 +3980,7 @@ function App() {
         </motion.div>
       </AnimatePresence>
 
-      {user && currentPage !== 'pickup' && <BottomNav currentPage={currentPage} onNavigate={setCurrentPage} />}
+      {user && profile && currentPage !== 'pickup' && <BottomNav role={profile.role} currentPage={currentPage} onNavigate={setCurrentPage} />}
       {user && <PWAInstallPrompt />}
     </div>
   );
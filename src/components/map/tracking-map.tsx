@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { MapContainer, TileLayer, Marker, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
@@ -38,7 +38,8 @@ const collectorIcon = new L.Icon({
   iconAnchor: [16, 16],
 });
 
-// Fit bounds to show both markers
+// Fit bounds to show both markers. Refits when the collector first appears or drives
+// out of view, rather than on every update, so the map doesn't jump around.
 function MapFitter({ 
   pickupLocation, 
   collectorLocation 
@@ -47,22 +48,56 @@ function MapFitter({
   collectorLocation: [number, number] | null;
 }) {
   const map = useMap();
+  const hasCollector = collectorLocation !== null;
   
   useEffect(() => {
-    if (collectorLocation) {
-      const bounds = L.latLngBounds([
-        pickupLocation,
-        collectorLocation,
-      ]);
+    if (!hasCollector) map.setView(pickupLocation, 15);
+  }, [map, pickupLocation, hasCollector]);
+
+  useEffect(() => {
+    if (!collectorLocation) return;
+    const bounds = L.latLngBounds([
+      pickupLocation,
+      collectorLocation,
+    ]);
+    if (!map.getBounds().contains(bounds)) {
       map.fitBounds(bounds, { padding: [50, 50], maxZoom: 16 });
-    } else {
-      map.setView(pickupLocation, 15);
     }
   }, [map, pickupLocation, collectorLocation]);
 
   return null;
 }
 
+// Glide the collector marker to each new position instead of teleporting it
+const MARKER_ANIMATION_MS = 1200;
+
+function AnimatedMarker({ position, icon }: { position: [number, number]; icon: L.Icon }) {
+  const markerRef = useRef<L.Marker>(null);
+
+  useEffect(() => {
+    const marker = markerRef.current;
+    if (!marker) return;
+    const from = marker.getLatLng();
+    const [toLat, toLng] = position;
+    if (from.lat === toLat && from.lng === toLng) return;
+
+    let frame = 0;
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / MARKER_ANIMATION_MS);
+      const eased = 1 - (1 - t) ** 3;
+      marker.setLatLng([from.lat + (toLat - from.lat) * eased, from.lng + (toLng - from.lng) * eased]);
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [position]);
+
+  // The initial position only; later moves are animated above
+  const [initialPosition] = useState(position);
+  return <Marker ref={markerRef} position={initialPosition} icon={icon} />;
+}
+
 interface TrackingMapProps {
   pickupLocation: [number, number];
   collectorLocation: [number, number] | null;
@@ -93,7 +128,7 @@ export default function TrackingMap({
 
       {/* Collector location marker (if available) */}
       {collectorLocation && (
-        <Marker position={collectorLocation} icon={collectorIcon} />
+        <AnimatedMarker position={collectorLocation} icon={collectorIcon} />
       )}
     </MapContainer>
   );
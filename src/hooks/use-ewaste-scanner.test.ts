@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { createStubClassifier, type ImageClassifier } from '@/lib/classifiers';
+import { useEwasteScanner } from '@/hooks/use-ewaste-scanner';
+
+const image = document.createElement('img');
+
+function failingClassifier(overrides: Partial<ImageClassifier>): ImageClassifier {
+  return { ...createStubClassifier(), ...overrides };
+}
+
+describe('useEwasteScanner', () => {
+  it('loads the model and maps the top prediction to a category', async () => {
+    const { result } = renderHook(() => useEwasteScanner(createStubClassifier()));
+    expect(result.current.isModelReady).toBe(false);
+
+    let scan: Awaited<ReturnType<typeof result.current.scanImage>> = null;
+    await act(async () => {
+      scan = await result.current.scanImage(image);
+    });
+
+    expect(scan).toMatchObject({ isEwaste: true, categorySlug: 'laptops', confidence: 0.82 });
+    expect(result.current.isModelReady).toBe(true);
+    expect(result.current.result).toEqual(scan);
+    expect(result.current.isScanning).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('reports items that aren\'t e-waste', async () => {
+    const classifier = createStubClassifier([{ className: 'banana', probability: 0.97 }]);
+    const { result } = renderHook(() => useEwasteScanner(classifier));
+
+    await act(async () => {
+      await result.current.scanImage(image);
+    });
+
+    expect(result.current.result).toMatchObject({ label: 'banana', isEwaste: false, categorySlug: null });
+  });
+
+  it('clears the result on reset', async () => {
+    const { result } = renderHook(() => useEwasteScanner(createStubClassifier()));
+    await act(async () => {
+      await result.current.scanImage(image);
+    });
+    act(() => result.current.resetScan());
+    expect(result.current.result).toBeNull();
+  });
+
+  it('reports a model that fails to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const classifier = failingClassifier({ load: () => Promise.reject(new Error('offline')) });
+    const { result } = renderHook(() => useEwasteScanner(classifier));
+
+    let scan: unknown;
+    await act(async () => {
+      scan = await result.current.scanImage(image);
+    });
+
+    expect(scan).toBeNull();
+    expect(result.current.isModelReady).toBe(false);
+    expect(result.current.error).toBe('Failed to load AI model. Please check your connection.');
+    vi.restoreAllMocks();
+  });
+
+  it('reports a failed scan', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const classifier = failingClassifier({ classify: () => Promise.reject(new Error('bad frame')) });
+    const { result } = renderHook(() => useEwasteScanner(classifier));
+
+    await act(async () => {
+      await result.current.scanImage(image);
+    });
+
+    expect(result.current.error).toBe('Scanning failed. Please try again.');
+    expect(result.current.isScanning).toBe(false);
+    vi.restoreAllMocks();
+  });
+
+  it('disposes the classifier on unmount', () => {
+    const classifier = createStubClassifier();
+    const dispose = vi.spyOn(classifier, 'dispose');
+    const { unmount } = renderHook(() => useEwasteScanner(classifier));
+    unmount();
+    expect(dispose).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import type { LatLng } from '@/lib/geo';
+
+const isSupported = typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+// Watch the device position for as long as the calling component is mounted
+export function useGeolocation() {
+  const [position, setPosition] = useState<LatLng | null>(null);
+  const [error, setError] = useState<string | null>(
+    isSupported ? null : 'Geolocation is not supported by your browser'
+  );
+
+  useEffect(() => {
+    if (!isSupported) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        setPosition([pos.coords.latitude, pos.coords.longitude]);
+        setError(null);
+      },
+      () => setError('Unable to get your location. Distances are unavailable.'),
+      { enableHighAccuracy: true, maximumAge: 30000, timeout: 15000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, []);
+
+  return { position, error };
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef } from 'react';
+import { publishCollectorLocation } from '@/lib/firebase/services';
+import { distanceKm, type LatLng } from '@/lib/geo';
+
+// Publish at most this often, and skip fixes that barely moved unless the last one is getting stale
+const MIN_PUBLISH_INTERVAL_MS = 10_000;
+const MIN_PUBLISH_DISTANCE_KM = 0.025;
+const MAX_PUBLISH_INTERVAL_MS = 60_000;
+
+const isSupported = typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+// Share the collector's position for a pickup while `enabled` is true. Turning it off
+// (e.g. the pickup leaves collector_enroute) or unmounting stops the GPS watch.
+export function useLocationSharing(pickupId: string, collectorId: string, enabled: boolean) {
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState<string | null>(
+    isSupported ? null : 'Geolocation is not supported by your browser'
+  );
+  const lastPublished = useRef<{ at: number; position: LatLng } | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !isSupported) return;
+
+    lastPublished.current = null;
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        const now = Date.now();
+        const position: LatLng = [pos.coords.latitude, pos.coords.longitude];
+        const last = lastPublished.current;
+        if (last) {
+          const elapsed = now - last.at;
+          if (elapsed < MIN_PUBLISH_INTERVAL_MS) return;
+          if (elapsed < MAX_PUBLISH_INTERVAL_MS && distanceKm(last.position, position) < MIN_PUBLISH_DISTANCE_KM) return;
+        }
+
+        lastPublished.current = { at: now, position };
+        publishCollectorLocation(pickupId, collectorId, pos.coords)
+          .then(() => {
+            setIsSharing(true);
+            setError(null);
+          })
+          .catch((err) => {
+            console.error('Failed to share location:', err);
+            setError('Unable to share your location');
+          });
+      },
+      () => setError('Unable to get your location. The donor cannot see you on the map.'),
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      setIsSharing(false);
+    };
+  }, [pickupId, collectorId, enabled]);
+
+  return { isSharing, error };
+}
@@ -0,0 +1,41 @@
+import type { Achievement, Profile } from '@/lib/types/database';
+
+// Returns the user's current progress towards an achievement's requirementValue
+export type AchievementEvaluator = (profile: Profile) => number;
+
+const achievementEvaluators: Record<string, AchievementEvaluator> = {
+  // Profiles created before totalPickupsCompleted existed don't have the field
+  pickups: (profile) => profile.totalPickupsCompleted ?? 0,
+  items_recycled: (profile) => profile.totalItemsRecycled,
+  weight_kg: (profile) => profile.totalWeightKg,
+  streak: (profile) => profile.streakDays,
+};
+
+// The Firestore rules check every unlock paid in a write, and can only look at so many
+// documents per request. Anything beyond this unlocks on the next qualifying write.
+export const MAX_UNLOCKS_PER_WRITE = 6;
+
+export function registerAchievementEvaluator(requirementType: string, evaluator: AchievementEvaluator) {
+  achievementEvaluators[requirementType] = evaluator;
+}
+
+export function getAchievementProgress(achievement: Achievement, profile: Profile): number {
+  const evaluator = achievementEvaluators[achievement.requirementType];
+  if (!evaluator) return 0;
+  return Math.min(1, evaluator(profile) / achievement.requirementValue);
+}
+
+// Achievements whose requirement the profile meets and that aren't already unlocked.
+// Unknown requirement types never unlock, so a catalog entry can ship before its evaluator.
+export function evaluateAchievements(
+  catalog: Achievement[],
+  profile: Profile,
+  unlockedIds: Iterable<string> = []
+): Achievement[] {
+  const unlocked = new Set(unlockedIds);
+  return catalog.filter((achievement) => {
+    if (unlocked.has(achievement.id)) return false;
+    const evaluator = achievementEvaluators[achievement.requirementType];
+    return evaluator !== undefined && evaluator(profile) >= achievement.requirementValue;
+  });
+}
@@ -0,0 +1,46 @@
+import type { EwasteCategory } from '@/lib/types/database';
+
+// Before/after snapshots for audit log entries, holding only what actually changed
+
+export interface AuditDiff {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function diffFields<T extends object>(before: T, changes: Partial<T>): AuditDiff {
+  const diff: AuditDiff = { before: {}, after: {} };
+  for (const [key, value] of Object.entries(changes)) {
+    const previous = (before as Record<string, unknown>)[key];
+    if (isSameValue(previous, value)) continue;
+    diff.before[key] = previous ?? null;
+    diff.after[key] = value ?? null;
+  }
+  return diff;
+}
+
+export const hasChanges = (diff: AuditDiff) => Object.keys(diff.after).length > 0;
+
+// Categories added, removed or edited between two catalog versions, keyed by category id.
+// Edited categories only carry the fields that changed.
+export function diffCategories(before: EwasteCategory[], after: EwasteCategory[]): AuditDiff {
+  const diff: AuditDiff = { before: {}, after: {} };
+  const ids = new Set([...before, ...after].map(c => c.id));
+  for (const id of ids) {
+    const previous = before.find(c => c.id === id) ?? null;
+    const next = after.find(c => c.id === id) ?? null;
+    if (isSameValue(previous, next)) continue;
+    const fields = previous && next ? diffFields(previous, next) : { before: previous, after: next };
+    diff.before[id] = fields.before;
+    diff.after[id] = fields.after;
+  }
+  return diff;
+}
+
+// Short display form of a before/after value
+export function formatAuditValue(value: unknown, maxLength = 80): string {
+  if (value === null || value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
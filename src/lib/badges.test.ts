@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getBadgeLevelForCredits, getLifetimeCredits, isHigherBadgeLevel } from '@/lib/badges';
+import { badgeLevelConfig } from '@/lib/data/categories';
+import type { BadgeLevel } from '@/lib/types/database';
+
+describe('getBadgeLevelForCredits', () => {
+  it('starts everyone as a seedling', () => {
+    expect(getBadgeLevelForCredits(0)).toBe('seedling');
+  });
+
+  it('promotes exactly at each threshold', () => {
+    expect(getBadgeLevelForCredits(499)).toBe('seedling');
+    expect(getBadgeLevelForCredits(500)).toBe('sprout');
+    expect(getBadgeLevelForCredits(1999)).toBe('sprout');
+    expect(getBadgeLevelForCredits(2000)).toBe('tree');
+    expect(getBadgeLevelForCredits(4999)).toBe('tree');
+    expect(getBadgeLevelForCredits(5000)).toBe('forest');
+    expect(getBadgeLevelForCredits(14999)).toBe('forest');
+    expect(getBadgeLevelForCredits(15000)).toBe('earth_guardian');
+  });
+
+  it('reaches every level at its configured minimum', () => {
+    for (const [level, { minCredits }] of Object.entries(badgeLevelConfig)) {
+      expect(getBadgeLevelForCredits(minCredits)).toBe(level);
+    }
+  });
+
+  it('stays at the top level past its range', () => {
+    expect(getBadgeLevelForCredits(1_000_000)).toBe('earth_guardian');
+  });
+});
+
+describe('isHigherBadgeLevel', () => {
+  it('follows the level order', () => {
+    expect(isHigherBadgeLevel('sprout', 'seedling')).toBe(true);
+    expect(isHigherBadgeLevel('earth_guardian', 'forest')).toBe(true);
+    expect(isHigherBadgeLevel('seedling', 'tree')).toBe(false);
+  });
+
+  it('isn\'t higher than itself', () => {
+    for (const level of Object.keys(badgeLevelConfig) as BadgeLevel[]) {
+      expect(isHigherBadgeLevel(level, level)).toBe(false);
+    }
+  });
+});
+
+describe('getLifetimeCredits', () => {
+  it('counts earned credits, not the spendable balance', () => {
+    expect(getLifetimeCredits({ greenCredits: 100, totalCreditsEarned: 2500 })).toBe(2500);
+  });
+
+  it('falls back to the balance for profiles from before lifetime credits were tracked', () => {
+    const legacy = { greenCredits: 700 } as Parameters<typeof getLifetimeCredits>[0];
+    expect(getLifetimeCredits(legacy)).toBe(700);
+  });
+});
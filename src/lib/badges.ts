@@ -0,0 +1,23 @@
+import { badgeLevelConfig } from '@/lib/data/categories';
+import type { BadgeLevel, Profile } from '@/lib/types/database';
+
+const badgeLevelOrder = Object.keys(badgeLevelConfig) as BadgeLevel[];
+
+// Levels are driven by lifetime earned credits rather than the spendable balance,
+// so redeeming rewards never demotes anyone.
+export function getLifetimeCredits(profile: Pick<Profile, 'greenCredits' | 'totalCreditsEarned'>): number {
+  // Profiles created before totalCreditsEarned existed only have their balance to go on
+  return profile.totalCreditsEarned ?? profile.greenCredits;
+}
+
+export function getBadgeLevelForCredits(lifetimeCredits: number): BadgeLevel {
+  let level: BadgeLevel = badgeLevelOrder[0];
+  for (const candidate of badgeLevelOrder) {
+    if (lifetimeCredits >= badgeLevelConfig[candidate].minCredits) level = candidate;
+  }
+  return level;
+}
+
+export function isHigherBadgeLevel(level: BadgeLevel, than: BadgeLevel): boolean {
+  return badgeLevelOrder.indexOf(level) > badgeLevelOrder.indexOf(than);
+}
@@ -0,0 +1,60 @@
+import * as tf from '@tensorflow/tfjs';
+import type { ImageClassifier } from './types';
+
+// Written next to model.json by tfjs and Teachable Machine exports
+interface CustomModelMetadata {
+  // Class labels in output order. Use category slugs (e.g. "batteries") so no mapping is needed.
+  labels: string[];
+  imageSize?: number;
+  // Pixel range the model was trained on; Teachable Machine uses [-1, 1]
+  inputRange?: [number, number];
+}
+
+// A fine-tuned e-waste model (tfjs layers format) served from a local URL, e.g.
+// /models/ewaste/model.json with metadata.json and the weight shards alongside it
+export function createCustomModelClassifier({ modelUrl }: { modelUrl: string }): ImageClassifier {
+  let model: tf.LayersModel | null = null;
+  let metadata: CustomModelMetadata | null = null;
+
+  return {
+    name: 'custom',
+    async load(onProgress) {
+      if (model) return;
+      await tf.ready();
+
+      const metadataUrl = new URL('metadata.json', new URL(modelUrl, window.location.href)).href;
+      const res = await fetch(metadataUrl);
+      if (!res.ok) throw new Error(`Unable to load model metadata from ${metadataUrl}`);
+      metadata = (await res.json()) as CustomModelMetadata;
+
+      onProgress?.({ source: 'network', fraction: 0 });
+      model = await tf.loadLayersModel(modelUrl, {
+        onProgress: (fraction) => onProgress?.({ source: 'network', fraction }),
+      });
+    },
+    async classify(image, topK) {
+      if (!model || !metadata) throw new Error('Model not available');
+      const loaded = model;
+      const size = metadata.imageSize ?? 224;
+      const [min, max] = metadata.inputRange ?? [-1, 1];
+
+      const output = tf.tidy(() => {
+        const pixels = tf.image.resizeBilinear(tf.browser.fromPixels(image), [size, size]).toFloat();
+        const input = pixels.div(255).mul(max - min).add(min).expandDims(0);
+        return (loaded.predict(input) as tf.Tensor).squeeze();
+      });
+      const probabilities = await output.data();
+      output.dispose();
+
+      const labels = metadata.labels;
+      return Array.from(probabilities)
+        .map((probability, i) => ({ className: labels[i] ?? `class_${i}`, probability }))
+        .sort((a, b) => b.probability - a.probability)
+        .slice(0, topK);
+    },
+    dispose() {
+      model?.dispose();
+      model = null;
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifierConfigFromEnv, createClassifier, createStubClassifier } from '@/lib/classifiers';
+
+const { createMobileNetClassifier } = vi.hoisted(() => ({ createMobileNetClassifier: vi.fn() }));
+vi.mock('@/lib/classifiers/mobilenet', () => ({ createMobileNetClassifier }));
+
+const image = {} as HTMLImageElement;
+
+describe('classifierConfigFromEnv', () => {
+  it('defaults to MobileNet', () => {
+    expect(classifierConfigFromEnv({})).toEqual({ backend: 'mobilenet', modelUrl: undefined });
+    expect(classifierConfigFromEnv({ VITE_SCANNER_BACKEND: 'resnet' }).backend).toBe('mobilenet');
+  });
+
+  it('reads the backend and model URL', () => {
+    expect(classifierConfigFromEnv({ VITE_SCANNER_BACKEND: 'custom', VITE_SCANNER_MODEL_URL: '/models/ewaste/model.json' }))
+      .toEqual({ backend: 'custom', modelUrl: '/models/ewaste/model.json' });
+    expect(classifierConfigFromEnv({ VITE_SCANNER_BACKEND: 'stub' }).backend).toBe('stub');
+  });
+});
+
+describe('createClassifier', () => {
+  it('creates the configured backend without loading a model', () => {
+    expect(createClassifier({ backend: 'stub' }).name).toBe('stub');
+    expect(createClassifier({ backend: 'mobilenet' }).name).toBe('mobilenet');
+    expect(createClassifier({ backend: 'custom', modelUrl: '/models/ewaste/model.json' }).name).toBe('custom');
+  });
+
+  it('falls back to MobileNet when the custom backend has no model URL', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(createClassifier({ backend: 'custom' }).name).toBe('mobilenet');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('refuses to classify before a lazily loaded backend is ready', async () => {
+    await expect(createClassifier({ backend: 'mobilenet' }).classify(image, 5)).rejects.toThrow('Model not available');
+  });
+
+  it('tries the import again after a backend fails to load', async () => {
+    createMobileNetClassifier
+      .mockImplementationOnce(() => { throw new Error('Network error'); })
+      .mockReturnValueOnce(createStubClassifier());
+    const classifier = createClassifier({ backend: 'mobilenet' });
+
+    await expect(classifier.load()).rejects.toThrow('Network error');
+    await classifier.load();
+    expect(await classifier.classify(image, 1)).toHaveLength(1);
+    expect(createMobileNetClassifier).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createStubClassifier', () => {
+  it('returns its predictions best first, limited to topK', async () => {
+    const classifier = createStubClassifier([
+      { className: 'toaster', probability: 0.2 },
+      { className: 'printer', probability: 0.7 },
+      { className: 'banana', probability: 0.1 },
+    ]);
+    await classifier.load();
+    expect(await classifier.classify(image, 2)).toEqual([
+      { className: 'printer', probability: 0.7 },
+      { className: 'toaster', probability: 0.2 },
+    ]);
+  });
+
+  it('recognises a laptop by default', async () => {
+    const [top] = await createStubClassifier().classify(image, 1);
+    expect(top.className).toContain('laptop');
+  });
+});
@@ -0,0 +1,74 @@
+import { createStubClassifier } from './stub';
+import type { ImageClassifier } from './types';
+
+export type { ClassifierInput, ImageClassifier, Prediction } from './types';
+export { EWASTE_LABEL_MAP, findEwasteCategory, toScanResult, type ScanResult } from './labels';
+export { createStubClassifier };
+
+export type ClassifierBackend = 'mobilenet' | 'custom' | 'stub';
+
+export interface ClassifierConfig {
+  backend: ClassifierBackend;
+  // model.json of the custom backend
+  modelUrl?: string;
+}
+
+// Set with VITE_SCANNER_BACKEND (mobilenet, custom or stub) and, for the custom
+// backend, VITE_SCANNER_MODEL_URL. Defaults to MobileNet. import.meta.env only
+// exists under Vite, so elsewhere (e.g. tsx scripts) the defaults apply.
+export function classifierConfigFromEnv(env: Record<string, string | undefined> = import.meta.env ?? {}): ClassifierConfig {
+  const backend = env.VITE_SCANNER_BACKEND;
+  return {
+    backend: backend === 'custom' || backend === 'stub' ? backend : 'mobilenet',
+    modelUrl: env.VITE_SCANNER_MODEL_URL,
+  };
+}
+
+// Imports a tfjs backend on the first load(), so tfjs stays out of the main bundle and
+// importing this module doesn't pull it in. A failed import is forgotten, so the next
+// load() tries again instead of failing for the rest of the session.
+function createLazyClassifier(name: string, importBackend: () => Promise<ImageClassifier>): ImageClassifier {
+  let backend: Promise<ImageClassifier> | null = null;
+  let loaded: ImageClassifier | null = null;
+
+  return {
+    name,
+    async load(onProgress) {
+      backend ??= importBackend().catch((err) => {
+        backend = null;
+        throw err;
+      });
+      loaded = await backend;
+      await loaded.load(onProgress);
+    },
+    async classify(image, topK) {
+      if (!loaded) throw new Error('Model not available');
+      return loaded.classify(image, topK);
+    },
+    dispose() {
+      loaded?.dispose();
+    },
+  };
+}
+
+export function createClassifier(config: ClassifierConfig): ImageClassifier {
+  const mobileNet = () => createLazyClassifier('mobilenet', async () => (await import('./mobilenet')).createMobileNetClassifier());
+
+  switch (config.backend) {
+    case 'custom': {
+      const { modelUrl } = config;
+      if (modelUrl) {
+        return createLazyClassifier('custom', async () => (await import('./custom-model')).createCustomModelClassifier({ modelUrl }));
+      }
+      console.warn('VITE_SCANNER_MODEL_URL is not set; falling back to MobileNet');
+      return mobileNet();
+    }
+    case 'stub':
+      return createStubClassifier();
+    default:
+      return mobileNet();
+  }
+}
+
+// The classifier the scanner uses unless one is passed to useEwasteScanner
+export const scannerClassifier = createClassifier(classifierConfigFromEnv());
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { findEwasteCategory, toScanResult } from '@/lib/classifiers';
+
+describe('findEwasteCategory', () => {
+  it('takes category slugs from a custom e-waste model as they are', () => {
+    expect(findEwasteCategory('batteries')).toEqual({ category: 'Batteries', slug: 'batteries' });
+    expect(findEwasteCategory('networking')?.slug).toBe('networking');
+  });
+
+  it('matches ImageNet labels word by word', () => {
+    expect(findEwasteCategory('laptop, laptop computer')?.slug).toBe('laptops');
+    expect(findEwasteCategory('cellular telephone, cellular phone, cellphone, cell, mobile phone')?.slug).toBe('smartphones');
+    expect(findEwasteCategory('television, television system')?.slug).toBe('displays');
+    expect(findEwasteCategory('remote_control')?.slug).toBe('gaming');
+  });
+
+  it('ignores case', () => {
+    expect(findEwasteCategory('Microwave, Microwave Oven')?.slug).toBe('kitchen');
+  });
+
+  it('returns null for labels that aren\'t e-waste', () => {
+    expect(findEwasteCategory('banana')).toBeNull();
+    expect(findEwasteCategory('golden retriever')).toBeNull();
+    expect(findEwasteCategory('')).toBeNull();
+  });
+});
+
+describe('toScanResult', () => {
+  it('reports the first e-waste prediction with its category', () => {
+    const predictions = [
+      { className: 'banana', probability: 0.5 },
+      { className: 'laptop, laptop computer', probability: 0.3 },
+      { className: 'toaster', probability: 0.2 },
+    ];
+    expect(toScanResult(predictions)).toEqual({
+      label: 'laptop, laptop computer',
+      confidence: 0.3,
+      isEwaste: true,
+      category: 'Laptops & Computers',
+      categorySlug: 'laptops',
+      allPredictions: predictions,
+    });
+  });
+
+  it('skips matches at or below the minimum probability', () => {
+    const result = toScanResult([
+      { className: 'banana', probability: 0.9 },
+      { className: 'laptop', probability: 0.1 },
+    ]);
+    expect(result.isEwaste).toBe(false);
+    expect(result.label).toBe('banana');
+    expect(result.confidence).toBe(0.9);
+    expect(result.categorySlug).toBeNull();
+  });
+
+  it('handles an empty prediction list', () => {
+    expect(toScanResult([])).toMatchObject({ label: 'Unknown', confidence: 0, isEwaste: false, category: null });
+  });
+});
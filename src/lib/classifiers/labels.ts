@@ -0,0 +1,115 @@
+import type { Prediction } from './types';
+
+// Map MobileNet labels to our e-waste categories
+export const EWASTE_LABEL_MAP: Record<string, { category: string; slug: string }> = {
+  // Smartphones & Tablets
+  cellular_telephone: { category: 'Smartphones & Tablets', slug: 'smartphones' },
+  cell_phone: { category: 'Smartphones & Tablets', slug: 'smartphones' },
+  smartphone: { category: 'Smartphones & Tablets', slug: 'smartphones' },
+  iPod: { category: 'Smartphones & Tablets', slug: 'smartphones' },
+  tablet: { category: 'Smartphones & Tablets', slug: 'smartphones' },
+
+  // Laptops & Computers
+  laptop: { category: 'Laptops & Computers', slug: 'laptops' },
+  notebook: { category: 'Laptops & Computers', slug: 'laptops' },
+  desktop_computer: { category: 'Laptops & Computers', slug: 'laptops' },
+  monitor: { category: 'Laptops & Computers', slug: 'laptops' },
+  screen: { category: 'Laptops & Computers', slug: 'laptops' },
+  keyboard: { category: 'Laptops & Computers', slug: 'laptops' },
+  mouse: { category: 'Laptops & Computers', slug: 'laptops' },
+  computer_keyboard: { category: 'Laptops & Computers', slug: 'laptops' },
+
+  // Displays
+  television: { category: 'TVs & Displays', slug: 'displays' },
+  TV: { category: 'TVs & Displays', slug: 'displays' },
+  digital_clock: { category: 'TVs & Displays', slug: 'displays' },
+
+  // Audio & Wearables
+  headphone: { category: 'Audio & Wearables', slug: 'audio' },
+  earphone: { category: 'Audio & Wearables', slug: 'audio' },
+  speaker: { category: 'Audio & Wearables', slug: 'audio' },
+  loudspeaker: { category: 'Audio & Wearables', slug: 'audio' },
+  digital_watch: { category: 'Audio & Wearables', slug: 'audio' },
+
+  // Gaming
+  joystick: { category: 'Gaming Consoles', slug: 'gaming' },
+  remote_control: { category: 'Gaming Consoles', slug: 'gaming' },
+
+  // Printers
+  printer: { category: 'Printers & Scanners', slug: 'printers' },
+
+  // Networking
+  modem: { category: 'Networking Equipment', slug: 'networking' },
+  router: { category: 'Networking Equipment', slug: 'networking' },
+
+  // Kitchen
+  microwave: { category: 'Kitchen Appliances', slug: 'kitchen' },
+  toaster: { category: 'Kitchen Appliances', slug: 'kitchen' },
+  coffee_maker: { category: 'Kitchen Appliances', slug: 'kitchen' },
+  electric_fan: { category: 'Kitchen Appliances', slug: 'kitchen' },
+  iron: { category: 'Kitchen Appliances', slug: 'kitchen' },
+  vacuum: { category: 'Kitchen Appliances', slug: 'kitchen' },
+  washer: { category: 'Kitchen Appliances', slug: 'kitchen' },
+  refrigerator: { category: 'Kitchen Appliances', slug: 'kitchen' },
+
+  // Cables
+  power_cord: { category: 'Cables & Chargers', slug: 'cables' },
+  plug: { category: 'Cables & Chargers', slug: 'cables' },
+  adapter: { category: 'Cables & Chargers', slug: 'cables' },
+
+  // Batteries
+  battery: { category: 'Batteries', slug: 'batteries' },
+};
+
+export interface ScanResult {
+  label: string;
+  confidence: number;
+  isEwaste: boolean;
+  category: string | null;
+  categorySlug: string | null;
+  allPredictions: Prediction[];
+}
+
+// Predictions below this probability are never treated as a match
+const MIN_MATCH_PROBABILITY = 0.1;
+
+// The e-waste category for a model label. Labels from a custom e-waste model are category
+// slugs; ImageNet labels are matched word by word against EWASTE_LABEL_MAP.
+export function findEwasteCategory(label: string): { category: string; slug: string } | null {
+  const bySlug = Object.values(EWASTE_LABEL_MAP).find(value => value.slug === label);
+  if (bySlug) return bySlug;
+
+  const words = label.toLowerCase().replace(/[,_]/g, ' ').split(' ').filter(Boolean);
+  for (const word of words) {
+    for (const [key, value] of Object.entries(EWASTE_LABEL_MAP)) {
+      if (word.includes(key.toLowerCase()) || key.toLowerCase().includes(word)) return value;
+    }
+  }
+  return null;
+}
+
+// Pick the most likely e-waste match among the predictions, or report the top label as not e-waste
+export function toScanResult(predictions: Prediction[]): ScanResult {
+  for (const pred of predictions) {
+    const match = pred.probability > MIN_MATCH_PROBABILITY ? findEwasteCategory(pred.className) : null;
+    if (match) {
+      return {
+        label: pred.className,
+        confidence: pred.probability,
+        isEwaste: true,
+        category: match.category,
+        categorySlug: match.slug,
+        allPredictions: predictions,
+      };
+    }
+  }
+
+  return {
+    label: predictions[0]?.className || 'Unknown',
+    confidence: predictions[0]?.probability || 0,
+    isEwaste: false,
+    category: null,
+    categorySlug: null,
+    allPredictions: predictions,
+  };
+}
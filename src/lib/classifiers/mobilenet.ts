@@ -0,0 +1,26 @@
+import * as tf from '@tensorflow/tfjs';
+import type * as mobilenet from '@tensorflow-models/mobilenet';
+import { loadCachedMobileNet } from '@/lib/model-cache';
+import type { ImageClassifier } from './types';
+
+// ImageNet MobileNet; its labels go through EWASTE_LABEL_MAP to find a category
+export function createMobileNetClassifier(): ImageClassifier {
+  let model: mobilenet.MobileNet | null = null;
+
+  return {
+    name: 'mobilenet',
+    async load(onProgress) {
+      if (!model) model = await loadCachedMobileNet(onProgress);
+    },
+    async classify(image, topK) {
+      if (!model) throw new Error('Model not available');
+      return model.classify(image, topK);
+    },
+    dispose() {
+      if (!model) return;
+      model = null;
+      // MobileNet doesn't have a dispose method, but TF tensors will be cleaned up
+      tf.disposeVariables();
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import type { ImageClassifier, Prediction } from './types';
+
+const defaultStubPredictions: Prediction[] = [
+  { className: 'laptop, laptop computer', probability: 0.82 },
+  { className: 'notebook, notebook computer', probability: 0.09 },
+  { className: 'computer keyboard, keypad', probability: 0.04 },
+  { className: 'space bar', probability: 0.03 },
+  { className: 'mouse, computer mouse', probability: 0.02 },
+];
+
+// Always returns the same predictions whatever the image, so the scanner UI and the label
+// mapping can run without a camera, a model download or a network connection
+export function createStubClassifier(predictions: Prediction[] = defaultStubPredictions): ImageClassifier {
+  return {
+    name: 'stub',
+    async load() {},
+    async classify(_image, topK) {
+      return [...predictions].sort((a, b) => b.probability - a.probability).slice(0, topK);
+    },
+    dispose() {},
+  };
+}
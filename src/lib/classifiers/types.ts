@@ -0,0 +1,18 @@
+import type { ModelLoadProgress } from '@/lib/model-cache';
+
+export interface Prediction {
+  className: string;
+  probability: number;
+}
+
+export type ClassifierInput = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+// A backend for the e-waste scanner. useEwasteScanner only talks to this interface.
+export interface ImageClassifier {
+  readonly name: string;
+  // Safe to call repeatedly; resolves once the model is ready
+  load(onProgress?: (progress: ModelLoadProgress) => void): Promise<void>;
+  // Top predictions, best first
+  classify(image: ClassifierInput, topK: number): Promise<Prediction[]>;
+  dispose(): void;
+}
@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { achievements, badgeLevelConfig, ewasteCategories, rewardsCatalog } from '@/lib/data/categories';
+import { MAX_CATALOG_CREDITS_PER_KG, MAX_CREDITS_PER_KG, maxPickupCredits } from '@/lib/impact';
+import { maxInspectedWeightKg } from '@/lib/inspection';
+
+// firestore.rules keeps its own copy of these tables; this keeps the two from drifting apart
+const rules = readFileSync('firestore.rules', 'utf8');
+
+function rulesFunctionBody(name: string): string {
+  const start = rules.indexOf(`function ${name}(`);
+  if (start === -1) throw new Error(`${name} not found in firestore.rules`);
+  return rules.slice(start, rules.indexOf('\n    }', start));
+}
+
+const rulesMap = (name: string) =>
+  Object.fromEntries([...rulesFunctionBody(name).matchAll(/'(\w+)': (\d+)/g)].map(([, id, value]) => [id, Number(value)]));
+
+describe('firestore.rules tables', () => {
+  it('match the achievement rewards', () => {
+    expect(rulesMap('achievementRewards')).toEqual(Object.fromEntries(achievements.map(a => [a.id, a.creditReward])));
+  });
+
+  it('match the streak achievements', () => {
+    const streakIds = [...rulesFunctionBody('streakAchievementIds').matchAll(/'(\w+)'/g)].map(([, id]) => id);
+    expect(streakIds).toEqual(achievements.filter(a => a.requirementType === 'streak').map(a => a.id));
+  });
+
+  it('match the reward prices', () => {
+    expect(rulesMap('rewardPrices')).toEqual(Object.fromEntries(rewardsCatalog.map(r => [r.id, r.credits])));
+  });
+
+  it('match the weight and credit caps', () => {
+    const [, perKg, allowance] = rulesFunctionBody('maxPickupCredits').match(/weightKg \* ([\d.]+) \+ (\d+)/)!;
+    expect(maxPickupCredits(0)).toBe(Number(allowance));
+    expect(Number(perKg)).toBe(MAX_CREDITS_PER_KG);
+
+    const [, factor, extraKg] = rulesFunctionBody('maxInspectedWeightKg').match(/estimatedWeightKg \* (\d+) \+ (\d+)/)!;
+    expect(maxInspectedWeightKg(10)).toBe(10 * Number(factor) + Number(extraKg));
+  });
+
+  it('keep the built-in catalog under the credit cap', () => {
+    expect(Math.max(...ewasteCategories.map(c => c.greenCreditsPerKg))).toBeLessThanOrEqual(MAX_CATALOG_CREDITS_PER_KG);
+  });
+
+  it('match the badge level thresholds', () => {
+    const thresholds = [...rulesFunctionBody('badgeLevelFor').matchAll(/>= (\d+) \? '(\w+)'/g)]
+      .map(([, minCredits, level]) => [level, Number(minCredits)]);
+    const expected = Object.entries(badgeLevelConfig)
+      .filter(([, config]) => config.minCredits > 0)
+      .map(([level, config]) => [level, config.minCredits])
+      .reverse();
+    expect(thresholds).toEqual(expected);
+  });
+});
@@ -1,4 +1,4 @@
-import type { EwasteCategory } from '@/lib/types/database';
+import type { Achievement, CategoryCatalog, EwasteCategory, Reward } from '@/lib/types/database';
 
 export const ewasteCategories: EwasteCategory[] = [
   {
@@ -123,7 +123,20 @@ export const ewasteCategories: EwasteCategory[] = [
   },
 ];
 
-export const achievements = [
+// The built-in list above is catalog version 1. It is what the app falls back to offline
+// or before a catalog has been published, and what pickups from before versioning were priced with.
+export const STATIC_CATALOG_VERSION = 1;
+
+export const staticCategoryCatalog: CategoryCatalog = {
+  version: STATIC_CATALOG_VERSION,
+  categories: ewasteCategories,
+  publishedAt: null,
+  publishedBy: null,
+  notes: 'Built-in catalog',
+};
+
+// Keep ids and rewards in sync with achievementRewards in firestore.rules.
+export const achievements: Achievement[] = [
   {
     id: 'first_drop',
     slug: 'first_drop',
@@ -206,7 +219,17 @@ export const achievements = [
   },
 ];
 
-export const rewardsCatalog = [
+// Keep ids and prices in sync with rewardPrices in firestore.rules.
+export const rewardsCatalog: {
+  id: string;
+  name: string;
+  credits: number;
+  icon: string;
+  description: string;
+  partner: string;
+  category: Reward['category'];
+  color: string;
+}[] = [
   {
     id: 'plant_tree',
     name: 'Plant a Tree',
@@ -214,6 +237,7 @@ export const rewardsCatalog = [
     icon: 'TreePine',
     description: "We'll plant a tree in your name",
     partner: 'OneTreePlanted',
+    category: 'donation',
     color: 'text-eco-400',
   },
   {
@@ -223,6 +247,7 @@ export const rewardsCatalog = [
     icon: 'Coffee',
     description: 'Free coffee at partner cafés',
     partner: 'Local Cafés',
+    category: 'voucher',
     color: 'text-amber-400',
   },
   {
@@ -232,10 +257,12 @@ export const rewardsCatalog = [
     icon: 'Heart',
     description: 'Support e-waste awareness programs',
     partner: 'Clean Earth Foundation',
+    category: 'donation',
     color: 'text-pink-400',
   },
 ];
 
+// Keep thresholds in sync with badgeLevelFor in firestore.rules.
 export const badgeLevelConfig = {
   seedling: { label: 'Seedling', next: 'Sprout', minCredits: 0, maxCredits: 500, icon: '🌱' },
   sprout: { label: 'Sprout', next: 'Tree', minCredits: 500, maxCredits: 2000, icon: '🌿' },
@@ -9,14 +9,47 @@ import {
   where,
   orderBy,
   limit,
+  startAfter,
   onSnapshot,
   addDoc,
   serverTimestamp,
   writeBatch,
-  increment,
+  runTransaction,
+  type DocumentReference,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot,
+  type Transaction,
+  type WriteBatch,
 } from 'firebase/firestore';
-import { db } from './config';
-import type { Profile, PickupRequest, PickupItem, CreditTransaction, Notification, Achievement } from '@/lib/types/database';
+import { getDownloadURL, ref as storageRef, uploadBytesResumable } from 'firebase/storage';
+import { db, storage } from './config';
+import { assertTransition, canTransition, reassignableStatuses, reschedulableStatuses, resolvePickupActor } from '@/lib/pickup-status';
+import { diffCategories, diffFields, hasChanges } from '@/lib/audit';
+import { reconcileLedger, type LedgerReconciliation } from '@/lib/ledger';
+import { evaluateAchievements, MAX_UNLOCKS_PER_WRITE } from '@/lib/achievements';
+import { getBadgeLevelForCredits, getLifetimeCredits, isHigherBadgeLevel } from '@/lib/badges';
+import { applyStreakActivity, toLocalDay } from '@/lib/streaks';
+import { calculateImpact, calculateItemImpact, MAX_CATALOG_CREDITS_PER_KG, maxPickupCredits, type ImpactLine } from '@/lib/impact';
+import { acceptedItems, maxInspectedWeightKg } from '@/lib/inspection';
+import { getHazardousCategoryIds, getHazardousWeightByCategory } from '@/lib/hazards';
+import { resizeImage } from '@/lib/images';
+import {
+  addRatingToAverage,
+  getPickupRating,
+  getRatedParty,
+  isRatingWindowOpen,
+  isValidRating,
+  MAX_RATING,
+  MIN_RATING,
+} from '@/lib/ratings';
+import {
+  achievements as achievementCatalog,
+  badgeLevelConfig,
+  rewardsCatalog,
+  staticCategoryCatalog,
+  STATIC_CATALOG_VERSION,
+} from '@/lib/data/categories';
+import type { Profile, AuditAction, AuditLogEntry, BadgeLevel, CategoryCatalog, CollectorLocation, EwasteCategory, PickupRequest, PickupItem, PickupActor, PickupStatus, PickupStatusChange, CreditTransaction, Notification, Achievement, AchievementUnlock, Redemption, UserRole } from '@/lib/types/database';
 
 // Collection references
 export const collections = {
@@ -26,7 +59,11 @@ export const collections = {
   creditTransactions: collection(db, 'creditTransactions'),
   notifications: collection(db, 'notifications'),
   achievements: collection(db, 'achievements'),
-  ewasteCategories: collection(db, 'ewasteCategories'),
+  categoryCatalogs: collection(db, 'categoryCatalogs'),
+  redemptions: collection(db, 'redemptions'),
+  userAchievements: collection(db, 'userAchievements'),
+  collectorLocations: collection(db, 'collectorLocations'),
+  auditLog: collection(db, 'auditLog'),
 };
 
 // ==================== PROFILE SERVICES ====================
@@ -37,10 +74,18 @@ export async function createProfile(userId: string, data: Partial<Profile>) {
     id: userId,
     role: 'donor',
     greenCredits: 0,
+    totalCreditsEarned: 0,
+    totalPickupsCompleted: 0,
     totalItemsRecycled: 0,
     totalWeightKg: 0,
     co2SavedKg: 0,
     streakDays: 0,
+    streakLastDay: null,
+    streakFreezes: 0,
+    lastActivityAt: null,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    ratingAverage: null,
+    ratingCount: 0,
     badgeLevel: 'seedling',
     isVerified: false,
     createdAt: new Date().toISOString(),
@@ -74,34 +119,125 @@ export function subscribeToProfile(userId: string, callback: (profile: Profile |
 
 // ==================== PICKUP SERVICES ====================
 
-export async function createPickup(data: Omit<PickupRequest, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
-  const pickupRef = await addDoc(collections.pickups, {
+// Pass an id from newPickupId() when files (e.g. photos) must be stored under it before the pickup exists
+// The pickup and its items are written in one batch, so a request that fails leaves
+// nothing behind and can be retried under the same id
+export async function createPickup(
+  data: Omit<PickupRequest, 'id' | 'createdAt' | 'updatedAt'>,
+  items: NewPickupItem[] = [],
+  pickupId?: string
+): Promise<string> {
+  const pickupRef = pickupId ? doc(collections.pickups, pickupId) : doc(collections.pickups);
+  const batch = writeBatch(db);
+  batch.set(pickupRef, {
     ...data,
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
   });
+  setPickupItems(batch, pickupRef.id, items);
+  await batch.commit();
   return pickupRef.id;
 }
 
+export function newPickupId() {
+  return doc(collections.pickups).id;
+}
+
 export async function getPickup(pickupId: string): Promise<PickupRequest | null> {
   const pickupRef = doc(collections.pickups, pickupId);
   const snapshot = await getDoc(pickupRef);
   return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as PickupRequest) : null;
 }
 
-export async function updatePickupStatus(pickupId: string, status: string, additionalData?: any) {
+const statusTimestampFields: Partial<Record<PickupStatus, keyof PickupRequest>> = {
+  matched: 'matchedAt',
+  collected: 'collectedAt',
+  completed: 'completedAt',
+  cancelled: 'cancelledAt',
+};
+
+function statusHistoryRef(pickupId: string) {
+  return doc(collection(db, 'pickups', pickupId, 'statusHistory'));
+}
+
+// Record a status change in the pickup's timeline and in the audit log. `audit` adds
+// other fields that changed with it and can name a more specific action. The timeline
+// only lists actual changes, e.g. not reassigning an already matched pickup.
+function writeStatusChange(
+  transaction: Transaction,
+  pickupId: string,
+  change: { from: PickupStatus; to: PickupStatus; actor: { id: string; role: UserRole }; actorRole: PickupActor; reason?: string },
+  audit: { action?: AuditAction; before?: Record<string, unknown>; after?: Record<string, unknown> } = {}
+) {
+  if (change.from !== change.to) {
+    transaction.set(statusHistoryRef(pickupId), {
+      fromStatus: change.from,
+      toStatus: change.to,
+      changedBy: change.actor.id,
+      changedByRole: change.actorRole,
+      changedAt: serverTimestamp(),
+      ...(change.reason && { reason: change.reason }),
+    });
+  }
+  writeAuditEntry(transaction, {
+    action: audit.action ?? 'pickup.status',
+    actorId: change.actor.id,
+    actorRole: change.actor.role,
+    targetType: 'pickup',
+    targetId: pickupId,
+    before: { status: change.from, ...audit.before },
+    after: { status: change.to, ...audit.after },
+    reason: change.reason ?? null,
+  });
+}
+
+export async function updatePickupStatus(
+  pickupId: string,
+  status: PickupStatus,
+  actor: { id: string; role: UserRole },
+  additionalData?: Partial<PickupRequest>
+) {
   const pickupRef = doc(collections.pickups, pickupId);
-  const updateData: any = {
-    status,
-    updatedAt: serverTimestamp(),
-  };
-  
-  if (status === 'matched') updateData.matchedAt = serverTimestamp();
-  if (status === 'collected') updateData.collectedAt = serverTimestamp();
-  if (status === 'completed') updateData.completedAt = serverTimestamp();
-  if (status === 'cancelled') updateData.cancelledAt = serverTimestamp();
-  
-  await updateDoc(pickupRef, { ...updateData, ...additionalData });
+
+  await runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+
+    const pickup = pickupSnap.data() as PickupRequest;
+    const actorRole = resolvePickupActor(pickup, actor);
+    if (!actorRole) throw new Error('You are not a party to this pickup');
+    assertTransition(pickup.status, status, actorRole);
+    if (status === 'collected' && !pickup.inspectionCompletedAt) {
+      throw new Error('Record the inspection before marking the pickup collected');
+    }
+    if (status === 'collected') {
+      const confirmed = additionalData?.hazardAcknowledgement?.checks ?? {};
+      if (getHazardousCategoryIds(pickup).some(categoryId => !confirmed[categoryId])) {
+        throw new Error('Confirm every item on the hazardous handling checklist before marking the pickup collected');
+      }
+    }
+
+    const timestampField = statusTimestampFields[status];
+    transaction.update(pickupRef, {
+      ...additionalData,
+      status,
+      ...(timestampField && { [timestampField]: serverTimestamp() }),
+      updatedAt: serverTimestamp(),
+    });
+
+    writeStatusChange(transaction, pickupId, { from: pickup.status, to: status, actor, actorRole });
+
+    // Location sharing ends as soon as the collector arrives or the trip is cancelled
+    if (pickup.status === 'collector_enroute') {
+      transaction.delete(doc(collections.collectorLocations, pickupId));
+    }
+  });
+}
+
+export async function getPickupStatusHistory(pickupId: string): Promise<PickupStatusChange[]> {
+  const q = query(collection(db, 'pickups', pickupId, 'statusHistory'), orderBy('changedAt', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupStatusChange));
 }
 
 export async function getUserPickups(userId: string): Promise<PickupRequest[]> {
@@ -115,6 +251,63 @@ export async function getUserPickups(userId: string): Promise<PickupRequest[]> {
   return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupRequest));
 }
 
+export interface PickupPage {
+  pickups: PickupRequest[];
+  // Pass back as `after` to fetch the next page
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+}
+
+// Newest first. Filtering by status needs the (donorId, status, createdAt desc) composite index.
+export async function getUserPickupsPage(
+  userId: string,
+  { statuses, pageSize = 10, after = null }: { statuses?: PickupStatus[]; pageSize?: number; after?: QueryDocumentSnapshot | null } = {}
+): Promise<PickupPage> {
+  const q = query(
+    collections.pickups,
+    where('donorId', '==', userId),
+    ...(statuses ? [where('status', 'in', statuses)] : []),
+    orderBy('createdAt', 'desc'),
+    ...(after ? [startAfter(after)] : []),
+    // One extra to find out whether there is another page
+    limit(pageSize + 1)
+  );
+  const snapshot = await getDocs(q);
+  const docs = snapshot.docs.slice(0, pageSize);
+  return {
+    pickups: docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupRequest)),
+    cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+    hasMore: snapshot.docs.length > pageSize,
+  };
+}
+
+// A collector's recently completed jobs, e.g. to prompt for donor ratings.
+// Needs the (collectorId, status, completedAt desc) composite index.
+export async function getCollectorCompletedPickups(collectorId: string, max: number = 20): Promise<PickupRequest[]> {
+  const q = query(
+    collections.pickups,
+    where('collectorId', '==', collectorId),
+    where('status', '==', 'completed'),
+    orderBy('completedAt', 'desc'),
+    limit(max)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupRequest));
+}
+
+// Pickups completed in [from, to), newest first. Needs the (status, completedAt desc) composite index.
+export async function getCompletedPickupsBetween(from: Date, to: Date): Promise<PickupRequest[]> {
+  const q = query(
+    collections.pickups,
+    where('status', '==', 'completed'),
+    where('completedAt', '>=', from),
+    where('completedAt', '<', to),
+    orderBy('completedAt', 'desc')
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupRequest));
+}
+
 export async function getPendingPickups(): Promise<PickupRequest[]> {
   const q = query(
     collections.pickups,
@@ -182,18 +375,23 @@ export function subscribeToUserPickups(userId: string, callback: (pickups: Picku
 
 // ==================== PICKUP ITEMS SERVICES ====================
 
-export async function addPickupItems(pickupId: string, items: Omit<PickupItem, 'id' | 'pickupId'>[]) {
-  const batch = writeBatch(db);
-  
-  items.forEach((item) => {
-    const itemRef = doc(collections.pickupItems);
+// An item as listed, optionally under an id reserved with newPickupItemId
+export type NewPickupItem = Omit<PickupItem, 'id' | 'pickupId'> & { id?: string };
+
+function setPickupItems(batch: WriteBatch, pickupId: string, items: NewPickupItem[]) {
+  items.forEach(({ id, ...item }) => {
+    const itemRef = id ? doc(collections.pickupItems, id) : doc(collections.pickupItems);
     batch.set(itemRef, {
       ...item,
       pickupId,
       createdAt: serverTimestamp(),
     });
   });
-  
+}
+
+export async function addPickupItems(pickupId: string, items: NewPickupItem[]) {
+  const batch = writeBatch(db);
+  setPickupItems(batch, pickupId, items);
   await batch.commit();
 }
 
@@ -203,8 +401,240 @@ export async function getPickupItems(pickupId: string): Promise<PickupItem[]> {
   return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupItem));
 }
 
+export function subscribeToPickupItems(pickupId: string, callback: (items: PickupItem[]) => void) {
+  const q = query(collections.pickupItems, where('pickupId', '==', pickupId));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupItem)));
+    },
+    (err) => console.error('Pickup items subscription error:', err)
+  );
+}
+
+// Reserved up front so an item's photo can be uploaded before the item is saved
+export function newPickupItemId() {
+  return doc(collections.pickupItems).id;
+}
+
+// ==================== PICKUP PHOTOS ====================
+
+const PHOTO_UPLOAD_ATTEMPTS = 3;
+
+// Photos live under the donor's folder so storage.rules can check access without the
+// pickup document, which doesn't exist yet while the donor is still filling in the form
+const pickupPhotoPath = (donorId: string, pickupId: string, itemId: string) =>
+  `pickupPhotos/${donorId}/${pickupId}/${itemId}.jpg`;
+
+function uploadOnce(path: string, photo: Blob, onProgress?: (fraction: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const task = uploadBytesResumable(storageRef(storage, path), photo, { contentType: 'image/jpeg' });
+    task.on(
+      'state_changed',
+      (snapshot) => onProgress?.(snapshot.totalBytes ? snapshot.bytesTransferred / snapshot.totalBytes : 0),
+      reject,
+      () => resolve()
+    );
+  });
+}
+
+// Resize, compress and upload an item photo, retrying with backoff on failure.
+// Resolves to the Storage path, which is what PickupItem.photoUrl stores; see getPickupPhotoUrl.
+export async function uploadPickupItemPhoto(
+  { donorId, pickupId, itemId }: { donorId: string; pickupId: string; itemId: string },
+  file: Blob,
+  onProgress?: (fraction: number) => void
+): Promise<string> {
+  const photo = await resizeImage(file);
+  const path = pickupPhotoPath(donorId, pickupId, itemId);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await uploadOnce(path, photo, onProgress);
+      onProgress?.(1);
+      return path;
+    } catch (err) {
+      if (attempt >= PHOTO_UPLOAD_ATTEMPTS) throw err;
+      onProgress?.(0);
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+const photoUrlCache = new Map<string, Promise<string>>();
+
+// Download URL for a stored photo. Reads go through storage.rules, so only the donor, the
+// assigned collector and admins can resolve one. Older items stored full URLs; pass those through.
+export function getPickupPhotoUrl(photo: string): Promise<string> {
+  if (/^https?:\/\//.test(photo)) return Promise.resolve(photo);
+  let url = photoUrlCache.get(photo);
+  if (!url) {
+    url = getDownloadURL(storageRef(storage, photo));
+    url.catch(() => photoUrlCache.delete(photo));
+    photoUrlCache.set(photo, url);
+  }
+  return url;
+}
+
+// ==================== INSPECTION ====================
+
+export type InspectionItemInput = Pick<
+  PickupItem,
+  'id' | 'categoryId' | 'description' | 'quantity' | 'condition' | 'actualWeightKg' | 'photoUrl' | 'isRejected' | 'rejectionReason'
+>;
+
+// Record what the collector actually received: corrected category/condition, weighed
+// weight, photos, items added on site and items turned down. creditsEarned is filled in
+// per item as a preview; completePickupAndAwardCredits recomputes it when paying out.
+export async function saveInspection(
+  pickupId: string,
+  items: InspectionItemInput[],
+  actor: { id: string; role: UserRole }
+) {
+  for (const item of items) {
+    if (!item.isRejected && !(item.actualWeightKg !== null && item.actualWeightKg > 0)) {
+      throw new Error('Enter the weight of every item, or reject it');
+    }
+    if (item.quantity < 1) throw new Error('Quantity must be at least 1');
+  }
+
+  const pickupRef = doc(collections.pickups, pickupId);
+
+  await runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+    const pickup = pickupSnap.data() as PickupRequest;
+
+    const actorRole = resolvePickupActor(pickup, actor);
+    if (actorRole !== 'collector' && actorRole !== 'admin') {
+      throw new Error('Only the assigned collector can inspect this pickup');
+    }
+    if (pickup.status !== 'inspecting') throw new Error('This pickup is not being inspected');
+
+    const catalogVersion = pickup.catalogVersion ?? STATIC_CATALOG_VERSION;
+    const [catalogSnap, ...itemSnaps] = await Promise.all([
+      transaction.get(catalogVersionRef(catalogVersion)),
+      ...items.map(item => transaction.get(doc(collections.pickupItems, item.id))),
+    ]);
+    const catalog = catalogFromSnapshot(catalogSnap, catalogVersion);
+
+    let actualWeightKg = 0;
+    const acceptedLines: ImpactLine[] = [];
+    items.forEach((item, i) => {
+      const itemRef = doc(collections.pickupItems, item.id);
+      const existingSnap = itemSnaps[i];
+      const existing = existingSnap.exists() ? (existingSnap.data() as PickupItem) : null;
+      if (existing && existing.pickupId !== pickupId) throw new Error('Item does not belong to this pickup');
+
+      const estimatedWeightKg = existing?.estimatedWeightKg ?? 0;
+      const line = calculateItemImpact({ ...item, estimatedWeightKg }, catalog.categories);
+      if (!item.isRejected) {
+        actualWeightKg += line.weightKg;
+        acceptedLines.push(line);
+      }
+
+      const inspected = {
+        categoryId: item.categoryId,
+        description: item.description,
+        quantity: item.quantity,
+        condition: item.condition,
+        actualWeightKg: item.isRejected ? null : item.actualWeightKg,
+        photoUrl: item.photoUrl,
+        isRejected: item.isRejected ?? false,
+        rejectionReason: item.isRejected ? item.rejectionReason ?? null : null,
+        creditsEarned: item.isRejected ? 0 : line.credits,
+      };
+
+      if (existing) {
+        transaction.update(itemRef, {
+          ...inspected,
+          declaredCategoryId: existing.declaredCategoryId ?? existing.categoryId,
+          declaredCondition: existing.declaredCondition ?? existing.condition,
+        });
+      } else {
+        transaction.set(itemRef, {
+          ...inspected,
+          pickupId,
+          estimatedWeightKg: 0,
+          aiDetectedLabel: null,
+          aiConfidence: null,
+          addedDuringInspection: true,
+          createdAt: serverTimestamp(),
+        });
+      }
+    });
+
+    if (actualWeightKg > maxInspectedWeightKg(pickup.estimatedWeightKg)) {
+      throw new Error(`That's far more than the ${pickup.estimatedWeightKg}kg the donor estimated. Please re-check the weights.`);
+    }
+
+    transaction.update(pickupRef, {
+      actualWeightKg: Math.round(actualWeightKg * 100) / 100,
+      hazardousWeightByCategory: getHazardousWeightByCategory(acceptedLines),
+      inspectionCompletedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
+
+// ==================== COLLECTOR LOCATION ====================
+
+export async function publishCollectorLocation(
+  pickupId: string,
+  collectorId: string,
+  coords: Pick<GeolocationCoordinates, 'latitude' | 'longitude' | 'accuracy' | 'heading' | 'speed'>
+) {
+  await setDoc(doc(collections.collectorLocations, pickupId), {
+    pickupId,
+    collectorId,
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracyM: coords.accuracy ?? null,
+    heading: coords.heading ?? null,
+    speedMps: coords.speed ?? null,
+    // Device time, so the donor can tell how fresh the fix is without waiting on the server
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function subscribeToCollectorLocation(pickupId: string, callback: (location: CollectorLocation | null) => void) {
+  return onSnapshot(
+    doc(collections.collectorLocations, pickupId),
+    (snapshot) => {
+      callback(snapshot.exists() ? (snapshot.data() as CollectorLocation) : null);
+    },
+    (err) => console.error('Collector location subscription error:', err)
+  );
+}
+
 // ==================== CREDIT TRANSACTIONS ====================
 
+// Transaction write phase for a ledger entry, recorded in the audit log with the balance
+// it moves. The caller updates greenCredits on the profile.
+function writeCreditTransaction(
+  transaction: Transaction,
+  txRef: DocumentReference,
+  entry: Omit<CreditTransaction, 'id' | 'createdAt'>,
+  actor: { id: string; role: UserRole },
+  balanceBefore = entry.balanceAfter - entry.amount
+) {
+  transaction.set(txRef, {
+    ...entry,
+    createdAt: serverTimestamp(),
+  });
+  writeAuditEntry(transaction, {
+    action: 'credits.change',
+    actorId: actor.id,
+    actorRole: actor.role,
+    targetType: 'profile',
+    targetId: entry.userId,
+    before: { greenCredits: balanceBefore },
+    after: { greenCredits: entry.balanceAfter },
+    reason: entry.description,
+    referenceId: txRef.id,
+  });
+}
+
 export async function addCreditTransaction(data: Omit<CreditTransaction, 'id' | 'createdAt'>): Promise<string> {
   const txRef = await addDoc(collections.creditTransactions, {
     ...data,
@@ -275,6 +705,89 @@ export function subscribeToUserNotifications(userId: string, callback: (notifica
   });
 }
 
+// ==================== REWARDS & REDEMPTIONS ====================
+
+// No 0/O or 1/I so codes survive being read out at a counter
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function randomCode(length: number) {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
+
+function generateRedemptionCode(category: Redemption['rewardCategory']) {
+  if (category === 'donation') {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `RCPT-${date}-${randomCode(6)}`;
+  }
+  return `ECO-${randomCode(4)}-${randomCode(4)}`;
+}
+
+export async function redeemReward(userId: string, rewardId: string): Promise<Redemption> {
+  const reward = rewardsCatalog.find(r => r.id === rewardId);
+  if (!reward) throw new Error('Reward not found');
+
+  const profileRef = doc(collections.profiles, userId);
+  const redemptionRef = doc(collections.redemptions);
+  const txRef = doc(collections.creditTransactions);
+  const code = generateRedemptionCode(reward.category);
+
+  // The balance check and debit share one transaction, so concurrent redemptions
+  // are retried against the fresh balance instead of overdrawing it
+  return runTransaction(db, async (transaction) => {
+    const profileSnap = await transaction.get(profileRef);
+    if (!profileSnap.exists()) throw new Error('Profile not found');
+
+    const profile = profileSnap.data() as Profile;
+    if (profile.greenCredits < reward.credits) {
+      throw new Error(`You need ${reward.credits - profile.greenCredits} more credits to redeem ${reward.name}`);
+    }
+
+    const balanceAfter = profile.greenCredits - reward.credits;
+
+    transaction.update(profileRef, {
+      greenCredits: balanceAfter,
+      updatedAt: new Date().toISOString(),
+    });
+
+    writeCreditTransaction(transaction, txRef, {
+      userId,
+      amount: -reward.credits,
+      type: 'redemption',
+      description: `Redeemed ${reward.name}`,
+      referenceId: redemptionRef.id,
+      balanceAfter,
+    }, { id: userId, role: profile.role });
+
+    const redemption: Omit<Redemption, 'id' | 'createdAt'> = {
+      userId,
+      rewardId: reward.id,
+      rewardName: reward.name,
+      rewardCategory: reward.category,
+      partnerName: reward.partner,
+      creditsSpent: reward.credits,
+      code,
+      status: 'issued',
+      creditTransactionId: txRef.id,
+    };
+    transaction.set(redemptionRef, { ...redemption, createdAt: serverTimestamp() });
+
+    return { id: redemptionRef.id, ...redemption, createdAt: new Date().toISOString() };
+  });
+}
+
+export function subscribeToUserRedemptions(userId: string, callback: (redemptions: Redemption[]) => void) {
+  const q = query(
+    collections.redemptions,
+    where('userId', '==', userId),
+    orderBy('createdAt', 'desc'),
+    limit(50)
+  );
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Redemption)));
+  });
+}
+
 // ==================== ACHIEVEMENTS ====================
 
 export async function seedAchievements() {
@@ -304,105 +817,852 @@ export async function getAchievements(): Promise<Achievement[]> {
   return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Achievement));
 }
 
+export function subscribeToUserAchievements(userId: string, callback: (unlocks: AchievementUnlock[]) => void) {
+  const q = query(collections.userAchievements, where('userId', '==', userId));
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AchievementUnlock)));
+  });
+}
+
+const userAchievementRef = (userId: string, achievementId: string) =>
+  doc(collections.userAchievements, `${userId}_${achievementId}`);
+
+// Transaction read phase: achievements the updated profile qualifies for that haven't been unlocked yet.
+// Must run before any transaction writes.
+async function findNewAchievementUnlocks(transaction: Transaction, profile: Profile): Promise<Achievement[]> {
+  const candidates = evaluateAchievements(achievementCatalog, profile);
+  const snaps = await Promise.all(candidates.map(a => transaction.get(userAchievementRef(profile.id, a.id))));
+  return candidates.filter((_, i) => !snaps[i].exists()).slice(0, MAX_UNLOCKS_PER_WRITE);
+}
+
+// Transaction write phase: persist each unlock and pay its reward through the ledger.
+// Returns the balance after all rewards.
+function writeAchievementUnlocks(
+  transaction: Transaction,
+  userId: string,
+  unlocks: Achievement[],
+  balance: number,
+  actor: { id: string; role: UserRole }
+): number {
+  for (const achievement of unlocks) {
+    balance += achievement.creditReward;
+    // Keyed by user and achievement so the reward can only ever be paid once
+    const txRef = doc(collections.creditTransactions, `achievement_${userId}_${achievement.id}`);
+
+    transaction.set(userAchievementRef(userId, achievement.id), {
+      userId,
+      achievementId: achievement.id,
+      creditsAwarded: achievement.creditReward,
+      creditTransactionId: txRef.id,
+      unlockedAt: serverTimestamp(),
+    });
+    writeCreditTransaction(transaction, txRef, {
+      userId,
+      amount: achievement.creditReward,
+      type: 'achievement',
+      description: `Achievement unlocked — ${achievement.name}`,
+      referenceId: achievement.id,
+      balanceAfter: balance,
+    }, actor);
+    transaction.set(doc(collections.notifications), {
+      userId,
+      title: `🏆 ${achievement.name} Unlocked!`,
+      body: `${achievement.description}. You earned ${achievement.creditReward} bonus Green Credits!`,
+      type: 'achievement_unlocked',
+      data: { achievementId: achievement.id, amount: achievement.creditReward },
+      isRead: false,
+      createdAt: serverTimestamp(),
+    });
+  }
+  return balance;
+}
+
 // ==================== E-WASTE CATEGORIES ====================
 
-export async function seedEwasteCategories() {
-  const categories = [
-    { name: 'Smartphones & Tablets', slug: 'smartphones', description: 'Mobile phones, tablets, e-readers', iconName: 'Smartphone', avgWeightKg: 0.2, greenCreditsPerKg: 25, co2SavedPerKg: 2.5, hazardLevel: 'medium', estimatedValuePerKg: 15 },
-    { name: 'Laptops & Computers', slug: 'laptops', description: 'Laptops, desktops, monitors', iconName: 'Laptop', avgWeightKg: 3.0, greenCreditsPerKg: 30, co2SavedPerKg: 3.0, hazardLevel: 'medium', estimatedValuePerKg: 12 },
-    { name: 'Batteries', slug: 'batteries', description: 'Li-ion, NiMH, Lead-acid batteries', iconName: 'Battery', avgWeightKg: 0.5, greenCreditsPerKg: 40, co2SavedPerKg: 4.0, hazardLevel: 'critical', estimatedValuePerKg: 8 },
-    { name: 'Cables & Chargers', slug: 'cables', description: 'USB cables, power adapters, chargers', iconName: 'Cable', avgWeightKg: 0.3, greenCreditsPerKg: 10, co2SavedPerKg: 1.0, hazardLevel: 'low', estimatedValuePerKg: 5 },
-    { name: 'TVs & Displays', slug: 'displays', description: 'LED/LCD TVs, monitors, projectors', iconName: 'Monitor', avgWeightKg: 8.0, greenCreditsPerKg: 20, co2SavedPerKg: 2.0, hazardLevel: 'high', estimatedValuePerKg: 6 },
-    { name: 'Printers & Scanners', slug: 'printers', description: 'Inkjet, laser printers, scanners', iconName: 'Printer', avgWeightKg: 5.0, greenCreditsPerKg: 15, co2SavedPerKg: 1.5, hazardLevel: 'medium', estimatedValuePerKg: 4 },
-    { name: 'Kitchen Appliances', slug: 'kitchen', description: 'Microwaves, toasters, blenders', iconName: 'UtensilsCrossed', avgWeightKg: 4.0, greenCreditsPerKg: 12, co2SavedPerKg: 1.2, hazardLevel: 'low', estimatedValuePerKg: 3 },
-    { name: 'Audio & Wearables', slug: 'audio', description: 'Headphones, speakers, smartwatches', iconName: 'Headphones', avgWeightKg: 0.3, greenCreditsPerKg: 20, co2SavedPerKg: 2.0, hazardLevel: 'low', estimatedValuePerKg: 10 },
-    { name: 'Gaming Consoles', slug: 'gaming', description: 'Consoles, controllers, VR headsets', iconName: 'Gamepad2', avgWeightKg: 2.5, greenCreditsPerKg: 25, co2SavedPerKg: 2.5, hazardLevel: 'low', estimatedValuePerKg: 8 },
-    { name: 'Networking Equipment', slug: 'networking', description: 'Routers, modems, switches', iconName: 'Wifi', avgWeightKg: 1.0, greenCreditsPerKg: 15, co2SavedPerKg: 1.5, hazardLevel: 'low', estimatedValuePerKg: 6 },
-  ];
+const catalogVersionRef = (version: number) => doc(collections.categoryCatalogs, `v${version}`);
 
-  const batch = writeBatch(db);
-  
-  for (const category of categories) {
-    const categoryRef = doc(collections.ewasteCategories, category.slug);
-    batch.set(categoryRef, category);
+// v1 may only exist as the built-in list if it was never seeded
+function catalogFromSnapshot(snapshot: DocumentSnapshot, version: number): CategoryCatalog {
+  if (snapshot.exists()) return snapshot.data() as CategoryCatalog;
+  if (version === STATIC_CATALOG_VERSION) return staticCategoryCatalog;
+  throw new Error(`Category catalog v${version} not found`);
+}
+
+export async function getCategoryCatalog(version?: number): Promise<CategoryCatalog> {
+  if (version !== undefined) {
+    return catalogFromSnapshot(await getDoc(catalogVersionRef(version)), version);
   }
-  
-  await batch.commit();
+
+  const q = query(collections.categoryCatalogs, orderBy('version', 'desc'), limit(1));
+  const snapshot = await getDocs(q);
+  return snapshot.empty ? staticCategoryCatalog : (snapshot.docs[0].data() as CategoryCatalog);
+}
+
+// Latest published catalog; falls back to the built-in list until one has been published
+export function subscribeToCategoryCatalog(callback: (catalog: CategoryCatalog) => void) {
+  const q = query(collections.categoryCatalogs, orderBy('version', 'desc'), limit(1));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(snapshot.empty ? staticCategoryCatalog : (snapshot.docs[0].data() as CategoryCatalog));
+    },
+    (err) => console.error('Category catalog subscription error:', err)
+  );
+}
+
+// Publish an edited category list as the next catalog version. Earlier versions are
+// never modified, so pickups priced with them keep their original rates.
+export async function publishCategoryCatalog(
+  categories: EwasteCategory[],
+  publishedBy: string,
+  notes: string | null = null
+): Promise<CategoryCatalog> {
+  const overpriced = categories.find(c => c.greenCreditsPerKg > MAX_CATALOG_CREDITS_PER_KG);
+  if (overpriced) {
+    throw new Error(`${overpriced.name} can earn at most ${MAX_CATALOG_CREDITS_PER_KG} credits/kg`);
+  }
+
+  const current = await getCategoryCatalog();
+  const catalog: CategoryCatalog = {
+    version: current.version + 1,
+    categories,
+    publishedAt: new Date().toISOString(),
+    publishedBy,
+    notes,
+  };
+  const nextRef = catalogVersionRef(catalog.version);
+
+  await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(nextRef);
+    if (existing.exists()) {
+      throw new Error('The catalog was changed by someone else. Reload and try again.');
+    }
+    transaction.set(nextRef, catalog);
+    writeAuditEntry(transaction, {
+      action: 'catalog.publish',
+      actorId: publishedBy,
+      actorRole: 'admin',
+      targetType: 'categoryCatalog',
+      targetId: `v${catalog.version}`,
+      ...diffCategories(current.categories, categories),
+      reason: notes,
+    });
+  });
+
+  return catalog;
 }
 
-export async function getEwasteCategories(): Promise<any[]> {
-  const snapshot = await getDocs(collections.ewasteCategories);
-  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+// One-time setup: publish the built-in list as catalog v1
+export async function seedCategoryCatalog() {
+  await setDoc(catalogVersionRef(STATIC_CATALOG_VERSION), {
+    ...staticCategoryCatalog,
+    publishedAt: new Date().toISOString(),
+  });
 }
 
 // ==================== BUSINESS LOGIC ====================
 
+// Transaction write phase for anything that moves a donor's stats: pays out the given
+// achievement unlocks, promotes the badge level and writes the updated profile.
+// `updated` carries the new counters, with greenCredits before achievement rewards.
+function writeDonorProgress(
+  transaction: Transaction,
+  donor: Profile,
+  updated: Profile,
+  unlocks: Achievement[],
+  actor: { id: string; role: UserRole }
+) {
+  // Achievement rewards are paid after any other credits, so they follow them in the ledger
+  const finalBalance = writeAchievementUnlocks(transaction, donor.id, unlocks, updated.greenCredits, actor);
+
+  // Everything paid out counts towards the lifetime total that drives badge level
+  const totalCreditsEarned = getLifetimeCredits(donor) + Math.max(0, finalBalance - donor.greenCredits);
+  const earnedLevel = getBadgeLevelForCredits(totalCreditsEarned);
+  const promotedTo = isHigherBadgeLevel(earnedLevel, donor.badgeLevel) ? earnedLevel : null;
+  if (promotedTo) {
+    const badge = badgeLevelConfig[promotedTo];
+    transaction.set(doc(collections.notifications), {
+      userId: donor.id,
+      title: `${badge.icon} You're now a ${badge.label}!`,
+      body: `You've earned ${totalCreditsEarned.toLocaleString()} Green Credits in total. Keep recycling to reach ${badge.next ?? 'new heights'}!`,
+      type: 'badge_promoted',
+      data: { from: donor.badgeLevel, to: promotedTo },
+      isRead: false,
+      createdAt: serverTimestamp(),
+    });
+  }
+
+  transaction.update(doc(collections.profiles, donor.id), {
+    greenCredits: finalBalance,
+    totalCreditsEarned,
+    ...(promotedTo && { badgeLevel: promotedTo }),
+    ...(unlocks.length > 0 && { lastUnlockedAchievementIds: unlocks.map(a => a.id) }),
+    ...(updated.lastCompletedPickupId && { lastCompletedPickupId: updated.lastCompletedPickupId }),
+    totalPickupsCompleted: updated.totalPickupsCompleted ?? 0,
+    totalItemsRecycled: updated.totalItemsRecycled,
+    totalWeightKg: updated.totalWeightKg,
+    co2SavedKg: updated.co2SavedKg,
+    streakDays: updated.streakDays,
+    streakLastDay: updated.streakLastDay ?? null,
+    streakFreezes: updated.streakFreezes ?? 0,
+    lastActivityAt: updated.lastActivityAt ?? null,
+    updatedAt: new Date().toISOString(),
+  });
+
+  return { finalBalance, promotedTo };
+}
+
+// Count a qualifying action towards the user's streak (see lib/streaks.ts for the model).
+// Completed pickups update the streak inside completePickupAndAwardCredits instead.
+export async function recordStreakActivity(userId: string) {
+  const profileRef = doc(collections.profiles, userId);
+
+  await runTransaction(db, async (transaction) => {
+    const profileSnap = await transaction.get(profileRef);
+    if (!profileSnap.exists()) throw new Error('Profile not found');
+
+    const profile = profileSnap.data() as Profile;
+    const now = new Date();
+    const streak = applyStreakActivity(profile, now, profile.timeZone);
+    if (streak.streakLastDay === profile.streakLastDay && streak.streakDays === profile.streakDays) return;
+
+    const updated: Profile = { ...profile, ...streak, lastActivityAt: now.toISOString() };
+    // Users can only pay themselves streak rewards, one per write (see firestore.rules).
+    // Any other achievement is unlocked by the next completed pickup.
+    const unlocks = (await findNewAchievementUnlocks(transaction, updated))
+      .filter(a => a.requirementType === 'streak')
+      .slice(0, 1);
+    writeDonorProgress(transaction, profile, updated, unlocks, { id: userId, role: profile.role });
+  });
+}
+
+
+export interface CompletePickupResult {
+  pickupId: string;
+  donorId: string;
+  creditsAwarded: number;
+  // The donor's balance once the pickup's credits and any achievement rewards are paid.
+  // The pickup's own ledger entry records the balance before the rewards, which follow
+  // it in the ledger. For a pickup that was already completed, the donor's current balance.
+  balanceAfter: number;
+  creditTransactionId: string;
+  unlockedAchievements: Achievement[];
+  promotedTo: BadgeLevel | null;
+  // True when the pickup had already been completed and nothing was written
+  alreadyCompleted: boolean;
+}
+
+// Credits, weight and CO₂ are all derived from the pickup's items via calculateImpact,
+// using each item's actualWeightKg where the collector recorded one, and the rates of the
+// catalog version the pickup was originally priced with. The items are read inside the
+// transaction, so what is paid is what is stored.
 export async function completePickupAndAwardCredits(
   pickupId: string,
-  actualWeightKg: number,
-  actualCredits: number
+  actor: { id: string; role: UserRole }
+): Promise<CompletePickupResult> {
+  const pickupRef = doc(collections.pickups, pickupId);
+  // One ledger entry per pickup, keyed by the pickup id, so a retry can never credit twice
+  const txRef = doc(collections.creditTransactions, `pickup_${pickupId}`);
+  // Transactions can't run queries: find the items first, then read each one inside
+  const itemRefs = (await getDocs(query(collections.pickupItems, where('pickupId', '==', pickupId)))).docs.map(d => d.ref);
+
+  return runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+
+    const pickup = pickupSnap.data() as PickupRequest;
+    const donorId = pickup.donorId;
+    const profileRef = doc(collections.profiles, donorId);
+    const catalogVersion = pickup.catalogVersion ?? STATIC_CATALOG_VERSION;
+    const [profileSnap, txSnap, catalogSnap, ...itemSnaps] = await Promise.all([
+      transaction.get(profileRef),
+      transaction.get(txRef),
+      transaction.get(catalogVersionRef(catalogVersion)),
+      ...itemRefs.map(ref => transaction.get(ref)),
+    ]);
+
+    if (pickup.status === 'completed' || txSnap.exists()) {
+      const existingTx = txSnap.exists() ? (txSnap.data() as CreditTransaction) : null;
+      return {
+        pickupId,
+        donorId,
+        creditsAwarded: pickup.actualCreditsAwarded ?? existingTx?.amount ?? 0,
+        balanceAfter: profileSnap.exists() ? (profileSnap.data() as Profile).greenCredits : existingTx?.balanceAfter ?? 0,
+        creditTransactionId: txRef.id,
+        unlockedAchievements: [],
+        promotedTo: null,
+        alreadyCompleted: true,
+      };
+    }
+
+    const actorRole = resolvePickupActor(pickup, actor);
+    if (!actorRole) throw new Error('You are not a party to this pickup');
+    assertTransition(pickup.status, 'completed', actorRole);
+    if (!profileSnap.exists()) throw new Error('Donor profile not found');
+
+    const catalog = catalogFromSnapshot(catalogSnap, catalogVersion);
+    const items = itemSnaps
+      .filter(snap => snap.exists() && snap.data().pickupId === pickupId)
+      .map(snap => ({ id: snap.id, ...snap.data() } as PickupItem));
+    // Items the collector rejected on site earn nothing
+    const collectedItems = acceptedItems(items);
+    const impact = calculateImpact(collectedItems, catalog.categories);
+    const actualWeightKg = Math.round(impact.totalWeightKg * 100) / 100;
+    const actualCredits = impact.credits;
+    if (actualWeightKg > maxInspectedWeightKg(pickup.estimatedWeightKg)) {
+      throw new Error('The weighed items are far heavier than the donor\'s estimate. Please re-check the weights.');
+    }
+    if (actualCredits > maxPickupCredits(actualWeightKg)) {
+      throw new Error('These items are worth more credits than their weight allows. Check the catalog rates.');
+    }
+
+    const donor = profileSnap.data() as Profile;
+    // Before achievement rewards, which writeDonorProgress pays on top
+    const balanceAfterPickup = donor.greenCredits + actualCredits;
+    const now = new Date();
+    const updatedDonor: Profile = {
+      ...donor,
+      ...applyStreakActivity(donor, now, donor.timeZone),
+      greenCredits: balanceAfterPickup,
+      totalPickupsCompleted: (donor.totalPickupsCompleted ?? 0) + 1,
+      totalItemsRecycled: donor.totalItemsRecycled + impact.totalItems,
+      totalWeightKg: donor.totalWeightKg + actualWeightKg,
+      co2SavedKg: donor.co2SavedKg + impact.co2SavedKg,
+      lastActivityAt: now.toISOString(),
+      lastCompletedPickupId: pickupId,
+    };
+    const unlockedAchievements = await findNewAchievementUnlocks(transaction, updatedDonor);
+
+    // Update pickup
+    transaction.update(pickupRef, {
+      status: 'completed',
+      actualWeightKg,
+      actualCreditsAwarded: actualCredits,
+      completedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    collectedItems.forEach((item, i) => {
+      transaction.update(doc(collections.pickupItems, item.id), { creditsEarned: impact.lines[i].credits });
+    });
+    items.filter(item => item.isRejected).forEach((item) => {
+      transaction.update(doc(collections.pickupItems, item.id), { creditsEarned: 0 });
+    });
+    writeStatusChange(transaction, pickupId, { from: pickup.status, to: 'completed', actor, actorRole });
+
+    const { finalBalance, promotedTo } = writeDonorProgress(transaction, donor, updatedDonor, unlockedAchievements, actor);
+
+    // Add credit transaction
+    writeCreditTransaction(transaction, txRef, {
+      userId: donorId,
+      amount: actualCredits,
+      type: 'pickup_completed',
+      description: `Pickup #${pickupId.slice(0, 8)} completed — ${actualWeightKg}kg recycled`,
+      referenceId: pickupId,
+      balanceAfter: balanceAfterPickup,
+    }, actor);
+
+    // Create notification
+    const notifRef = doc(collections.notifications);
+    transaction.set(notifRef, {
+      userId: donorId,
+      title: '🌿 Credits Earned!',
+      body: `You earned ${actualCredits} Green Credits for recycling ${actualWeightKg}kg of e-waste!`,
+      type: 'credit_earned',
+      data: { amount: actualCredits, pickupId },
+      isRead: false,
+      createdAt: serverTimestamp(),
+    });
+
+    return {
+      pickupId,
+      donorId,
+      creditsAwarded: actualCredits,
+      balanceAfter: finalBalance,
+      creditTransactionId: txRef.id,
+      unlockedAchievements,
+      promotedTo,
+      alreadyCompleted: false,
+    };
+  });
+}
+
+export async function acceptPickup(pickupId: string, collector: { id: string; role: UserRole }) {
+  const pickupRef = doc(collections.pickups, pickupId);
+  const collectorId = collector.id;
+
+  // Run in a transaction so two collectors racing on the same job can't both win
+  await runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+
+    const pickup = pickupSnap.data() as PickupRequest;
+    if (pickup.status !== 'pending' || pickup.collectorId) {
+      throw new Error('This pickup has already been accepted by another collector');
+    }
+    if (pickup.donorId === collectorId) throw new Error('You can\'t collect your own pickup');
+    assertTransition(pickup.status, 'matched', 'collector');
+
+    transaction.update(pickupRef, {
+      collectorId,
+      status: 'matched',
+      matchedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    writeStatusChange(
+      transaction,
+      pickupId,
+      { from: pickup.status, to: 'matched', actor: collector, actorRole: 'collector' },
+      { before: { collectorId: null }, after: { collectorId } }
+    );
+
+    const notifRef = doc(collections.notifications);
+    transaction.set(notifRef, {
+      userId: pickup.donorId,
+      title: '🚚 Collector Assigned',
+      body: `A collector has accepted your pickup #${pickupId.slice(0, 8)}.`,
+      type: 'pickup_matched',
+      data: { pickupId, collectorId },
+      isRead: false,
+      createdAt: serverTimestamp(),
+    });
+  });
+}
+
+// Cancel a pickup with a reason, and let the other side know. Donors can only cancel
+// before the collector sets off (see pickupStatusTransitions).
+export async function cancelPickup(pickupId: string, reason: string, actor: { id: string; role: UserRole }) {
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) throw new Error('Please give a reason for cancelling');
+
+  const pickupRef = doc(collections.pickups, pickupId);
+
+  await runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+
+    const pickup = pickupSnap.data() as PickupRequest;
+    const actorRole = resolvePickupActor(pickup, actor);
+    if (!actorRole) throw new Error('You are not a party to this pickup');
+    if (actorRole === 'donor' && !canTransition(pickup.status, 'cancelled', 'donor')) {
+      throw new Error('Your collector is already on the way, so this pickup can no longer be cancelled');
+    }
+    assertTransition(pickup.status, 'cancelled', actorRole);
+
+    transaction.update(pickupRef, {
+      status: 'cancelled',
+      cancelledAt: serverTimestamp(),
+      cancelledBy: actor.id,
+      cancellationReason: trimmedReason,
+      updatedAt: serverTimestamp(),
+    });
+    writeStatusChange(transaction, pickupId, { from: pickup.status, to: 'cancelled', actor, actorRole, reason: trimmedReason });
+    if (pickup.status === 'collector_enroute') {
+      transaction.delete(doc(collections.collectorLocations, pickupId));
+    }
+
+    // Tell whoever didn't cancel: the assigned collector, or the donor. Both sides hear
+    // about it when an admin cancels.
+    const recipientIds = actorRole === 'admin'
+      ? [pickup.donorId, pickup.collectorId]
+      : [actorRole === 'donor' ? pickup.collectorId : pickup.donorId];
+    for (const recipientId of recipientIds) {
+      if (!recipientId || recipientId === actor.id) continue;
+      transaction.set(doc(collections.notifications), {
+        userId: recipientId,
+        title: '❌ Pickup Cancelled',
+        body: `Pickup #${pickupId.slice(0, 8)} was cancelled: ${trimmedReason}`,
+        type: 'pickup_cancelled',
+        data: { pickupId, reason: trimmedReason },
+        isRead: false,
+        createdAt: serverTimestamp(),
+      });
+    }
+  });
+}
+
+// Rate the other side of a completed pickup: donors rate the collector and collectors rate
+// the donor. Each rating can be given once, within RATING_WINDOW_DAYS of completion, and
+// is folded into the rated user's average in the same transaction.
+export async function ratePickup(
+  pickupId: string,
+  review: { rating: number; tags: string[]; comment: string | null },
+  actor: { id: string; role: UserRole }
 ) {
-  const batch = writeBatch(db);
-  
-  // Get pickup data
+  if (!isValidRating(review.rating)) throw new Error(`Choose a rating from ${MIN_RATING} to ${MAX_RATING} stars`);
+
   const pickupRef = doc(collections.pickups, pickupId);
-  const pickupSnap = await getDoc(pickupRef);
-  if (!pickupSnap.exists()) throw new Error('Pickup not found');
-  
-  const pickup = pickupSnap.data() as PickupRequest;
-  const donorId = pickup.donorId;
-  
-  // Update pickup
-  batch.update(pickupRef, {
-    status: 'completed',
-    actualWeightKg,
-    actualCreditsAwarded: actualCredits,
-    completedAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
+
+  await runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+
+    const pickup = pickupSnap.data() as PickupRequest;
+    // Decided by who the user is on this pickup, not by their role, so admins rate like anyone else
+    const side = pickup.donorId === actor.id ? 'donor' : pickup.collectorId === actor.id ? 'collector' : null;
+    const ratedParty = getRatedParty(side);
+    if (!ratedParty) throw new Error('You are not a party to this pickup');
+    if (pickup.status !== 'completed') throw new Error('Pickups can only be rated once completed');
+    if (getPickupRating(pickup, ratedParty) !== null) throw new Error('You have already rated this pickup');
+    if (!isRatingWindowOpen(pickup)) throw new Error('The rating window for this pickup has closed');
+
+    const ratedUserId = ratedParty === 'donor' ? pickup.donorId : pickup.collectorId;
+    if (!ratedUserId) throw new Error('There is no one to rate on this pickup');
+    const ratedProfileRef = doc(collections.profiles, ratedUserId);
+    const ratedProfileSnap = await transaction.get(ratedProfileRef);
+    if (!ratedProfileSnap.exists()) throw new Error('Profile not found');
+
+    transaction.update(pickupRef, {
+      [`${ratedParty}Rating`]: review.rating,
+      [`${ratedParty}RatingTags`]: review.tags,
+      [`${ratedParty}RatingComment`]: review.comment?.trim() || null,
+      [`${ratedParty}RatedAt`]: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    transaction.update(ratedProfileRef, {
+      ...addRatingToAverage(ratedProfileSnap.data() as Profile, review.rating),
+      lastRatedPickupId: pickupId,
+      updatedAt: new Date().toISOString(),
+    });
   });
-  
-  // Update donor profile
-  const profileRef = doc(collections.profiles, donorId);
-  batch.update(profileRef, {
-    greenCredits: increment(actualCredits),
-    totalItemsRecycled: increment(pickup.totalItems),
-    totalWeightKg: increment(actualWeightKg),
-    co2SavedKg: increment(actualWeightKg * 1.5),
-    lastActivityAt: new Date().toISOString(),
-    updatedAt: serverTimestamp(),
+}
+
+// Donors can move a pickup to another day or time slot until the collector sets off
+export async function reschedulePickup(
+  pickupId: string,
+  schedule: Pick<PickupRequest, 'preferredDate' | 'preferredTimeSlot'>,
+  actor: { id: string; role: UserRole }
+) {
+  const today = toLocalDay(new Date(), Intl.DateTimeFormat().resolvedOptions().timeZone);
+  if (!schedule.preferredDate || schedule.preferredDate < today) {
+    throw new Error('Choose a date from today onwards');
+  }
+
+  const pickupRef = doc(collections.pickups, pickupId);
+
+  await runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+
+    const pickup = pickupSnap.data() as PickupRequest;
+    const actorRole = resolvePickupActor(pickup, actor);
+    if (actorRole !== 'donor' && actorRole !== 'admin') throw new Error('Only the donor can reschedule this pickup');
+    if (!reschedulableStatuses.includes(pickup.status)) {
+      throw new Error('This pickup can no longer be rescheduled');
+    }
+
+    transaction.update(pickupRef, {
+      preferredDate: schedule.preferredDate,
+      preferredTimeSlot: schedule.preferredTimeSlot,
+      rescheduledAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    if (pickup.collectorId) {
+      transaction.set(doc(collections.notifications), {
+        userId: pickup.collectorId,
+        title: '📅 Pickup Rescheduled',
+        body: `Pickup #${pickupId.slice(0, 8)} moved to ${schedule.preferredDate} (${schedule.preferredTimeSlot}).`,
+        type: 'pickup_rescheduled',
+        data: { pickupId, ...schedule },
+        isRead: false,
+        createdAt: serverTimestamp(),
+      });
+    }
   });
-  
-  // Add credit transaction
-  const txRef = doc(collections.creditTransactions);
-  batch.set(txRef, {
-    userId: donorId,
-    amount: actualCredits,
-    type: 'pickup_completed',
-    description: `Pickup #${pickupId.slice(0, 8)} completed — ${actualWeightKg}kg recycled`,
-    referenceId: pickupId,
+}
+
+// ==================== AUDIT LOG ====================
+
+// Record a change in the same transaction as the change itself, so neither can be
+// written without the other
+function writeAuditEntry(transaction: Transaction, entry: Omit<AuditLogEntry, 'id' | 'createdAt' | 'referenceId'> & { referenceId?: string }) {
+  transaction.set(doc(collections.auditLog), {
+    ...entry,
+    referenceId: entry.referenceId ?? null,
     createdAt: serverTimestamp(),
   });
-  
-  // Create notification
-  const notifRef = doc(collections.notifications);
-  batch.set(notifRef, {
-    userId: donorId,
-    title: '🌿 Credits Earned!',
-    body: `You earned ${actualCredits} Green Credits for recycling ${actualWeightKg}kg of e-waste!`,
-    type: 'credit_earned',
-    data: { amount: actualCredits, pickupId },
-    createdAt: serverTimestamp(),
+}
+
+export interface AuditLogSearch {
+  action?: AuditAction;
+  actorRole?: UserRole;
+  // A pickup id, user id or catalog version (e.g. "v3")
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+}
+
+// Newest first. Each combination of filters needs its own composite index with
+// createdAt desc (see FIREBASE_SETUP_GUIDE.md).
+export async function searchAuditLog(
+  { action, actorRole, targetId, from, to }: AuditLogSearch,
+  { pageSize = 20, after = null }: { pageSize?: number; after?: QueryDocumentSnapshot | null } = {}
+): Promise<AuditLogPage> {
+  const q = query(
+    collections.auditLog,
+    ...(action ? [where('action', '==', action)] : []),
+    ...(actorRole ? [where('actorRole', '==', actorRole)] : []),
+    ...(targetId ? [where('targetId', '==', targetId.trim())] : []),
+    ...(from ? [where('createdAt', '>=', from)] : []),
+    ...(to ? [where('createdAt', '<', to)] : []),
+    orderBy('createdAt', 'desc'),
+    ...(after ? [startAfter(after)] : []),
+    limit(pageSize + 1)
+  );
+  const snapshot = await getDocs(q);
+  const docs = snapshot.docs.slice(0, pageSize);
+  return {
+    entries: docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditLogEntry)),
+    cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+    hasMore: snapshot.docs.length > pageSize,
+  };
+}
+
+// ==================== ADMIN ====================
+
+type AdminActor = { id: string; role: UserRole };
+
+function assertAdmin(actor: AdminActor) {
+  if (actor.role !== 'admin') throw new Error('Only admins can do this');
+}
+
+function requireReason(reason: string) {
+  const trimmed = reason.trim();
+  if (!trimmed) throw new Error('Please give a reason for this change');
+  return trimmed;
+}
+
+export interface PickupSearch {
+  status?: PickupStatus;
+  city?: string;
+  // Creation date range, [from, to)
+  from?: Date;
+  to?: Date;
+}
+
+// All pickups, newest first. Each combination of status and city filters needs its own
+// composite index with createdAt desc (see FIREBASE_SETUP_GUIDE.md).
+export async function searchPickups(
+  { status, city, from, to }: PickupSearch,
+  { pageSize = 20, after = null }: { pageSize?: number; after?: QueryDocumentSnapshot | null } = {}
+): Promise<PickupPage> {
+  const q = query(
+    collections.pickups,
+    ...(status ? [where('status', '==', status)] : []),
+    ...(city ? [where('pickupCity', '==', city)] : []),
+    ...(from ? [where('createdAt', '>=', from)] : []),
+    ...(to ? [where('createdAt', '<', to)] : []),
+    orderBy('createdAt', 'desc'),
+    ...(after ? [startAfter(after)] : []),
+    limit(pageSize + 1)
+  );
+  const snapshot = await getDocs(q);
+  const docs = snapshot.docs.slice(0, pageSize);
+  return {
+    pickups: docs.map(doc => ({ id: doc.id, ...doc.data() } as PickupRequest)),
+    cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+    hasMore: snapshot.docs.length > pageSize,
+  };
+}
+
+export interface ProfilePage {
+  profiles: Profile[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+}
+
+// Newest accounts first; an email finds that one account
+export async function listProfiles(
+  { role, email }: { role?: UserRole; email?: string } = {},
+  { pageSize = 20, after = null }: { pageSize?: number; after?: QueryDocumentSnapshot | null } = {}
+): Promise<ProfilePage> {
+  const q = query(
+    collections.profiles,
+    ...(email ? [where('email', '==', email.trim())] : []),
+    ...(role ? [where('role', '==', role)] : []),
+    orderBy('createdAt', 'desc'),
+    ...(after ? [startAfter(after)] : []),
+    limit(pageSize + 1)
+  );
+  const snapshot = await getDocs(q);
+  const docs = snapshot.docs.slice(0, pageSize);
+  return {
+    profiles: docs.map(doc => doc.data() as Profile),
+    cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+    hasMore: snapshot.docs.length > pageSize,
+  };
+}
+
+export type AdminProfileChanges = Partial<Pick<Profile, 'fullName' | 'phone' | 'role' | 'isVerified' | 'addressLine1' | 'city' | 'state'>>;
+
+export async function adminUpdateProfile(userId: string, changes: AdminProfileChanges, admin: AdminActor, reason: string) {
+  assertAdmin(admin);
+  const trimmedReason = requireReason(reason);
+  if (userId === admin.id && changes.role && changes.role !== 'admin') {
+    throw new Error('You can\'t remove your own admin role');
+  }
+
+  const profileRef = doc(collections.profiles, userId);
+
+  await runTransaction(db, async (transaction) => {
+    const profileSnap = await transaction.get(profileRef);
+    if (!profileSnap.exists()) throw new Error('Profile not found');
+
+    const profile = profileSnap.data() as Profile;
+    const diff = diffFields(profile, changes);
+    if (!hasChanges(diff)) throw new Error('Nothing has changed');
+
+    transaction.update(profileRef, {
+      ...diff.after,
+      updatedAt: new Date().toISOString(),
+    });
+    writeAuditEntry(transaction, {
+      action: 'role' in diff.after ? 'profile.role' : 'profile.update',
+      actorId: admin.id,
+      actorRole: 'admin',
+      targetType: 'profile',
+      targetId: userId,
+      ...diff,
+      reason: trimmedReason,
+    });
+
+    if ('role' in diff.after || diff.after.isVerified === true) {
+      transaction.set(doc(collections.notifications), {
+        userId,
+        title: '🛡️ Account Updated',
+        body: 'role' in diff.after
+          ? `An admin changed your account to ${diff.after.role}.`
+          : 'Your collector account has been verified.',
+        type: 'account_updated',
+        data: { ...diff.after },
+        isRead: false,
+        createdAt: serverTimestamp(),
+      });
+    }
   });
-  
-  await batch.commit();
 }
 
-export async function acceptPickup(pickupId: string, collectorId: string) {
+// Hand a stuck pickup to another collector. The pickup goes back to matched, so the new
+// collector starts the trip from the beginning.
+export async function reassignPickup(pickupId: string, collectorId: string, admin: AdminActor, reason: string) {
+  assertAdmin(admin);
+  const trimmedReason = requireReason(reason);
+
   const pickupRef = doc(collections.pickups, pickupId);
-  await updateDoc(pickupRef, {
-    collectorId,
-    status: 'matched',
-    matchedAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
+  const collectorRef = doc(collections.profiles, collectorId);
+
+  await runTransaction(db, async (transaction) => {
+    const pickupSnap = await transaction.get(pickupRef);
+    const collectorSnap = await transaction.get(collectorRef);
+    if (!pickupSnap.exists()) throw new Error('Pickup not found');
+    if (!collectorSnap.exists() || (collectorSnap.data() as Profile).role !== 'collector') {
+      throw new Error('Choose a collector account to assign the pickup to');
+    }
+
+    const pickup = pickupSnap.data() as PickupRequest;
+    if (!reassignableStatuses.includes(pickup.status)) {
+      throw new Error('This pickup can no longer be reassigned');
+    }
+    if (pickup.collectorId === collectorId) throw new Error('This collector is already assigned');
+    if (pickup.donorId === collectorId) throw new Error('A collector can\'t be assigned their own pickup');
+    if (pickup.status !== 'matched') assertTransition(pickup.status, 'matched', 'admin');
+
+    transaction.update(pickupRef, {
+      collectorId,
+      status: 'matched',
+      matchedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    writeStatusChange(
+      transaction,
+      pickupId,
+      { from: pickup.status, to: 'matched', actor: admin, actorRole: 'admin', reason: trimmedReason },
+      { action: 'pickup.reassign', before: { collectorId: pickup.collectorId }, after: { collectorId } }
+    );
+    if (pickup.status === 'collector_enroute') {
+      transaction.delete(doc(collections.collectorLocations, pickupId));
+    }
+
+    const notify = (userId: string, title: string, body: string) => transaction.set(doc(collections.notifications), {
+      userId,
+      title,
+      body,
+      type: 'pickup_reassigned',
+      data: { pickupId, collectorId },
+      isRead: false,
+      createdAt: serverTimestamp(),
+    });
+    notify(collectorId, '🚚 New Job Assigned', `You've been assigned pickup #${pickupId.slice(0, 8)} on ${pickup.preferredDate}.`);
+    if (pickup.collectorId) {
+      notify(pickup.collectorId, '🔁 Job Reassigned', `Pickup #${pickupId.slice(0, 8)} was given to another collector: ${trimmedReason}`);
+    }
+    notify(pickup.donorId, '🚚 Collector Changed', `A different collector will handle your pickup #${pickupId.slice(0, 8)}.`);
   });
 }
+
+// ==================== LEDGER RECONCILIATION ====================
+
+// A user's whole ledger, oldest first. Needs the (userId, createdAt asc) composite index.
+export async function getUserLedger(userId: string): Promise<CreditTransaction[]> {
+  const q = query(collections.creditTransactions, where('userId', '==', userId), orderBy('createdAt', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as CreditTransaction));
+}
+
+export async function reconcileUserLedger(userId: string): Promise<LedgerReconciliation> {
+  const [profile, ledger] = await Promise.all([getProfile(userId), getUserLedger(userId)]);
+  if (!profile) throw new Error('Profile not found');
+  return reconcileLedger(userId, profile.greenCredits, ledger);
+}
+
+// Settle a reconciliation at the balance the admin decided is right: a correction entry
+// brings the ledger to that balance and greenCredits is set to match. Use the ledger
+// balance when the counter drifted, or the profile balance when ledger entries are missing.
+export async function postLedgerCorrection(
+  reconciliation: LedgerReconciliation,
+  correctBalance: number,
+  admin: AdminActor,
+  reason: string
+): Promise<string> {
+  assertAdmin(admin);
+  const trimmedReason = requireReason(reason);
+  if (reconciliation.isBalanced) throw new Error('This ledger already balances');
+  if (!Number.isFinite(correctBalance) || correctBalance < 0) throw new Error('Enter a balance of zero or more');
+
+  const { userId } = reconciliation;
+  const profileRef = doc(collections.profiles, userId);
+  const txRef = doc(collections.creditTransactions);
+
+  await runTransaction(db, async (transaction) => {
+    const profileSnap = await transaction.get(profileRef);
+    if (!profileSnap.exists()) throw new Error('Profile not found');
+
+    // Every ledger write also moves the counter, so an unchanged counter means the
+    // reconciliation is still current
+    const profile = profileSnap.data() as Profile;
+    if (profile.greenCredits !== reconciliation.profileBalance) {
+      throw new Error('The balance changed since the check. Run it again before correcting.');
+    }
+
+    transaction.update(profileRef, {
+      greenCredits: correctBalance,
+      updatedAt: new Date().toISOString(),
+    });
+    writeCreditTransaction(transaction, txRef, {
+      userId,
+      amount: Math.round((correctBalance - reconciliation.ledgerBalance) * 100) / 100,
+      type: 'correction',
+      description: `Ledger correction: ${trimmedReason}`,
+      referenceId: null,
+      balanceAfter: correctBalance,
+    }, admin, profile.greenCredits);
+  });
+
+  return txRef.id;
+}
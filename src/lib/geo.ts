@@ -0,0 +1,36 @@
+export type LatLng = [number, number];
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle (haversine) distance between two coordinates, in kilometres
+export function distanceKm(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to[0] - from[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
+
+// Typical door-to-door speed for a collector driving through town
+export const AVERAGE_CITY_SPEED_KMH = 25;
+
+// Straight-line ETA in whole minutes. Roads are never straight, so this is a lower bound
+// meant for "about N min away", not for scheduling.
+export function estimateEtaMinutes(km: number, speedKmh: number = AVERAGE_CITY_SPEED_KMH): number {
+  return Math.max(1, Math.round((km / speedKmh) * 60));
+}
+
+export function formatEta(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { ewasteCategories } from '@/lib/data/categories';
+import {
+  confirmHazardChecks,
+  getCollectorChecklist,
+  getHazardGuidance,
+  getHazardousCategoryIds,
+  getHazardousWeightByCategory,
+  getPeriodStart,
+  summarizeHazardousWeight,
+} from '@/lib/hazards';
+import { calculateImpact } from '@/lib/impact';
+
+// Batteries are critical, displays high and laptops medium
+const batteryChecks = getCollectorChecklist(['batteries']);
+const displayChecks = getCollectorChecklist(['displays']);
+
+describe('getHazardGuidance', () => {
+  it('covers only high and critical categories, once each', () => {
+    const guidance = getHazardGuidance(['laptops', 'batteries', 'displays', 'batteries', 'unknown'], ewasteCategories);
+    expect(guidance.map(g => g.categoryId)).toEqual(['batteries', 'displays']);
+    expect(guidance[0].donorTips.length).toBeGreaterThan(0);
+  });
+});
+
+describe('getCollectorChecklist', () => {
+  it('lists each category\'s checks without repeats', () => {
+    expect(getCollectorChecklist(['batteries', 'displays', 'batteries'])).toEqual([...batteryChecks, ...displayChecks]);
+  });
+
+  it('falls back to general checks for a category without its own', () => {
+    expect(getCollectorChecklist(['solar_panels'])).toEqual(['Item is intact and not leaking', 'Item is secured separately from other items for transport']);
+  });
+});
+
+describe('confirmHazardChecks', () => {
+  it('confirms a category once all of its checks are ticked', () => {
+    expect(confirmHazardChecks(['batteries', 'displays'], [...batteryChecks, ...displayChecks])).toEqual({ batteries: true, displays: true });
+  });
+
+  it('leaves a category unconfirmed with any of its checks missing', () => {
+    expect(confirmHazardChecks(['batteries', 'displays'], [...batteryChecks, displayChecks[0]])).toEqual({ batteries: true, displays: false });
+    expect(confirmHazardChecks(['batteries'], [])).toEqual({ batteries: false });
+  });
+
+  it('has nothing to confirm for a pickup without hazards', () => {
+    expect(confirmHazardChecks([], batteryChecks)).toEqual({});
+  });
+});
+
+describe('getHazardousCategoryIds', () => {
+  it('combines what the donor declared with what the inspection found', () => {
+    const pickup = { declaredHazardousCategoryIds: ['batteries'], hazardousWeightByCategory: { displays: 4, batteries: 1 } };
+    expect(getHazardousCategoryIds(pickup)).toEqual(['batteries', 'displays']);
+  });
+
+  it('keeps a declared category the inspection rejected', () => {
+    expect(getHazardousCategoryIds({ declaredHazardousCategoryIds: ['batteries'], hazardousWeightByCategory: {} })).toEqual(['batteries']);
+  });
+
+  it('handles pickups from before either field existed', () => {
+    expect(getHazardousCategoryIds({})).toEqual([]);
+  });
+});
+
+describe('getHazardousWeightByCategory', () => {
+  it('sums hazardous lines per category, to the nearest 10 g', () => {
+    const { lines } = calculateImpact(
+      [
+        { categoryId: 'batteries', quantity: 1, condition: 'damaged', estimatedWeightKg: 0.1, actualWeightKg: null },
+        { categoryId: 'batteries', quantity: 2, condition: 'working', estimatedWeightKg: 0.2, actualWeightKg: 0.234 },
+        { categoryId: 'laptops', quantity: 1, condition: 'working', estimatedWeightKg: 2, actualWeightKg: null },
+      ],
+      ewasteCategories
+    );
+    expect(getHazardousWeightByCategory(lines)).toEqual({ batteries: 0.33 });
+  });
+});
+
+describe('summarizeHazardousWeight', () => {
+  // Local dates, since periods follow the viewer's calendar
+  const on = (year: number, month: number, day: number) => new Date(year, month - 1, day, 12).toISOString();
+
+  it('starts weeks on Monday and months on the 1st', () => {
+    // 2026-03-01 is a Sunday
+    expect(getPeriodStart(new Date(2026, 2, 1), 'week')).toEqual(new Date(2026, 1, 23));
+    expect(getPeriodStart(new Date(2026, 2, 4), 'week')).toEqual(new Date(2026, 2, 2));
+    expect(getPeriodStart(new Date(2026, 2, 4), 'month')).toEqual(new Date(2026, 2, 1));
+  });
+
+  it('groups completed pickups by period, newest first', () => {
+    const rows = summarizeHazardousWeight(
+      [
+        { completedAt: on(2026, 3, 2), hazardousWeightByCategory: { batteries: 1.5 } },
+        { completedAt: on(2026, 3, 8), hazardousWeightByCategory: { batteries: 0.5, displays: 4 } },
+        { completedAt: on(2026, 3, 9), hazardousWeightByCategory: { displays: 2 } },
+        { completedAt: null, hazardousWeightByCategory: { displays: 10 } },
+      ],
+      'week'
+    );
+    expect(rows).toEqual([
+      { periodStart: '2026-03-09', pickups: 1, hazardousWeightKg: 2, weightByCategory: { displays: 2 } },
+      { periodStart: '2026-03-02', pickups: 2, hazardousWeightKg: 6, weightByCategory: { batteries: 2, displays: 4 } },
+    ]);
+  });
+
+  it('counts pickups without hazardous weight as zero', () => {
+    expect(summarizeHazardousWeight([{ completedAt: on(2026, 3, 2) }], 'month')).toEqual([
+      { periodStart: '2026-03-01', pickups: 0, hazardousWeightKg: 0, weightByCategory: {} },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { isHazardous, type ImpactLine } from '@/lib/impact';
+import type { EwasteCategory, PickupRequest } from '@/lib/types/database';
+import { toDate } from '@/lib/utils';
+
+// Handling guidance for high and critical hazard categories: tips for donors preparing
+// items, and the checklist a collector must confirm before marking a pickup collected
+
+export interface HazardGuidance {
+  categoryId: string;
+  title: string;
+  donorTips: string[];
+  collectorChecks: string[];
+}
+
+const categoryGuidance: Record<string, Omit<HazardGuidance, 'categoryId' | 'title'>> = {
+  batteries: {
+    donorTips: [
+      'Tape over the terminals, or bag each battery separately, so they can\'t short-circuit',
+      'Keep swollen, leaking or damaged batteries apart in a sealed bag or a tub of sand',
+      'Store them somewhere cool and dry, away from anything flammable',
+      'Leave batteries inside devices if they can\'t be removed without tools',
+    ],
+    collectorChecks: [
+      'Battery terminals are taped or each battery is bagged separately',
+      'Swollen, leaking or damaged batteries are isolated in a sealed container',
+      'Batteries are stowed in the fire-safe bin, away from heat',
+    ],
+  },
+  displays: {
+    donorTips: [
+      'Don\'t stack screens or put anything on top of them. CRT glass contains lead and can implode',
+      'Tape over cracks instead of removing broken glass',
+      'Leave the back cover on; old CRT sets can hold a charge long after they\'re unplugged',
+    ],
+    collectorChecks: [
+      'Screens are carried upright and not stacked',
+      'Cracked screens are wrapped and taped',
+      'Gloves and eye protection are worn when handling broken glass',
+    ],
+  },
+};
+
+// For categories without their own guidance, e.g. ones added to the catalog later
+const defaultGuidance: Omit<HazardGuidance, 'categoryId' | 'title'> = {
+  donorTips: [
+    'Keep the item in one piece; don\'t open or dismantle it',
+    'Store it away from heat, children and pets until the pickup',
+  ],
+  collectorChecks: [
+    'Item is intact and not leaking',
+    'Item is secured separately from other items for transport',
+  ],
+};
+
+export function getHazardGuidance(categoryIds: string[], categories: EwasteCategory[]): HazardGuidance[] {
+  return [...new Set(categoryIds)].flatMap(categoryId => {
+    const category = categories.find(c => c.id === categoryId);
+    if (!category || !isHazardous(category.hazardLevel)) return [];
+    return [{ categoryId, title: category.name, ...(categoryGuidance[categoryId] ?? defaultGuidance) }];
+  });
+}
+
+const getCategoryChecks = (categoryId: string) => (categoryGuidance[categoryId] ?? defaultGuidance).collectorChecks;
+
+// Every check the collector must confirm for these (already hazardous) categories
+export function getCollectorChecklist(hazardousCategoryIds: string[]): string[] {
+  return [...new Set(hazardousCategoryIds.flatMap(getCategoryChecks))];
+}
+
+// Which categories the ticked checks cover in full, as stored in HazardAcknowledgement.checks
+export function confirmHazardChecks(hazardousCategoryIds: string[], ticked: string[]): Record<string, boolean> {
+  return Object.fromEntries(hazardousCategoryIds.map(id => [id, getCategoryChecks(id).every(check => ticked.includes(check))]));
+}
+
+// Inspected weight per hazardous category, as stored on the pickup
+export function getHazardousWeightByCategory(lines: ImpactLine[]): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const line of lines) {
+    if (!isHazardous(line.hazardLevel)) continue;
+    weights[line.categoryId] = Math.round(((weights[line.categoryId] ?? 0) + line.weightKg) * 100) / 100;
+  }
+  return weights;
+}
+
+// The categories the collector's checklist covers: whatever the donor declared, plus
+// anything found during the inspection. Rejecting a declared item doesn't drop it, as the
+// collector still handled it on site.
+export const getHazardousCategoryIds = (pickup: Pick<PickupRequest, 'declaredHazardousCategoryIds' | 'hazardousWeightByCategory'>) =>
+  [...new Set([...(pickup.declaredHazardousCategoryIds ?? []), ...Object.keys(pickup.hazardousWeightByCategory ?? {})])];
+
+// ==================== REPORTING ====================
+
+export type ReportPeriod = 'week' | 'month';
+
+export interface HazardReportRow {
+  // First day of the period, YYYY-MM-DD in local time
+  periodStart: string;
+  pickups: number;
+  hazardousWeightKg: number;
+  weightByCategory: Record<string, number>;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Weeks start on Monday
+export function getPeriodStart(date: Date, period: ReportPeriod): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), period === 'month' ? 1 : date.getDate());
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+const periodKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Hazardous kilograms of completed pickups, grouped by the period they were completed in.
+// Pickups inspected before hazard tracking have no breakdown and count as zero.
+export function summarizeHazardousWeight(
+  pickups: Pick<PickupRequest, 'completedAt' | 'hazardousWeightByCategory'>[],
+  period: ReportPeriod
+): HazardReportRow[] {
+  const rows = new Map<string, HazardReportRow>();
+
+  for (const pickup of pickups) {
+    const completedAt = toDate(pickup.completedAt);
+    if (!completedAt) continue;
+    const key = periodKey(getPeriodStart(completedAt, period));
+    const row = rows.get(key) ?? { periodStart: key, pickups: 0, hazardousWeightKg: 0, weightByCategory: {} };
+
+    const weights = pickup.hazardousWeightByCategory ?? {};
+    if (Object.keys(weights).length > 0) row.pickups += 1;
+    for (const [categoryId, weightKg] of Object.entries(weights)) {
+      row.weightByCategory[categoryId] = (row.weightByCategory[categoryId] ?? 0) + weightKg;
+      row.hazardousWeightKg += weightKg;
+    }
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].sort((a, b) => b.periodStart.localeCompare(a.periodStart));
+}
@@ -0,0 +1,56 @@
+// Phone cameras produce 4–12 MB photos; item photos only need to show what the item is
+export const MAX_PHOTO_DIMENSION = 1600;
+export const PHOTO_QUALITY = 0.8;
+
+// Scanner input only needs to be big enough for the model and the item thumbnail
+export const MAX_SCAN_DIMENSION = 1024;
+
+// Draw an image onto a canvas no larger than maxDimension on its longest side. Orientation
+// comes from the EXIF data, so photos taken on a rotated phone come out upright.
+async function drawScaled(file: Blob, maxDimension: number): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Unable to process the photo');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Downscale an image so its longest side is at most maxDimension and re-encode it as JPEG.
+// Images that are already small enough are still re-encoded, which also strips metadata.
+export async function resizeImage(
+  file: Blob,
+  { maxDimension = MAX_PHOTO_DIMENSION, quality = PHOTO_QUALITY }: { maxDimension?: number; quality?: number } = {}
+): Promise<Blob> {
+  const canvas = await drawScaled(file, maxDimension);
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Unable to process the photo'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+// An uploaded photo as an upright JPEG data URL, the same form the webcam produces
+export async function toScannerImage(file: Blob, maxDimension = MAX_SCAN_DIMENSION): Promise<string> {
+  const canvas = await drawScaled(file, maxDimension);
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Unable to load the image'));
+    img.src = src;
+  });
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ewasteCategories } from '@/lib/data/categories';
+import {
+  MAX_CREDITS_PER_KG,
+  calculateImpact,
+  calculateItemImpact,
+  conditionMultipliers,
+  itemWeightKg,
+  maxPickupCredits,
+  type ImpactItem,
+} from '@/lib/impact';
+
+// Laptops earn 30 credits and save 3 kg of CO₂ per kg, and are worth 12 per kg
+const item = (overrides: Partial<ImpactItem> = {}): ImpactItem =>
+  ({ categoryId: 'laptops', quantity: 1, condition: 'partially_working', estimatedWeightKg: 2, actualWeightKg: null, ...overrides });
+
+describe('itemWeightKg', () => {
+  it('uses the weighed weight once there is one', () => {
+    expect(itemWeightKg(item())).toBe(2);
+    expect(itemWeightKg(item({ actualWeightKg: 3.5 }))).toBe(3.5);
+    expect(itemWeightKg(item({ actualWeightKg: 0 }))).toBe(0);
+  });
+});
+
+describe('calculateItemImpact', () => {
+  it('scales credits and value by condition, but not CO₂', () => {
+    for (const [condition, multiplier] of Object.entries(conditionMultipliers)) {
+      const line = calculateItemImpact(item({ condition: condition as ImpactItem['condition'] }), ewasteCategories);
+      expect(line.credits).toBe(Math.round(2 * 30 * multiplier));
+      expect(line.estimatedValue).toBeCloseTo(2 * 12 * multiplier);
+      expect(line.co2SavedKg).toBe(6);
+    }
+  });
+
+  it('pays a working device more than a damaged one', () => {
+    expect(calculateItemImpact(item({ condition: 'working' }), ewasteCategories).credits).toBe(75);
+    expect(calculateItemImpact(item({ condition: 'damaged' }), ewasteCategories).credits).toBe(45);
+  });
+
+  it('prices the weighed weight rather than the estimate', () => {
+    const line = calculateItemImpact(item({ estimatedWeightKg: 2, actualWeightKg: 3 }), ewasteCategories);
+    expect(line).toMatchObject({ weightKg: 3, credits: 90, co2SavedKg: 9 });
+  });
+
+  it('rounds credits per line', () => {
+    expect(calculateItemImpact(item({ condition: 'working', estimatedWeightKg: 0.3 }), ewasteCategories).credits).toBe(11);
+  });
+
+  it('falls back to default rates for a category missing from the catalog', () => {
+    const line = calculateItemImpact(item({ categoryId: 'retired' }), ewasteCategories);
+    expect(line).toMatchObject({ credits: 20, co2SavedKg: 2, estimatedValue: 0, hazardLevel: 'low' });
+  });
+});
+
+describe('calculateImpact', () => {
+  it('adds up the lines', () => {
+    const summary = calculateImpact(
+      [item({ quantity: 2 }), item({ categoryId: 'cables', estimatedWeightKg: 1, actualWeightKg: 1.5 })],
+      ewasteCategories
+    );
+    expect(summary.lines).toHaveLength(2);
+    expect(summary.totalItems).toBe(3);
+    expect(summary.totalWeightKg).toBe(3.5);
+    expect(summary.credits).toBe(summary.lines[0].credits + summary.lines[1].credits);
+  });
+
+  it('summarises hazardous weight by category', () => {
+    const summary = calculateImpact(
+      [item(), item({ categoryId: 'batteries', estimatedWeightKg: 1 }), item({ categoryId: 'batteries', estimatedWeightKg: 0.5 })],
+      ewasteCategories
+    );
+    expect(summary.hazard).toEqual({ highestLevel: 'critical', hazardousWeightKg: 1.5, hazardousCategoryIds: ['batteries'] });
+  });
+
+  it('reports nothing hazardous for an empty pickup', () => {
+    expect(calculateImpact([], ewasteCategories)).toMatchObject({
+      credits: 0,
+      totalWeightKg: 0,
+      hazard: { highestLevel: 'low', hazardousWeightKg: 0, hazardousCategoryIds: [] },
+    });
+  });
+});
+
+describe('maxPickupCredits', () => {
+  it('covers the best-paid category in the best condition', () => {
+    const best = Math.max(...ewasteCategories.map(c => c.greenCreditsPerKg));
+    const bestCategory = ewasteCategories.find(c => c.greenCreditsPerKg === best)!;
+    const { credits } = calculateImpact(
+      [item({ categoryId: bestCategory.id, condition: 'working', estimatedWeightKg: 10 })],
+      ewasteCategories
+    );
+    expect(credits).toBeLessThanOrEqual(maxPickupCredits(10));
+    expect(maxPickupCredits(10)).toBeGreaterThanOrEqual(10 * MAX_CREDITS_PER_KG);
+  });
+});
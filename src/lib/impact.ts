@@ -0,0 +1,113 @@
+import type { EwasteCategory, PickupItem } from '@/lib/types/database';
+
+// The single place credits, CO₂ and value are estimated. The pickup form, the review
+// step and pickup completion all go through calculateImpact so their numbers agree.
+
+export type ItemCondition = PickupItem['condition'];
+export type HazardLevel = EwasteCategory['hazardLevel'];
+
+export type ImpactItem = Pick<PickupItem, 'categoryId' | 'quantity' | 'condition' | 'estimatedWeightKg' | 'actualWeightKg'>;
+
+// Working devices are worth more to refurbishers; damaged ones cost more to process safely.
+// Applies to credits and estimated value, not CO₂ (that depends on weight alone).
+export const conditionMultipliers: Record<ItemCondition, number> = {
+  working: 1.25,
+  partially_working: 1.0,
+  non_working: 0.9,
+  damaged: 0.75,
+};
+
+// Highest credits per kg a published catalog may set for a category. With the best
+// condition multiplier on top it bounds what any kilogram can earn, which is how
+// Firestore rules cap a pickup's credits against its weight (see maxPickupCredits).
+export const MAX_CATALOG_CREDITS_PER_KG = 50;
+export const MAX_CREDITS_PER_KG = MAX_CATALOG_CREDITS_PER_KG * Math.max(...Object.values(conditionMultipliers));
+
+// Whole credits are rounded per line, so a pickup's total may run slightly over its
+// weight times MAX_CREDITS_PER_KG
+const CREDIT_ROUNDING_ALLOWANCE = 10;
+
+// The most a pickup of this weight can be paid — keep in sync with maxPickupCredits in
+// firestore.rules
+export const maxPickupCredits = (weightKg: number) => weightKg * MAX_CREDITS_PER_KG + CREDIT_ROUNDING_ALLOWANCE;
+
+// Used for items whose category is missing from the catalog
+const fallbackRates = {
+  greenCreditsPerKg: 10,
+  co2SavedPerKg: 1.0,
+  estimatedValuePerKg: 0,
+  hazardLevel: 'low' as HazardLevel,
+};
+
+const hazardOrder: HazardLevel[] = ['low', 'medium', 'high', 'critical'];
+
+export const isHazardous = (level: HazardLevel) => level === 'high' || level === 'critical';
+
+export interface ImpactLine {
+  categoryId: string;
+  quantity: number;
+  weightKg: number;
+  credits: number;
+  co2SavedKg: number;
+  estimatedValue: number;
+  hazardLevel: HazardLevel;
+}
+
+export interface HazardSummary {
+  highestLevel: HazardLevel;
+  hazardousWeightKg: number;
+  hazardousCategoryIds: string[];
+}
+
+export interface ImpactSummary {
+  lines: ImpactLine[];
+  totalItems: number;
+  totalWeightKg: number;
+  credits: number;
+  co2SavedKg: number;
+  estimatedValue: number;
+  hazard: HazardSummary;
+}
+
+// An item's line weight: what the collector weighed if known, otherwise the estimate
+export const itemWeightKg = (item: ImpactItem) => item.actualWeightKg ?? item.estimatedWeightKg;
+
+export function calculateItemImpact(item: ImpactItem, categories: EwasteCategory[]): ImpactLine {
+  const category = categories.find(c => c.id === item.categoryId);
+  const rates = category ?? fallbackRates;
+  const weightKg = itemWeightKg(item);
+  const multiplier = conditionMultipliers[item.condition] ?? 1;
+
+  return {
+    categoryId: item.categoryId,
+    quantity: item.quantity,
+    weightKg,
+    // Whole credits per line, so per-item creditsEarned always add up to the total
+    credits: Math.round(weightKg * rates.greenCreditsPerKg * multiplier),
+    co2SavedKg: weightKg * rates.co2SavedPerKg,
+    estimatedValue: weightKg * rates.estimatedValuePerKg * multiplier,
+    hazardLevel: rates.hazardLevel,
+  };
+}
+
+export function calculateImpact(items: ImpactItem[], categories: EwasteCategory[]): ImpactSummary {
+  const lines = items.map(item => calculateItemImpact(item, categories));
+  const hazardousLines = lines.filter(line => isHazardous(line.hazardLevel));
+
+  return {
+    lines,
+    totalItems: lines.reduce((sum, l) => sum + l.quantity, 0),
+    totalWeightKg: lines.reduce((sum, l) => sum + l.weightKg, 0),
+    credits: lines.reduce((sum, l) => sum + l.credits, 0),
+    co2SavedKg: lines.reduce((sum, l) => sum + l.co2SavedKg, 0),
+    estimatedValue: lines.reduce((sum, l) => sum + l.estimatedValue, 0),
+    hazard: {
+      highestLevel: lines.reduce<HazardLevel>(
+        (highest, l) => (hazardOrder.indexOf(l.hazardLevel) > hazardOrder.indexOf(highest) ? l.hazardLevel : highest),
+        'low'
+      ),
+      hazardousWeightKg: hazardousLines.reduce((sum, l) => sum + l.weightKg, 0),
+      hazardousCategoryIds: [...new Set(hazardousLines.map(l => l.categoryId))],
+    },
+  };
+}
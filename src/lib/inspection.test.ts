@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ewasteCategories } from '@/lib/data/categories';
+import { acceptedItems, compareInspection, declaredItem, maxInspectedWeightKg } from '@/lib/inspection';
+import type { PickupItem } from '@/lib/types/database';
+
+// A working 2 kg laptop, as the donor declared it
+const item = (overrides: Partial<PickupItem> = {}): PickupItem => ({
+  id: 'item-1',
+  pickupId: 'pickup-1',
+  categoryId: 'laptops',
+  description: null,
+  quantity: 1,
+  condition: 'working',
+  estimatedWeightKg: 2,
+  actualWeightKg: null,
+  photoUrl: null,
+  aiDetectedLabel: null,
+  aiConfidence: null,
+  creditsEarned: 0,
+  ...overrides,
+});
+
+const outcomeOf = (overrides: Partial<PickupItem>) => compareInspection([item(overrides)], ewasteCategories)[0];
+
+describe('declaredItem', () => {
+  it('restores what the donor entered before the collector corrected it', () => {
+    const inspected = item({ categoryId: 'displays', declaredCategoryId: 'laptops', condition: 'damaged', declaredCondition: 'working', actualWeightKg: 3 });
+    expect(declaredItem(inspected)).toMatchObject({ categoryId: 'laptops', condition: 'working', actualWeightKg: null });
+  });
+});
+
+describe('compareInspection', () => {
+  it('leaves an unchanged item as declared', () => {
+    expect(outcomeOf({}).outcome).toBe('as_declared');
+    expect(outcomeOf({ actualWeightKg: 2.04 }).outcome).toBe('as_declared');
+  });
+
+  it('marks an item adjusted when its weight is off by 50 g or more', () => {
+    expect(outcomeOf({ actualWeightKg: 2.1 }).outcome).toBe('adjusted');
+    expect(outcomeOf({ actualWeightKg: 1.95 }).outcome).toBe('adjusted');
+  });
+
+  it('marks an item adjusted when its category or condition changed', () => {
+    expect(outcomeOf({ categoryId: 'displays', declaredCategoryId: 'laptops' }).outcome).toBe('adjusted');
+    expect(outcomeOf({ condition: 'damaged', declaredCondition: 'working' }).outcome).toBe('adjusted');
+  });
+
+  it('prices the estimate as declared and the actual as inspected', () => {
+    const line = outcomeOf({ condition: 'damaged', declaredCondition: 'working', actualWeightKg: 3 });
+    expect(line.estimated).toMatchObject({ weightKg: 2, credits: 75 });
+    expect(line.actual).toMatchObject({ weightKg: 3, credits: 68 });
+  });
+
+  it('has no estimate for an item found on site', () => {
+    const line = outcomeOf({ addedDuringInspection: true, actualWeightKg: 1 });
+    expect(line.outcome).toBe('added');
+    expect(line.estimated).toBeNull();
+    expect(line.actual?.credits).toBe(38);
+  });
+
+  it('has no actual value for a rejected item', () => {
+    const line = outcomeOf({ isRejected: true, condition: 'damaged', declaredCondition: 'working' });
+    expect(line.outcome).toBe('rejected');
+    expect(line.estimated?.credits).toBe(75);
+    expect(line.actual).toBeNull();
+  });
+
+  it('treats a rejected item found on site as rejected', () => {
+    expect(outcomeOf({ isRejected: true, addedDuringInspection: true }).outcome).toBe('rejected');
+  });
+});
+
+describe('acceptedItems', () => {
+  it('drops rejected items', () => {
+    const items = [item({ id: 'a' }), item({ id: 'b', isRejected: true }), item({ id: 'c', isRejected: false })];
+    expect(acceptedItems(items).map(i => i.id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('maxInspectedWeightKg', () => {
+  it('allows double the estimate plus room for items found on site', () => {
+    expect(maxInspectedWeightKg(0)).toBe(25);
+    expect(maxInspectedWeightKg(10)).toBe(45);
+  });
+});
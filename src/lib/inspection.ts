@@ -0,0 +1,51 @@
+import { calculateItemImpact, type ImpactLine } from '@/lib/impact';
+import type { EwasteCategory, PickupItem } from '@/lib/types/database';
+
+export type InspectionOutcome = 'as_declared' | 'adjusted' | 'added' | 'rejected';
+
+export interface InspectionComparisonLine {
+  item: PickupItem;
+  outcome: InspectionOutcome;
+  // What the donor was quoted; null for items the collector added on site
+  estimated: ImpactLine | null;
+  // What the item is worth after inspection; null for rejected items
+  actual: ImpactLine | null;
+}
+
+// The weighed total may come in above the donor's estimate, for items found on site or
+// estimates on the low side, but no further than this. The weight drives the credits
+// paid, so Firestore rules hold the collector to the same limit — keep in sync with
+// maxInspectedWeightKg in firestore.rules.
+export const maxInspectedWeightKg = (estimatedWeightKg: number) => estimatedWeightKg * 2 + 25;
+
+// Rejected items are handed back to the donor and earn nothing
+export const acceptedItems = (items: PickupItem[]) => items.filter(item => !item.isRejected);
+
+// The item as the donor described it when requesting the pickup
+export function declaredItem(item: PickupItem): PickupItem {
+  return {
+    ...item,
+    categoryId: item.declaredCategoryId ?? item.categoryId,
+    condition: item.declaredCondition ?? item.condition,
+    actualWeightKg: null,
+  };
+}
+
+export function compareInspection(items: PickupItem[], categories: EwasteCategory[]): InspectionComparisonLine[] {
+  return items.map(item => {
+    const declared = declaredItem(item);
+    const estimated = item.addedDuringInspection ? null : calculateItemImpact(declared, categories);
+    const actual = item.isRejected ? null : calculateItemImpact(item, categories);
+
+    let outcome: InspectionOutcome = 'as_declared';
+    if (item.isRejected) outcome = 'rejected';
+    else if (item.addedDuringInspection) outcome = 'added';
+    else if (
+      declared.categoryId !== item.categoryId ||
+      declared.condition !== item.condition ||
+      (item.actualWeightKg !== null && Math.abs(item.actualWeightKg - item.estimatedWeightKg) >= 0.05)
+    ) outcome = 'adjusted';
+
+    return { item, outcome, estimated, actual };
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { orderLedger, reconcileLedger } from '@/lib/ledger';
+
+const entry = (id: string, type: string, amount: number, balanceAfter: number, createdAt: string) =>
+  ({ id, type, amount, balanceAfter, createdAt });
+
+// A first pickup completed on 2026-03-02 that unlocks first_drop and weight_lifter: the
+// pickup's credits first, then each reward on top, all with the transaction's timestamp
+const COMPLETED_AT = '2026-03-02T10:00:00.000Z';
+const completion = [
+  entry('pickup_p1', 'pickup_completed', 120, 120, COMPLETED_AT),
+  entry('achievement_u1_first_drop', 'achievement', 50, 170, COMPLETED_AT),
+  entry('achievement_u1_weight_lifter', 'achievement', 200, 370, COMPLETED_AT),
+];
+const redemption = entry('redemption_r1', 'redemption', -300, 70, '2026-03-05T09:00:00.000Z');
+
+describe('orderLedger', () => {
+  it('orders by time', () => {
+    const ordered = orderLedger([redemption, ...completion]);
+    expect(ordered.map(e => e.id)).toEqual([...completion.map(e => e.id), redemption.id]);
+  });
+
+  it('chains entries that share a timestamp by their balances, in any stored order', () => {
+    const shuffled = [completion[2], completion[0], completion[1]];
+    expect(orderLedger(shuffled).map(e => e.id)).toEqual(completion.map(e => e.id));
+  });
+
+  it('keeps every entry when a tie doesn\'t chain', () => {
+    const broken = [entry('a', 'achievement', 50, 999, COMPLETED_AT), entry('b', 'achievement', 75, 75, COMPLETED_AT)];
+    expect(orderLedger(broken).map(e => e.id).sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('reconcileLedger', () => {
+  it('balances a completion that unlocks achievements against the final profile balance', () => {
+    const result = reconcileLedger('u1', 370, [completion[1], completion[2], completion[0]]);
+    expect(result).toMatchObject({ ledgerBalance: 370, difference: 0, transactionCount: 3, mismatches: [], isBalanced: true });
+  });
+
+  it('balances later spending on top', () => {
+    expect(reconcileLedger('u1', 70, [redemption, ...completion]).isBalanced).toBe(true);
+  });
+
+  it('reports a profile balance the ledger doesn\'t add up to', () => {
+    const result = reconcileLedger('u1', 500, completion);
+    expect(result).toMatchObject({ ledgerBalance: 370, difference: 130, isBalanced: false });
+  });
+
+  it('reports an entry whose recorded balance is off', () => {
+    const result = reconcileLedger('u1', 370, [completion[0], { ...completion[1], balanceAfter: 180 }, completion[2]]);
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({ transactionId: 'achievement_u1_first_drop', expectedBalance: 170, recordedBalance: 180, resolved: false }),
+    ]);
+    expect(result.isBalanced).toBe(false);
+  });
+
+  it('treats mismatches before a later correction as resolved', () => {
+    const correction = entry('correction_1', 'correction', 0, 370, '2026-03-03T00:00:00.000Z');
+    const result = reconcileLedger('u1', 370, [completion[0], { ...completion[1], balanceAfter: 180 }, completion[2], correction]);
+    expect(result.mismatches.every(m => m.resolved)).toBe(true);
+    expect(result.isBalanced).toBe(true);
+  });
+});
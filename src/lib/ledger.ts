@@ -0,0 +1,83 @@
+import type { CreditTransaction } from '@/lib/types/database';
+import { toDate } from '@/lib/utils';
+
+// Reconciliation of a user's creditTransactions ledger against the denormalised
+// Profile.greenCredits counter. The ledger is replayed in order and the running sum is
+// compared with each entry's balanceAfter and with the counter.
+
+type LedgerEntry = Pick<CreditTransaction, 'id' | 'amount' | 'type' | 'balanceAfter' | 'createdAt'>;
+
+export interface LedgerMismatch {
+  transactionId: string;
+  type: string;
+  amount: number;
+  // Running sum of the ledger up to and including this entry
+  expectedBalance: number;
+  recordedBalance: number;
+  // Settled by a later admin correction, see postLedgerCorrection
+  resolved: boolean;
+}
+
+export interface LedgerReconciliation {
+  userId: string;
+  profileBalance: number;
+  ledgerBalance: number;
+  // profileBalance - ledgerBalance
+  difference: number;
+  transactionCount: number;
+  mismatches: LedgerMismatch[];
+  isBalanced: boolean;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const isSameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+const timeOf = (entry: LedgerEntry) => toDate(entry.createdAt)?.getTime() ?? 0;
+
+// Oldest first. Entries written in one transaction share a server timestamp, so within a
+// tie the next entry is the one that starts from the previous entry's balance.
+export function orderLedger<T extends LedgerEntry>(entries: T[]): T[] {
+  const remaining = [...entries].sort((a, b) => timeOf(a) - timeOf(b));
+  const ordered: T[] = [];
+  let previousBalance = 0;
+
+  while (remaining.length > 0) {
+    const time = timeOf(remaining[0]);
+    const next = remaining.findIndex(e => timeOf(e) === time && isSameAmount(e.balanceAfter - e.amount, previousBalance));
+    const [entry] = remaining.splice(Math.max(next, 0), 1);
+    ordered.push(entry);
+    previousBalance = entry.balanceAfter;
+  }
+  return ordered;
+}
+
+export function reconcileLedger(userId: string, profileBalance: number, entries: LedgerEntry[]): LedgerReconciliation {
+  const ordered = orderLedger(entries);
+  let lastCorrection = -1;
+  ordered.forEach((entry, i) => { if (entry.type === 'correction') lastCorrection = i; });
+
+  let running = 0;
+  const mismatches: LedgerMismatch[] = [];
+  ordered.forEach((entry, i) => {
+    running = round(running + entry.amount);
+    if (isSameAmount(running, entry.balanceAfter)) return;
+    mismatches.push({
+      transactionId: entry.id,
+      type: entry.type,
+      amount: entry.amount,
+      expectedBalance: running,
+      recordedBalance: entry.balanceAfter,
+      resolved: i < lastCorrection,
+    });
+  });
+
+  const difference = round(profileBalance - running);
+  return {
+    userId,
+    profileBalance,
+    ledgerBalance: running,
+    difference,
+    transactionCount: ordered.length,
+    mismatches,
+    isBalanced: isSameAmount(difference, 0) && mismatches.every(m => m.resolved),
+  };
+}
@@ -0,0 +1,91 @@
+import * as tf from '@tensorflow/tfjs';
+import * as mobilenet from '@tensorflow-models/mobilenet';
+
+// MobileNet v2, alpha 1.0 (best accuracy). Weights are downloaded from TF Hub once and then
+// kept in IndexedDB, so the scanner works offline after the first successful load.
+const MOBILENET_HUB_URL = 'https://tfhub.dev/google/imagenet/mobilenet_v2_100_224/classification/2';
+const MOBILENET_INPUT_RANGE: [number, number] = [0, 1];
+
+const CACHE_URL = 'indexeddb://ewaste-mobilenet';
+const CACHE_VERSION_KEY = 'ewaste-mobilenet-version';
+// Bump when switching model or weights so clients replace what they have stored
+export const MOBILENET_CACHE_VERSION = 'v2-1.0@1';
+
+export interface ModelLoadProgress {
+  source: 'cache' | 'network';
+  // 0..1 while downloading; cache loads don't report progress
+  fraction: number | null;
+}
+
+function readCachedVersion() {
+  try {
+    return localStorage.getItem(CACHE_VERSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function isMobileNetCached() {
+  return readCachedVersion() === MOBILENET_CACHE_VERSION;
+}
+
+async function clearCache() {
+  try {
+    localStorage.removeItem(CACHE_VERSION_KEY);
+    await tf.io.removeModel(CACHE_URL);
+  } catch {
+    // Nothing stored yet
+  }
+}
+
+function loadFromCache() {
+  return mobilenet.load({ version: 2, alpha: 1.0, modelUrl: CACHE_URL, inputRange: MOBILENET_INPUT_RANGE });
+}
+
+async function loadFromNetwork(onProgress: (fraction: number) => void) {
+  const graph = await tf.loadGraphModel(MOBILENET_HUB_URL, { fromTFHub: true, onProgress });
+
+  // Capture the downloaded artifacts so they can be stored and reused without a second download
+  const artifacts = await new Promise<tf.io.ModelArtifacts>((resolve, reject) => {
+    graph.save(tf.io.withSaveHandler(async (saved) => {
+      resolve(saved);
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+    })).catch(reject);
+  });
+  graph.dispose();
+
+  try {
+    const [cacheHandler] = tf.io.getSaveHandlers(CACHE_URL);
+    if (!cacheHandler?.save) throw new Error('IndexedDB is not available');
+    await cacheHandler.save(artifacts);
+    localStorage.setItem(CACHE_VERSION_KEY, MOBILENET_CACHE_VERSION);
+  } catch (err) {
+    // Private browsing or a full disk: the scanner still works, just not offline
+    console.warn('Unable to cache the AI model for offline use:', err);
+  }
+
+  return mobilenet.load({ version: 2, alpha: 1.0, modelUrl: tf.io.fromMemory(artifacts), inputRange: MOBILENET_INPUT_RANGE });
+}
+
+// Load MobileNet from IndexedDB when a current copy is stored, otherwise download and store it
+export async function loadCachedMobileNet(onProgress?: (progress: ModelLoadProgress) => void): Promise<mobilenet.MobileNet> {
+  await tf.ready();
+
+  if (isMobileNetCached()) {
+    onProgress?.({ source: 'cache', fraction: null });
+    try {
+      return await loadFromCache();
+    } catch (err) {
+      console.warn('Cached AI model is unreadable, downloading it again:', err);
+    }
+  }
+
+  // Stale or broken copy: drop it before downloading the current version
+  await clearCache();
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    throw new Error('The AI model hasn\'t been downloaded yet. Connect to the internet once to use the scanner offline.');
+  }
+
+  onProgress?.({ source: 'network', fraction: 0 });
+  return loadFromNetwork((fraction) => onProgress?.({ source: 'network', fraction }));
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assertTransition,
+  canTransition,
+  getAllowedTransitions,
+  pickupStatusTransitions,
+  resolvePickupActor,
+  terminalPickupStatuses,
+} from '@/lib/pickup-status';
+import type { PickupActor, PickupStatus } from '@/lib/types/database';
+
+const statuses = Object.keys(pickupStatusTransitions) as PickupStatus[];
+
+describe('pickupStatusTransitions', () => {
+  it('takes a pickup from pending to completed one step at a time', () => {
+    const path: PickupStatus[] = ['pending', 'matched', 'collector_enroute', 'arrived', 'inspecting', 'collected', 'completed'];
+    for (let i = 1; i < path.length; i++) {
+      expect(canTransition(path[i - 1], path[i], 'collector')).toBe(true);
+      expect(getAllowedTransitions(path[i - 1], 'collector')).toContain(path[i]);
+    }
+  });
+
+  it('has no way out of a terminal status', () => {
+    for (const status of terminalPickupStatuses) {
+      for (const actor of ['donor', 'collector', 'admin'] as PickupActor[]) {
+        expect(getAllowedTransitions(status, actor)).toEqual([]);
+      }
+    }
+  });
+
+  it('lets a donor cancel only before the collector sets off', () => {
+    expect(statuses.filter(from => canTransition(from, 'cancelled', 'donor'))).toEqual(['pending', 'matched']);
+  });
+
+  it('lets a donor do nothing but cancel', () => {
+    for (const from of statuses) {
+      expect(getAllowedTransitions(from, 'donor').filter(to => to !== 'cancelled')).toEqual([]);
+    }
+  });
+
+  it('lets only an admin send an en route job back to matched', () => {
+    expect(canTransition('collector_enroute', 'matched', 'admin')).toBe(true);
+    expect(canTransition('collector_enroute', 'matched', 'collector')).toBe(false);
+  });
+
+  it('can\'t cancel a pickup once its items are collected', () => {
+    expect(canTransition('collected', 'cancelled', 'admin')).toBe(false);
+  });
+
+  it('lets an admin make every transition in the table', () => {
+    for (const from of statuses) {
+      expect(getAllowedTransitions(from, 'admin')).toEqual(Object.keys(pickupStatusTransitions[from]));
+    }
+  });
+
+  it('doesn\'t skip steps', () => {
+    expect(canTransition('pending', 'completed', 'admin')).toBe(false);
+    expect(canTransition('arrived', 'collected', 'collector')).toBe(false);
+    expect(canTransition('completed', 'pending', 'admin')).toBe(false);
+  });
+});
+
+describe('assertTransition', () => {
+  it('allows a listed transition', () => {
+    expect(() => assertTransition('matched', 'collector_enroute', 'collector')).not.toThrow();
+  });
+
+  it('rejects a transition that isn\'t in the table', () => {
+    expect(() => assertTransition('pending', 'completed', 'admin')).toThrow('A pickup cannot move from "pending" to "completed".');
+  });
+
+  it('rejects a party that may not make the transition', () => {
+    expect(() => assertTransition('arrived', 'inspecting', 'donor'))
+      .toThrow('A donor is not allowed to move a pickup from "arrived" to "inspecting".');
+  });
+});
+
+describe('resolvePickupActor', () => {
+  const pickup = { donorId: 'donor', collectorId: 'collector', status: 'matched' as PickupStatus };
+
+  it('recognises each party', () => {
+    expect(resolvePickupActor(pickup, { id: 'donor', role: 'donor' })).toBe('donor');
+    expect(resolvePickupActor(pickup, { id: 'collector', role: 'collector' })).toBe('collector');
+    expect(resolvePickupActor(pickup, { id: 'someone', role: 'admin' })).toBe('admin');
+  });
+
+  it('lets any collector claim a pending pickup', () => {
+    const pending = { ...pickup, collectorId: null, status: 'pending' as PickupStatus };
+    expect(resolvePickupActor(pending, { id: 'other-collector', role: 'collector' })).toBe('collector');
+  });
+
+  it('gives other users no say once a collector is assigned', () => {
+    expect(resolvePickupActor(pickup, { id: 'other-collector', role: 'collector' })).toBeNull();
+    expect(resolvePickupActor(pickup, { id: 'other-donor', role: 'donor' })).toBeNull();
+  });
+});
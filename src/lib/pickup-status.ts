@@ -0,0 +1,74 @@
+import type { PickupActor, PickupRequest, PickupStatus, UserRole } from '@/lib/types/database';
+
+// Allowed transitions, and which parties may make each one.
+// Keep in sync with the transition tables in firestore.rules.
+export const pickupStatusTransitions: Record<PickupStatus, Partial<Record<PickupStatus, PickupActor[]>>> = {
+  pending: {
+    matched: ['collector', 'admin'],
+    cancelled: ['donor', 'admin'],
+  },
+  matched: {
+    collector_enroute: ['collector', 'admin'],
+    cancelled: ['donor', 'collector', 'admin'],
+  },
+  collector_enroute: {
+    // An admin handing the job to another collector, see reassignPickup
+    matched: ['admin'],
+    arrived: ['collector', 'admin'],
+    cancelled: ['collector', 'admin'],
+  },
+  arrived: {
+    inspecting: ['collector', 'admin'],
+    cancelled: ['collector', 'admin'],
+  },
+  inspecting: {
+    collected: ['collector', 'admin'],
+    cancelled: ['collector', 'admin'],
+  },
+  collected: {
+    completed: ['collector', 'admin'],
+  },
+  completed: {},
+  cancelled: {},
+};
+
+export const terminalPickupStatuses: PickupStatus[] = ['completed', 'cancelled'];
+
+// A donor can change the date or time slot until the collector sets off.
+// Keep in sync with the reschedule check in firestore.rules.
+export const reschedulableStatuses: PickupStatus[] = ['pending', 'matched'];
+
+// An admin can hand a stuck job to another collector until the current one has arrived
+export const reassignableStatuses: PickupStatus[] = ['pending', 'matched', 'collector_enroute'];
+
+export function getAllowedTransitions(from: PickupStatus, actor: PickupActor): PickupStatus[] {
+  return (Object.entries(pickupStatusTransitions[from]) as [PickupStatus, PickupActor[]][])
+    .filter(([, actors]) => actors.includes(actor))
+    .map(([to]) => to);
+}
+
+export function canTransition(from: PickupStatus, to: PickupStatus, actor: PickupActor): boolean {
+  return pickupStatusTransitions[from]?.[to]?.includes(actor) ?? false;
+}
+
+export function assertTransition(from: PickupStatus, to: PickupStatus, actor: PickupActor) {
+  if (!pickupStatusTransitions[from]?.[to]) {
+    throw new Error(`A pickup cannot move from "${from.replace('_', ' ')}" to "${to.replace('_', ' ')}".`);
+  }
+  if (!canTransition(from, to, actor)) {
+    throw new Error(`A ${actor} is not allowed to move a pickup from "${from.replace('_', ' ')}" to "${to.replace('_', ' ')}".`);
+  }
+}
+
+// Work out which party a user is for a given pickup, or null if they have no say in it.
+// Any collector may act on a pending pickup, since that is how jobs get claimed.
+export function resolvePickupActor(
+  pickup: Pick<PickupRequest, 'donorId' | 'collectorId' | 'status'>,
+  user: { id: string; role: UserRole }
+): PickupActor | null {
+  if (user.role === 'admin') return 'admin';
+  if (pickup.collectorId === user.id) return 'collector';
+  if (pickup.donorId === user.id) return 'donor';
+  if (pickup.status === 'pending' && user.role === 'collector') return 'collector';
+  return null;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RATING_WINDOW_DAYS,
+  addRatingToAverage,
+  getRatedParty,
+  getRatingDeadline,
+  isRatingWindowOpen,
+  isValidRating,
+} from '@/lib/ratings';
+
+const completedAt = new Date('2026-03-01T12:00:00Z');
+const completed = { status: 'completed' as const, completedAt: completedAt.toISOString() };
+const afterCompletion = (ms: number) => new Date(completedAt.getTime() + ms);
+const WINDOW_MS = RATING_WINDOW_DAYS * 86_400_000;
+
+describe('getRatingDeadline', () => {
+  it('is a week after completion', () => {
+    expect(getRatingDeadline(completed)).toEqual(new Date('2026-03-08T12:00:00Z'));
+  });
+
+  it('has none until the pickup is completed', () => {
+    expect(getRatingDeadline({ status: 'collected', completedAt: null })).toBeNull();
+    expect(getRatingDeadline({ ...completed, status: 'cancelled' })).toBeNull();
+    expect(getRatingDeadline({ status: 'completed', completedAt: null })).toBeNull();
+  });
+});
+
+describe('isRatingWindowOpen', () => {
+  it('is open from completion until just before the deadline', () => {
+    expect(isRatingWindowOpen(completed, completedAt)).toBe(true);
+    expect(isRatingWindowOpen(completed, afterCompletion(WINDOW_MS - 1))).toBe(true);
+  });
+
+  it('closes exactly at the deadline', () => {
+    expect(isRatingWindowOpen(completed, afterCompletion(WINDOW_MS))).toBe(false);
+    expect(isRatingWindowOpen(completed, afterCompletion(WINDOW_MS + 86_400_000))).toBe(false);
+  });
+
+  it('is never open for a pickup that isn\'t completed', () => {
+    expect(isRatingWindowOpen({ status: 'collected', completedAt: null }, completedAt)).toBe(false);
+  });
+});
+
+describe('getRatedParty', () => {
+  it('has each side rate the other, and admins rate no one', () => {
+    expect(getRatedParty('donor')).toBe('collector');
+    expect(getRatedParty('collector')).toBe('donor');
+    expect(getRatedParty('admin')).toBeNull();
+    expect(getRatedParty(null)).toBeNull();
+  });
+});
+
+describe('isValidRating', () => {
+  it('accepts whole stars from 1 to 5', () => {
+    expect([1, 2, 3, 4, 5].every(isValidRating)).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect([0, 6, -1, 3.5, NaN].some(isValidRating)).toBe(false);
+  });
+});
+
+describe('addRatingToAverage', () => {
+  it('starts the average at the first rating', () => {
+    expect(addRatingToAverage({ ratingAverage: null, ratingCount: 0 }, 4)).toEqual({ ratingAverage: 4, ratingCount: 1 });
+  });
+
+  it('folds a rating into the running average', () => {
+    expect(addRatingToAverage({ ratingAverage: 4.5, ratingCount: 2 }, 3)).toEqual({ ratingAverage: 4, ratingCount: 3 });
+  });
+
+  it('handles profiles from before ratings existed', () => {
+    const legacy = {} as Parameters<typeof addRatingToAverage>[0];
+    expect(addRatingToAverage(legacy, 5)).toEqual({ ratingAverage: 5, ratingCount: 1 });
+  });
+});
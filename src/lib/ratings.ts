@@ -0,0 +1,59 @@
+import type { PickupActor, PickupRequest, Profile } from '@/lib/types/database';
+import { toDate } from '@/lib/utils';
+
+// After a pickup completes, each side has this long to rate the other; then ratings lock.
+// Keep in sync with the rating window in firestore.rules.
+export const RATING_WINDOW_DAYS = 7;
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+// Which party is being rated, from the point of view of who is rating
+export type RatedParty = 'donor' | 'collector';
+
+// Suggested tags, keyed by the party being rated
+export const ratingTags: Record<RatedParty, string[]> = {
+  collector: ['On time', 'Friendly', 'Careful with items', 'Professional', 'Late', 'Unfriendly'],
+  donor: ['Ready on time', 'Items as described', 'Easy to find', 'Friendly', 'Not home', 'Items differed'],
+};
+
+// Donors rate the collector and collectors rate the donor; admins don't rate
+export function getRatedParty(actor: PickupActor | null): RatedParty | null {
+  if (actor === 'donor') return 'collector';
+  if (actor === 'collector') return 'donor';
+  return null;
+}
+
+// donorRating is the rating the donor received, collectorRating the one the collector received
+export function getPickupRating(pickup: PickupRequest, party: RatedParty): number | null {
+  return party === 'donor' ? pickup.donorRating : pickup.collectorRating;
+}
+
+export function getRatingDeadline(pickup: Pick<PickupRequest, 'status' | 'completedAt'>): Date | null {
+  const completedAt = toDate(pickup.completedAt);
+  if (pickup.status !== 'completed' || !completedAt) return null;
+  return new Date(completedAt.getTime() + RATING_WINDOW_DAYS * 86_400_000);
+}
+
+export function isRatingWindowOpen(pickup: Pick<PickupRequest, 'status' | 'completedAt'>, now: Date = new Date()): boolean {
+  const deadline = getRatingDeadline(pickup);
+  return deadline !== null && now < deadline;
+}
+
+export function isValidRating(rating: number): boolean {
+  return Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING;
+}
+
+// Fold one more rating into a profile's running average
+export function addRatingToAverage(
+  profile: Pick<Profile, 'ratingAverage' | 'ratingCount'>,
+  rating: number
+): Pick<Profile, 'ratingAverage' | 'ratingCount'> {
+  // Profiles created before ratings existed have neither field
+  const count = profile.ratingCount ?? 0;
+  const average = profile.ratingAverage ?? 0;
+  return {
+    ratingAverage: (average * count + rating) / (count + 1),
+    ratingCount: count + 1,
+  };
+}
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import type { Profile, Notification } from '@/lib/types/database';
+import { staticCategoryCatalog } from '@/lib/data/categories';
+import type { CategoryCatalog, Profile, Notification } from '@/lib/types/database';
 
 interface AppState {
   // User
@@ -14,6 +15,10 @@ interface AppState {
   addNotification: (notification: Notification) => void;
   markAsRead: (id: string) => void;
 
+  // Category catalog (latest published version)
+  categoryCatalog: CategoryCatalog;
+  setCategoryCatalog: (catalog: CategoryCatalog) => void;
+
   // UI State
   isOnline: boolean;
   setIsOnline: (online: boolean) => void;
@@ -54,6 +59,10 @@ export const useAppStore = create<AppState>((set) => ({
       unreadCount: Math.max(0, state.unreadCount - 1),
     })),
 
+  // Category catalog
+  categoryCatalog: staticCategoryCatalog,
+  setCategoryCatalog: (categoryCatalog) => set({ categoryCatalog }),
+
   // UI State
   isOnline: true,
   setIsOnline: (online) => set({ isOnline: online }),
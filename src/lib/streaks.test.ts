@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_STREAK_FREEZES,
+  applyStreakActivity,
+  daysBetween,
+  getCurrentStreak,
+  toLocalDay,
+  type StreakState,
+} from '@/lib/streaks';
+
+const at = (iso: string) => new Date(iso);
+const streak = (streakDays: number, streakLastDay: string | null, streakFreezes = 0): StreakState =>
+  ({ streakDays, streakLastDay, streakFreezes });
+
+describe('toLocalDay', () => {
+  it('uses the calendar day of the given time zone', () => {
+    // 11:00 UTC is already the next day on Kiritimati (UTC+14) and still the previous one on Niue (UTC-11)
+    const instant = at('2026-03-01T11:00:00Z');
+    expect(toLocalDay(instant, 'UTC')).toBe('2026-03-01');
+    expect(toLocalDay(instant, 'Pacific/Kiritimati')).toBe('2026-03-02');
+    expect(toLocalDay(at('2026-03-01T10:00:00Z'), 'Pacific/Niue')).toBe('2026-02-28');
+  });
+
+  it('falls back to the UTC day for an unknown time zone', () => {
+    expect(toLocalDay(at('2026-03-01T23:30:00Z'), 'Mars/Olympus_Mons')).toBe('2026-03-01');
+  });
+
+  it('defaults to UTC', () => {
+    expect(toLocalDay(at('2026-12-31T23:59:59Z'))).toBe('2026-12-31');
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts calendar days across month, year and leap day boundaries', () => {
+    expect(daysBetween('2026-01-31', '2026-02-01')).toBe(1);
+    expect(daysBetween('2026-12-31', '2027-01-01')).toBe(1);
+    expect(daysBetween('2028-02-28', '2028-03-01')).toBe(2);
+    expect(daysBetween('2026-03-10', '2026-03-09')).toBe(-1);
+  });
+});
+
+describe('applyStreakActivity', () => {
+  it('starts a streak on the first activity', () => {
+    expect(applyStreakActivity(streak(0, null), at('2026-03-01T12:00:00Z'))).toEqual(streak(1, '2026-03-01'));
+  });
+
+  it('counts several actions on the same day once', () => {
+    const state = streak(3, '2026-03-01');
+    expect(applyStreakActivity(state, at('2026-03-01T23:00:00Z'))).toBe(state);
+  });
+
+  it('extends the streak on the next day', () => {
+    expect(applyStreakActivity(streak(3, '2026-03-01'), at('2026-03-02T00:05:00Z'))).toEqual(streak(4, '2026-03-02'));
+  });
+
+  it('ignores an action dated before the last counted day', () => {
+    const state = streak(3, '2026-03-10', 1);
+    expect(applyStreakActivity(state, at('2026-03-09T12:00:00Z'))).toBe(state);
+  });
+
+  it('counts days in the user\'s own time zone', () => {
+    // The same two instants are consecutive days at UTC+14, but the same day at UTC-11
+    const state = streak(2, '2026-03-01');
+    const next = at('2026-03-01T10:30:00Z');
+    expect(applyStreakActivity(state, next, 'Pacific/Kiritimati')).toEqual(streak(3, '2026-03-02'));
+    expect(applyStreakActivity(streak(2, '2026-02-28'), next, 'Pacific/Niue')).toEqual(streak(2, '2026-02-28'));
+  });
+
+  it('treats an unknown time zone as UTC', () => {
+    expect(applyStreakActivity(streak(2, '2026-03-01'), at('2026-03-02T01:00:00Z'), 'Not/A_Zone')).toEqual(streak(3, '2026-03-02'));
+  });
+
+  it('keeps consecutive days across the spring-forward change (23-hour day)', () => {
+    // New York moves to EDT at 02:00 on 8 March 2026
+    const saturday = applyStreakActivity(streak(1, '2026-03-06'), at('2026-03-08T04:30:00Z'), 'America/New_York');
+    expect(saturday).toEqual(streak(2, '2026-03-07'));
+    expect(applyStreakActivity(saturday, at('2026-03-09T03:30:00Z'), 'America/New_York')).toEqual(streak(3, '2026-03-08'));
+  });
+
+  it('keeps consecutive days across the fall-back change (25-hour day)', () => {
+    // New York moves back to EST at 02:00 on 1 November 2026
+    const saturday = applyStreakActivity(streak(1, '2026-10-30'), at('2026-10-31T04:30:00Z'), 'America/New_York');
+    expect(saturday).toEqual(streak(2, '2026-10-31'));
+    expect(applyStreakActivity(saturday, at('2026-11-02T04:30:00Z'), 'America/New_York')).toEqual(streak(3, '2026-11-01'));
+  });
+
+  it('uses one freeze per missed day', () => {
+    expect(applyStreakActivity(streak(5, '2026-03-10', 2), at('2026-03-12T12:00:00Z'))).toEqual(streak(6, '2026-03-12', 1));
+    expect(applyStreakActivity(streak(5, '2026-03-10', 2), at('2026-03-13T12:00:00Z'))).toEqual(streak(6, '2026-03-13', 0));
+  });
+
+  it('breaks the streak once the freezes are used up, keeping the freezes', () => {
+    expect(applyStreakActivity(streak(5, '2026-03-10', 2), at('2026-03-14T12:00:00Z'))).toEqual(streak(1, '2026-03-14', 2));
+    expect(applyStreakActivity(streak(5, '2026-03-10', 0), at('2026-03-12T12:00:00Z'))).toEqual(streak(1, '2026-03-12', 0));
+  });
+
+  it('earns a freeze every 7 days of streak', () => {
+    expect(applyStreakActivity(streak(6, '2026-03-10', 0), at('2026-03-11T12:00:00Z'))).toEqual(streak(7, '2026-03-11', 1));
+    expect(applyStreakActivity(streak(13, '2026-03-10', 1), at('2026-03-11T12:00:00Z'))).toEqual(streak(14, '2026-03-11', 2));
+    expect(applyStreakActivity(streak(7, '2026-03-10', 1), at('2026-03-11T12:00:00Z'))).toEqual(streak(8, '2026-03-11', 1));
+  });
+
+  it('caps freezes at MAX_STREAK_FREEZES', () => {
+    const state = streak(13, '2026-03-10', MAX_STREAK_FREEZES);
+    expect(applyStreakActivity(state, at('2026-03-11T12:00:00Z')).streakFreezes).toBe(MAX_STREAK_FREEZES);
+  });
+
+  it('can use a freeze and earn one in the same step', () => {
+    expect(applyStreakActivity(streak(6, '2026-03-10', 1), at('2026-03-12T12:00:00Z'))).toEqual(streak(7, '2026-03-12', 1));
+  });
+});
+
+describe('getCurrentStreak', () => {
+  it('is zero without a streak', () => {
+    expect(getCurrentStreak(streak(0, null), at('2026-03-01T12:00:00Z'))).toBe(0);
+  });
+
+  it('keeps the streak through today and tomorrow', () => {
+    expect(getCurrentStreak(streak(4, '2026-03-01'), at('2026-03-01T20:00:00Z'))).toBe(4);
+    expect(getCurrentStreak(streak(4, '2026-03-01'), at('2026-03-02T20:00:00Z'))).toBe(4);
+  });
+
+  it('is broken once the gap can no longer be covered by freezes', () => {
+    expect(getCurrentStreak(streak(4, '2026-03-01'), at('2026-03-03T00:00:00Z'))).toBe(0);
+    expect(getCurrentStreak(streak(4, '2026-03-01', 1), at('2026-03-03T00:00:00Z'))).toBe(4);
+    expect(getCurrentStreak(streak(4, '2026-03-01', 1), at('2026-03-04T00:00:00Z'))).toBe(0);
+  });
+
+  it('decides the day in the user\'s time zone', () => {
+    // 20:00 UTC on 2 March is already 3 March at UTC+14, so a day was missed there
+    const now = at('2026-03-02T20:00:00Z');
+    expect(getCurrentStreak(streak(4, '2026-03-01'), now, 'UTC')).toBe(4);
+    expect(getCurrentStreak(streak(4, '2026-03-01'), now, 'Pacific/Kiritimati')).toBe(0);
+    expect(getCurrentStreak(streak(4, '2026-03-01'), now, 'Not/A_Zone')).toBe(4);
+  });
+
+  it('keeps a streak whose last day is ahead of the clock', () => {
+    expect(getCurrentStreak(streak(4, '2026-03-05'), at('2026-03-01T12:00:00Z'))).toBe(4);
+  });
+});
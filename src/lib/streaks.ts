@@ -0,0 +1,71 @@
+import type { Profile } from '@/lib/types/database';
+
+/*
+ * Streak model
+ *
+ * - A streak counts consecutive calendar days with at least one qualifying action:
+ *   requesting a pickup or having a pickup completed.
+ * - Days are calendar days in the user's own time zone (Profile.timeZone, falling back
+ *   to UTC), so a pickup completed late in the evening counts for the donor's evening,
+ *   not the collector's or the server's.
+ * - Several actions on the same day count once.
+ * - Missing a day breaks the streak, unless the user has streak freezes saved up: each
+ *   missed day uses one freeze and the streak carries on as if nothing happened.
+ *   Every 7 days of streak earns a freeze, up to MAX_STREAK_FREEZES.
+ * - An action dated before the last counted day (e.g. a skewed device clock) is ignored.
+ */
+
+export const STREAK_FREEZE_INTERVAL_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+export type StreakState = Pick<Profile, 'streakDays' | 'streakLastDay' | 'streakFreezes'>;
+
+// Calendar day (YYYY-MM-DD) of an instant in the given IANA time zone
+export function toLocalDay(date: Date, timeZone: string = 'UTC'): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch {
+    // Unknown time zone names throw a RangeError
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+// Whole calendar days from one YYYY-MM-DD day to another (negative if `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86_400_000);
+}
+
+export function applyStreakActivity(state: StreakState, at: Date, timeZone?: string | null): StreakState {
+  const today = toLocalDay(at, timeZone ?? 'UTC');
+  const freezes = state.streakFreezes ?? 0;
+
+  if (!state.streakLastDay || state.streakDays <= 0) {
+    return { streakDays: 1, streakLastDay: today, streakFreezes: freezes };
+  }
+
+  const gap = daysBetween(state.streakLastDay, today);
+  if (gap <= 0) return state;
+
+  const missedDays = gap - 1;
+  if (missedDays > freezes) {
+    return { streakDays: 1, streakLastDay: today, streakFreezes: freezes };
+  }
+
+  const streakDays = state.streakDays + 1;
+  const earnedFreeze = streakDays % STREAK_FREEZE_INTERVAL_DAYS === 0 ? 1 : 0;
+  return {
+    streakDays,
+    streakLastDay: today,
+    streakFreezes: Math.min(MAX_STREAK_FREEZES, freezes - missedDays + earnedFreeze),
+  };
+}
+
+// The streak as it stands right now: a stored streak whose gap can no longer be
+// covered by freezes is already broken, even though nothing has reset it yet.
+export function getCurrentStreak(state: StreakState, now: Date, timeZone?: string | null): number {
+  if (!state.streakLastDay || state.streakDays <= 0) return 0;
+  const missedDays = daysBetween(state.streakLastDay, toLocalDay(now, timeZone ?? 'UTC')) - 1;
+  return missedDays > (state.streakFreezes ?? 0) ? 0 : state.streakDays;
+}
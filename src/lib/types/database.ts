@@ -10,6 +10,9 @@ export type PickupStatus =
   | "completed"
   | "cancelled";
 
+// Who is acting on a pickup, relative to that pickup (not the profile role)
+export type PickupActor = "donor" | "collector" | "admin";
+
 export type BadgeLevel =
   | "seedling"
   | "sprout"
@@ -25,10 +28,27 @@ export interface Profile {
   phone: string | null;
   role: UserRole;
   greenCredits: number;
+  // Lifetime earned credits; unlike greenCredits this never goes down on redemption
+  totalCreditsEarned: number;
+  totalPickupsCompleted: number;
   totalItemsRecycled: number;
   totalWeightKg: number;
   co2SavedKg: number;
   streakDays: number;
+  // Local calendar day (YYYY-MM-DD) the streak was last extended, see lib/streaks.ts
+  streakLastDay: string | null;
+  streakFreezes: number;
+  lastActivityAt: string | null;
+  // IANA time zone that decides where the user's days start and end
+  timeZone: string | null;
+  // Average of the ratings this user received from the other side of their pickups
+  ratingAverage: number | null;
+  ratingCount: number;
+  lastRatedPickupId?: string | null;
+  // The pickup completion and achievement unlocks that last paid this user credits; the
+  // Firestore rules check those writes against them
+  lastCompletedPickupId?: string | null;
+  lastUnlockedAchievementIds?: string[];
   badgeLevel: BadgeLevel;
   addressLine1: string | null;
   city: string | null;
@@ -53,6 +73,15 @@ export interface EwasteCategory {
   estimatedValuePerKg: number;
 }
 
+// An immutable, numbered snapshot of the category list. Editing categories publishes a new version.
+export interface CategoryCatalog {
+  version: number;
+  categories: EwasteCategory[];
+  publishedAt: string | null;
+  publishedBy: string | null;
+  notes: string | null;
+}
+
 export interface PickupRequest {
   id: string;
   donorId: string;
@@ -72,21 +101,87 @@ export interface PickupRequest {
   actualWeightKg: number | null;
   estimatedCredits: number;
   actualCreditsAwarded: number | null;
-  aiScanResults: any;
+  // Catalog version the pickup was priced with; absent on pickups that predate versioning (v1)
+  catalogVersion?: number;
+  // Scanner output for items the donor added from a scan; null when none were scanned
+  aiScanResults: AiScanResult[] | null;
+  // Storage paths of the item photos the donor attached
   itemPhotos: string[];
+  // Each side rates the other once completed: donorRating is the rating the donor
+  // received from the collector, collectorRating the one the collector received
   donorRating: number | null;
+  donorRatingTags?: string[];
+  donorRatingComment?: string | null;
+  donorRatedAt?: string | null;
   collectorRating: number | null;
+  collectorRatingTags?: string[];
+  collectorRatingComment?: string | null;
+  collectorRatedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   matchedAt: string | null;
   collectedAt: string | null;
   completedAt: string | null;
+  cancelledAt?: string | null;
+  cancelledBy?: string | null;
+  cancellationReason?: string | null;
+  rescheduledAt?: string | null;
+  // Set once the collector has recorded the on-site inspection; required before `collected`
+  inspectionCompletedAt?: string | null;
+  // High or critical hazard categories among the items the donor listed, set when the
+  // pickup is created and never changed; absent on pickups that predate it
+  declaredHazardousCategoryIds?: string[];
+  // Inspected weight of each high or critical hazard category, recorded with the inspection
+  hazardousWeightByCategory?: Record<string, number>;
+  // The collector's confirmation of the hazardous handling checklist; required before `collected`
+  hazardAcknowledgement?: HazardAcknowledgement | null;
   // Joined data (not in DB)
   donor?: Profile;
   collector?: Profile;
   items?: PickupItem[];
 }
 
+export interface PickupStatusChange {
+  id: string;
+  fromStatus: PickupStatus;
+  toStatus: PickupStatus;
+  changedBy: string;
+  changedByRole: PickupActor;
+  changedAt: string;
+  // Given when cancelling or when an admin reassigns the pickup
+  reason?: string | null;
+}
+
+// Latest GPS fix of the collector driving to a pickup, one document per pickup.
+// Only exists while the pickup is collector_enroute.
+export interface CollectorLocation {
+  pickupId: string;
+  collectorId: string;
+  latitude: number;
+  longitude: number;
+  accuracyM: number | null;
+  heading: number | null;
+  speedMps: number | null;
+  updatedAt: string;
+}
+
+export interface HazardAcknowledgement {
+  acknowledgedBy: string;
+  acknowledgedAt: string;
+  // Per hazardous category id, whether the collector confirmed every check on its list
+  checks: Record<string, boolean>;
+}
+
+// What the AI scanner saw for a pickup item, kept so collectors and admins can audit its accuracy
+export interface AiScanResult {
+  itemId: string;
+  label: string;
+  confidence: number;
+  categorySlug: string;
+  // Top-5 model predictions, best first
+  predictions: { className: string; probability: number }[];
+}
+
 export interface PickupItem {
   id: string;
   pickupId: string;
@@ -96,10 +191,18 @@ export interface PickupItem {
   condition: "working" | "partially_working" | "non_working" | "damaged";
   estimatedWeightKg: number;
   actualWeightKg: number | null;
+  // Storage path of the item photo (older items hold a full URL); resolve with getPickupPhotoUrl
   photoUrl: string | null;
   aiDetectedLabel: string | null;
   aiConfidence: number | null;
   creditsEarned: number;
+  // On-site inspection. The declared* fields keep what the donor originally entered
+  // when the collector corrects the category or condition.
+  declaredCategoryId?: string | null;
+  declaredCondition?: PickupItem["condition"] | null;
+  isRejected?: boolean;
+  rejectionReason?: string | null;
+  addedDuringInspection?: boolean;
   category?: EwasteCategory;
 }
 
@@ -109,6 +212,7 @@ export interface CreditTransaction {
   amount: number;
   type: string;
   description: string;
+  referenceId?: string | null;
   balanceAfter: number;
   createdAt: string;
 }
@@ -139,6 +243,16 @@ export interface UserAchievement extends Achievement {
   unlockedAt: string | null;
 }
 
+// Stored in userAchievements, one doc per user and achievement (`${userId}_${achievementId}`)
+export interface AchievementUnlock {
+  id: string;
+  userId: string;
+  achievementId: string;
+  creditsAwarded: number;
+  creditTransactionId: string;
+  unlockedAt: string;
+}
+
 export interface Reward {
   id: string;
   name: string;
@@ -148,3 +262,47 @@ export interface Reward {
   category: "voucher" | "donation" | "merchandise" | "service";
   partnerName: string;
 }
+
+export interface Redemption {
+  id: string;
+  userId: string;
+  rewardId: string;
+  rewardName: string;
+  rewardCategory: Reward["category"];
+  partnerName: string;
+  creditsSpent: number;
+  // Voucher code for vouchers, receipt number for donations
+  code: string;
+  status: "issued" | "used" | "expired";
+  creditTransactionId: string;
+  createdAt: string;
+}
+
+export type AuditAction =
+  | "pickup.status"
+  | "pickup.reassign"
+  | "credits.change"
+  | "profile.update"
+  | "profile.role"
+  | "catalog.publish";
+
+export type AuditTargetType = "profile" | "pickup" | "categoryCatalog";
+
+// Append-only record of a status transition, credit change or admin change, written in
+// the same transaction as the change. See src/lib/audit.ts.
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string;
+  // The actor's account role at the time
+  actorRole: UserRole;
+  targetType: AuditTargetType;
+  targetId: string;
+  // Only the fields that changed
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string | null;
+  // Related document, e.g. the ledger entry behind a credit change
+  referenceId: string | null;
+  createdAt: string;
+}
@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Firestore hands back serverTimestamp() fields as Timestamp objects, while fields
+// written from the client are ISO strings. Accept either.
+export function toDate(value: unknown): Date | null {
+  if (!value) return null
+  if (value instanceof Date) return value
+  if (typeof value === "object" && "toDate" in value && typeof value.toDate === "function") {
+    return value.toDate() as Date
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+  return null
+}
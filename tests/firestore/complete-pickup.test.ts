@@ -0,0 +1,115 @@
+import { collection, connectFirestoreEmulator, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { describe, expect, it } from 'vitest';
+import { ewasteCategories } from '@/lib/data/categories';
+import { db } from '@/lib/firebase/config';
+import { completePickupAndAwardCredits } from '@/lib/firebase/services';
+import { calculateImpact } from '@/lib/impact';
+import type { PickupItem } from '@/lib/types/database';
+import {
+  COLLECTOR,
+  DONOR,
+  OTHER_COLLECTOR,
+  achievementReward,
+  daysAgo,
+  pickupItem,
+  profile,
+  seed,
+  setupRulesTestEnvironment,
+  storedPickup,
+  withRulesDisabled,
+} from './helpers';
+
+// completePickupAndAwardCredits against the emulator and the real rules, signed in as the
+// collector, the same way the app calls it
+setupRulesTestEnvironment();
+
+const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST ?? 'localhost:8080').split(':');
+connectFirestoreEmulator(db, host, Number(port), { mockUserToken: { user_id: COLLECTOR } });
+
+const PICKUP = 'pickup-1';
+const collector = { id: COLLECTOR, role: 'collector' as const };
+
+async function seedPickup(collectorId = COLLECTOR) {
+  await seed({
+    [`pickups/${PICKUP}`]: storedPickup('collected', { collectorId, inspectionCompletedAt: daysAgo(0) }),
+    'pickupItems/item-1': pickupItem(PICKUP, { actualWeightKg: 2.5 }),
+  });
+}
+
+// The donor's profile and ledger entries, read past the rules
+const donorState = () => withRulesDisabled(async (admin) => {
+  const [profileSnap, ledgerSnap] = await Promise.all([
+    getDoc(doc(admin, 'profiles', DONOR)),
+    getDocs(query(collection(admin, 'creditTransactions'), where('userId', '==', DONOR))),
+  ]);
+  return { greenCredits: profileSnap.get('greenCredits') as number, ledgerIds: ledgerSnap.docs.map(d => d.id).sort() };
+});
+
+describe('completePickupAndAwardCredits', () => {
+  it('pays the donor once, however often it is called', async () => {
+    await seedPickup();
+
+    const first = await completePickupAndAwardCredits(PICKUP, collector);
+    const afterFirst = await donorState();
+    const second = await completePickupAndAwardCredits(PICKUP, collector);
+    const afterSecond = await donorState();
+
+    expect(first.alreadyCompleted).toBe(false);
+    expect(first.creditsAwarded).toBeGreaterThan(0);
+    expect(second).toMatchObject({ alreadyCompleted: true, creditsAwarded: first.creditsAwarded, balanceAfter: first.balanceAfter });
+    expect(afterSecond).toEqual(afterFirst);
+    expect(afterSecond.ledgerIds).toContain(`pickup_${PICKUP}`);
+  });
+
+  it('pays for the items stored with the pickup', async () => {
+    await seedPickup();
+
+    const result = await completePickupAndAwardCredits(PICKUP, collector);
+    const expected = calculateImpact([pickupItem(PICKUP, { actualWeightKg: 2.5 }) as PickupItem], ewasteCategories);
+
+    expect(result.creditsAwarded).toBe(expected.credits);
+  });
+
+  it('rejects a collector who isn\'t assigned to the pickup', async () => {
+    await seedPickup(OTHER_COLLECTOR);
+    const before = await donorState();
+
+    await expect(completePickupAndAwardCredits(PICKUP, collector)).rejects.toThrow();
+    expect(await donorState()).toEqual(before);
+  });
+
+  it('returns the balance the donor\'s profile ends up with', async () => {
+    // first_drop is already unlocked, and one laptop qualifies for nothing else
+    await seed({
+      [`profiles/${DONOR}`]: profile(DONOR, 'donor', { greenCredits: 300, totalCreditsEarned: 350, totalPickupsCompleted: 1 }),
+      [`userAchievements/${DONOR}_first_drop`]: {
+        userId: DONOR,
+        achievementId: 'first_drop',
+        creditsAwarded: 50,
+        creditTransactionId: `achievement_${DONOR}_first_drop`,
+        unlockedAt: daysAgo(30),
+      },
+    });
+    await seedPickup();
+
+    const result = await completePickupAndAwardCredits(PICKUP, collector);
+
+    expect(result.unlockedAchievements).toEqual([]);
+    expect(result.balanceAfter).toBe(300 + result.creditsAwarded);
+    expect((await donorState()).greenCredits).toBe(result.balanceAfter);
+  });
+
+  it('includes the rewards of the achievements it unlocks in the balance it returns', async () => {
+    await seedPickup();
+
+    const result = await completePickupAndAwardCredits(PICKUP, collector);
+    const rewards = result.unlockedAchievements.reduce((sum, a) => sum + achievementReward(a.id), 0);
+
+    expect(result.unlockedAchievements.map(a => a.id)).toContain('first_drop');
+    expect(result.balanceAfter).toBe(result.creditsAwarded + rewards);
+    expect((await donorState()).greenCredits).toBe(result.balanceAfter);
+    expect((await donorState()).ledgerIds).toEqual(
+      [`pickup_${PICKUP}`, ...result.unlockedAchievements.map(a => `achievement_${DONOR}_${a.id}`)].sort()
+    );
+  });
+});
@@ -0,0 +1,268 @@
+import { readFileSync } from 'node:fs';
+import {
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  doc,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  writeBatch,
+  type DocumentData,
+  type Firestore,
+  type WriteBatch,
+} from 'firebase/firestore';
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import { achievements } from '@/lib/data/categories';
+import type { UserRole } from '@/lib/types/database';
+
+// Shared setup for the security rules suite. Every test starts from the same cast of users,
+// with the emulator cleared in between.
+
+export const PROJECT_ID = 'ecocollect-35d13';
+
+export const DONOR = 'donor';
+export const OTHER_DONOR = 'other-donor';
+export const COLLECTOR = 'collector';
+export const OTHER_COLLECTOR = 'other-collector';
+export const ADMIN = 'admin';
+
+let testEnv: RulesTestEnvironment;
+
+export function setupRulesTestEnvironment() {
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await seed({
+      [`profiles/${DONOR}`]: profile(DONOR, 'donor'),
+      [`profiles/${OTHER_DONOR}`]: profile(OTHER_DONOR, 'donor'),
+      [`profiles/${COLLECTOR}`]: profile(COLLECTOR, 'collector'),
+      [`profiles/${OTHER_COLLECTOR}`]: profile(OTHER_COLLECTOR, 'collector'),
+      [`profiles/${ADMIN}`]: profile(ADMIN, 'admin'),
+    });
+  });
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+}
+
+// The rules-unit-testing contexts hand out compat instances; the modular API accepts them
+export const dbAs = (userId: string) => testEnv.authenticatedContext(userId).firestore() as unknown as Firestore;
+export const anonymousDb = () => testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+
+// Runs `callback` with the rules switched off, e.g. to check what a write left behind
+export async function withRulesDisabled<T>(callback: (db: Firestore) => Promise<T>): Promise<T> {
+  let result!: T;
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    result = await callback(context.firestore() as unknown as Firestore);
+  });
+  return result;
+}
+
+// Write documents, keyed by path, with the rules switched off
+export function seed(docs: Record<string, DocumentData>) {
+  return withRulesDisabled(async (db) => {
+    for (const [path, data] of Object.entries(docs)) {
+      await setDoc(doc(db, path), data);
+    }
+  });
+}
+
+// ==================== FIXTURES ====================
+
+export const daysAgo = (days: number) => Timestamp.fromMillis(Date.now() - days * 86_400_000);
+
+// YYYY-MM-DD in UTC, offset from today
+export const utcDay = (offsetDays = 0) => new Date(Date.now() + offsetDays * 86_400_000).toISOString().slice(0, 10);
+
+export const achievementReward = (id: string) => achievements.find(a => a.id === id)!.creditReward;
+
+// A profile as createProfile writes it
+export function profile(id: string, role: UserRole = 'donor', overrides: DocumentData = {}): DocumentData {
+  return {
+    id,
+    email: `${id}@example.com`,
+    fullName: id,
+    avatarUrl: null,
+    phone: null,
+    role,
+    greenCredits: 0,
+    totalCreditsEarned: 0,
+    totalPickupsCompleted: 0,
+    totalItemsRecycled: 0,
+    totalWeightKg: 0,
+    co2SavedKg: 0,
+    streakDays: 0,
+    streakLastDay: null,
+    streakFreezes: 0,
+    lastActivityAt: null,
+    timeZone: 'UTC',
+    ratingAverage: null,
+    ratingCount: 0,
+    badgeLevel: 'seedling',
+    isVerified: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// A pickup as the request form creates it
+export function newPickup(overrides: DocumentData = {}): DocumentData {
+  return {
+    donorId: DONOR,
+    collectorId: null,
+    pickupAddress: '1 Green Street',
+    pickupCity: 'Springfield',
+    pickupState: 'CA',
+    pickupZip: '90000',
+    pickupLatitude: 34.05,
+    pickupLongitude: -118.24,
+    pickupInstructions: null,
+    preferredDate: utcDay(2),
+    preferredTimeSlot: 'morning',
+    status: 'pending',
+    totalItems: 2,
+    estimatedWeightKg: 3.4,
+    actualWeightKg: null,
+    estimatedCredits: 95,
+    actualCreditsAwarded: null,
+    declaredHazardousCategoryIds: [],
+    aiScanResults: null,
+    itemPhotos: [],
+    donorRating: null,
+    collectorRating: null,
+    matchedAt: null,
+    collectedAt: null,
+    completedAt: null,
+    catalogVersion: 1,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    ...overrides,
+  };
+}
+
+// A pickup already stored in some status, assigned to COLLECTOR unless still pending
+export function storedPickup(status: string, overrides: DocumentData = {}): DocumentData {
+  return {
+    ...newPickup(),
+    status,
+    collectorId: status === 'pending' ? null : COLLECTOR,
+    matchedAt: status === 'pending' ? null : daysAgo(1),
+    createdAt: daysAgo(2),
+    updatedAt: daysAgo(1),
+    ...overrides,
+  };
+}
+
+export function pickupItem(pickupId: string, overrides: DocumentData = {}): DocumentData {
+  return {
+    pickupId,
+    categoryId: 'laptops',
+    description: null,
+    quantity: 1,
+    condition: 'working',
+    estimatedWeightKg: 3,
+    actualWeightKg: null,
+    photoUrl: null,
+    aiDetectedLabel: null,
+    aiConfidence: null,
+    creditsEarned: 0,
+    createdAt: daysAgo(2),
+    ...overrides,
+  };
+}
+
+// ==================== WRITES ====================
+
+export interface CompletionOptions {
+  pickupId: string;
+  credits: number;
+  // Donor balance and lifetime credits before the payout, as seeded
+  balance?: number;
+  earned?: number;
+  unlocks?: string[];
+  profileChanges?: DocumentData;
+}
+
+// The writes completePickupAndAwardCredits makes for the donor's payout, as a collector or
+// admin: the pickup, its ledger entry, any achievement unlocks and the donor's profile
+export function completionBatch(db: Firestore, options: CompletionOptions): WriteBatch {
+  const { pickupId, credits, balance = 0, earned = balance, unlocks = [], profileChanges = {} } = options;
+  const batch = writeBatch(db);
+
+  batch.update(doc(db, 'pickups', pickupId), {
+    status: 'completed',
+    actualWeightKg: 2.5,
+    actualCreditsAwarded: credits,
+    completedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  batch.set(doc(db, 'creditTransactions', `pickup_${pickupId}`), {
+    userId: DONOR,
+    amount: credits,
+    type: 'pickup_completed',
+    description: 'Pickup completed',
+    referenceId: pickupId,
+    balanceAfter: balance + credits,
+    createdAt: serverTimestamp(),
+  });
+
+  let paid = credits;
+  for (const achievementId of unlocks) {
+    paid += achievementReward(achievementId);
+    writeUnlock(batch, db, DONOR, achievementId, balance + paid);
+  }
+
+  batch.update(doc(db, 'profiles', DONOR), {
+    greenCredits: balance + paid,
+    totalCreditsEarned: earned + paid,
+    totalPickupsCompleted: 1,
+    totalItemsRecycled: 1,
+    totalWeightKg: 2.5,
+    co2SavedKg: 7.5,
+    lastActivityAt: new Date().toISOString(),
+    lastCompletedPickupId: pickupId,
+    ...(unlocks.length > 0 && { lastUnlockedAchievementIds: unlocks }),
+    updatedAt: new Date().toISOString(),
+    ...profileChanges,
+  });
+  return batch;
+}
+
+// An achievement unlock and its ledger entry, as writeAchievementUnlocks makes them, with
+// either document changed as given
+export function writeUnlock(
+  batch: WriteBatch,
+  db: Firestore,
+  userId: string,
+  achievementId: string,
+  balanceAfter: number,
+  overrides: { unlock?: DocumentData; entry?: DocumentData } = {}
+) {
+  const creditTransactionId = `achievement_${userId}_${achievementId}`;
+  batch.set(doc(db, 'userAchievements', `${userId}_${achievementId}`), {
+    userId,
+    achievementId,
+    creditsAwarded: achievementReward(achievementId),
+    creditTransactionId,
+    unlockedAt: serverTimestamp(),
+    ...overrides.unlock,
+  });
+  batch.set(doc(db, 'creditTransactions', creditTransactionId), {
+    userId,
+    amount: achievementReward(achievementId),
+    type: 'achievement',
+    description: 'Achievement unlocked',
+    referenceId: achievementId,
+    balanceAfter,
+    createdAt: serverTimestamp(),
+    ...overrides.entry,
+  });
+}
@@ -0,0 +1,350 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc, Timestamp, updateDoc, writeBatch, type DocumentData } from 'firebase/firestore';
+import { describe, it } from 'vitest';
+import { rewardsCatalog } from '@/lib/data/categories';
+import {
+  ADMIN,
+  COLLECTOR,
+  DONOR,
+  OTHER_COLLECTOR,
+  OTHER_DONOR,
+  completionBatch,
+  daysAgo,
+  dbAs,
+  profile,
+  seed,
+  setupRulesTestEnvironment,
+  storedPickup,
+  writeUnlock,
+} from './helpers';
+
+setupRulesTestEnvironment();
+
+const PICKUP = 'pickup-1';
+
+const ledgerEntry = (overrides: DocumentData = {}): DocumentData => ({
+  userId: DONOR,
+  amount: 120,
+  type: 'pickup_completed',
+  description: 'Pickup completed',
+  referenceId: PICKUP,
+  balanceAfter: 120,
+  createdAt: serverTimestamp(),
+  ...overrides,
+});
+
+describe('creditTransactions: read', () => {
+  it('lets the owner and admins read an entry', async () => {
+    await seed({ [`creditTransactions/pickup_${PICKUP}`]: ledgerEntry({ createdAt: daysAgo(1) }) });
+    await assertSucceeds(getDoc(doc(dbAs(DONOR), 'creditTransactions', `pickup_${PICKUP}`)));
+    await assertSucceeds(getDoc(doc(dbAs(ADMIN), 'creditTransactions', `pickup_${PICKUP}`)));
+    await assertFails(getDoc(doc(dbAs(OTHER_DONOR), 'creditTransactions', `pickup_${PICKUP}`)));
+  });
+
+  it('lets the pickup\'s collector look up its credit entry', async () => {
+    await seed({
+      [`pickups/${PICKUP}`]: storedPickup('completed', { actualCreditsAwarded: 120 }),
+      [`creditTransactions/pickup_${PICKUP}`]: ledgerEntry({ createdAt: daysAgo(1) }),
+    });
+    await assertSucceeds(getDoc(doc(dbAs(COLLECTOR), 'creditTransactions', `pickup_${PICKUP}`)));
+    await assertFails(getDoc(doc(dbAs(OTHER_COLLECTOR), 'creditTransactions', `pickup_${PICKUP}`)));
+  });
+
+  it('lets anyone find out an entry doesn\'t exist', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(COLLECTOR), 'creditTransactions', `pickup_${PICKUP}`)));
+  });
+});
+
+describe('creditTransactions: pickup credits', () => {
+  it('lets the collector pay the donor in the write that completes the pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertSucceeds(completionBatch(dbAs(COLLECTOR), { pickupId: PICKUP, credits: 120 }).commit());
+  });
+
+  it('denies an entry for a pickup that isn\'t being completed', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(setDoc(doc(dbAs(COLLECTOR), 'creditTransactions', `pickup_${PICKUP}`), ledgerEntry()));
+  });
+
+  it('denies an amount other than the credits set on the pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    const db = dbAs(COLLECTOR);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'pickups', PICKUP), { status: 'completed', actualCreditsAwarded: 120, completedAt: serverTimestamp() });
+    batch.set(doc(db, 'creditTransactions', `pickup_${PICKUP}`), ledgerEntry({ amount: 5000 }));
+    await assertFails(batch.commit());
+  });
+
+  it('denies an entry under any other id', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    const db = dbAs(COLLECTOR);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'pickups', PICKUP), { status: 'completed', actualCreditsAwarded: 120, completedAt: serverTimestamp() });
+    batch.set(doc(db, 'creditTransactions', 'second-payout'), ledgerEntry());
+    await assertFails(batch.commit());
+  });
+
+  it('denies paying someone other than the pickup\'s donor', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    const db = dbAs(COLLECTOR);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'pickups', PICKUP), { status: 'completed', actualCreditsAwarded: 120, completedAt: serverTimestamp() });
+    batch.set(doc(db, 'creditTransactions', `pickup_${PICKUP}`), ledgerEntry({ userId: COLLECTOR }));
+    await assertFails(batch.commit());
+  });
+
+  it('denies a backdated entry', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    const db = dbAs(COLLECTOR);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'pickups', PICKUP), { status: 'completed', actualCreditsAwarded: 120, completedAt: serverTimestamp() });
+    batch.set(doc(db, 'creditTransactions', `pickup_${PICKUP}`), ledgerEntry({ createdAt: Timestamp.fromDate(new Date('2020-01-01')) }));
+    await assertFails(batch.commit());
+  });
+
+  it('never lets an entry be changed or removed', async () => {
+    await seed({ [`creditTransactions/pickup_${PICKUP}`]: ledgerEntry({ createdAt: daysAgo(1) }) });
+    await assertFails(updateDoc(doc(dbAs(ADMIN), 'creditTransactions', `pickup_${PICKUP}`), { amount: 1 }));
+    await assertFails(deleteDoc(doc(dbAs(ADMIN), 'creditTransactions', `pickup_${PICKUP}`)));
+  });
+});
+
+describe('creditTransactions: achievement rewards', () => {
+  const achievementEntry = (overrides: DocumentData = {}) => ledgerEntry({
+    amount: 75,
+    type: 'achievement',
+    referenceId: 'streak_3',
+    balanceAfter: 75,
+    ...overrides,
+  });
+
+  it('lets a user be paid a streak reward alongside its unlock', async () => {
+    const db = dbAs(DONOR);
+    const batch = writeBatch(db);
+    writeUnlock(batch, db, DONOR, 'streak_3', 75);
+    await assertSucceeds(batch.commit());
+  });
+
+  it('denies a reward without its unlock', async () => {
+    await assertFails(setDoc(doc(dbAs(DONOR), 'creditTransactions', `achievement_${DONOR}_streak_3`), achievementEntry()));
+  });
+
+  it('denies paying an achievement twice', async () => {
+    await seed({
+      [`userAchievements/${DONOR}_streak_3`]: {
+        userId: DONOR,
+        achievementId: 'streak_3',
+        creditsAwarded: 75,
+        creditTransactionId: `achievement_${DONOR}_streak_3`,
+        unlockedAt: daysAgo(1),
+      },
+    });
+    await assertFails(setDoc(doc(dbAs(DONOR), 'creditTransactions', `achievement_${DONOR}_streak_3`), achievementEntry()));
+  });
+
+  it('denies an amount other than the reward', async () => {
+    const db = dbAs(DONOR);
+    const batch = writeBatch(db);
+    writeUnlock(batch, db, DONOR, 'streak_3', 75, { entry: { amount: 7500 } });
+    await assertFails(batch.commit());
+  });
+
+  it('denies users paying themselves achievements other than streaks', async () => {
+    const db = dbAs(DONOR);
+    const batch = writeBatch(db);
+    writeUnlock(batch, db, DONOR, 'half_ton', 1000);
+    await assertFails(batch.commit());
+  });
+
+  it('denies paying someone else a streak reward', async () => {
+    const db = dbAs(DONOR);
+    const batch = writeBatch(db);
+    writeUnlock(batch, db, OTHER_DONOR, 'streak_3', 75);
+    await assertFails(batch.commit());
+  });
+
+  it('lets the completing collector pay any achievement', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertSucceeds(completionBatch(dbAs(COLLECTOR), { pickupId: PICKUP, credits: 120, unlocks: ['first_drop'] }).commit());
+  });
+
+  it('lets an admin pay any achievement', async () => {
+    const db = dbAs(ADMIN);
+    const batch = writeBatch(db);
+    writeUnlock(batch, db, DONOR, 'century', 500);
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('creditTransactions: corrections', () => {
+  const correction = ledgerEntry({ type: 'correction', amount: -20, referenceId: 'reconciliation', balanceAfter: 0 });
+
+  it('only lets admins post corrections', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(ADMIN), 'creditTransactions', 'correction-1'), correction));
+    await assertFails(setDoc(doc(dbAs(DONOR), 'creditTransactions', 'correction-2'), correction));
+  });
+
+  it('denies entries of unknown types', async () => {
+    await assertFails(setDoc(doc(dbAs(ADMIN), 'creditTransactions', 'bonus-1'), ledgerEntry({ type: 'bonus' })));
+  });
+});
+
+describe('redemptions', () => {
+  const REDEMPTION = 'redemption-1';
+  const TX = 'redemption-tx-1';
+  const coffee = rewardsCatalog.find(r => r.id === 'coffee')!;
+
+  interface RedeemOptions {
+    userId?: string;
+    balance?: number;
+    debit?: number;
+    redemption?: DocumentData;
+    entry?: DocumentData;
+    withEntry?: boolean;
+  }
+
+  // The write redeemReward makes: the debit, its ledger entry and the redemption
+  function redeem(options: RedeemOptions = {}) {
+    const { userId = DONOR, balance = 1000, debit = coffee.credits, withEntry = true } = options;
+    const db = dbAs(userId);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'profiles', DONOR), { greenCredits: balance - debit, updatedAt: new Date().toISOString() });
+    if (withEntry) {
+      batch.set(doc(db, 'creditTransactions', TX), ledgerEntry({
+        amount: -debit,
+        type: 'redemption',
+        description: `Redeemed ${coffee.name}`,
+        referenceId: REDEMPTION,
+        balanceAfter: balance - debit,
+        ...options.entry,
+      }));
+    }
+    batch.set(doc(db, 'redemptions', REDEMPTION), {
+      userId: DONOR,
+      rewardId: coffee.id,
+      rewardName: coffee.name,
+      rewardCategory: coffee.category,
+      partnerName: coffee.partner,
+      creditsSpent: coffee.credits,
+      code: 'ECO-ABCD-EFGH',
+      status: 'issued',
+      creditTransactionId: TX,
+      createdAt: serverTimestamp(),
+      ...options.redemption,
+    });
+    return batch.commit();
+  }
+
+  const withCredits = (greenCredits = 1000) =>
+    seed({ [`profiles/${DONOR}`]: profile(DONOR, 'donor', { greenCredits, totalCreditsEarned: greenCredits }) });
+
+  it('lets a user redeem a reward at its price', async () => {
+    await withCredits();
+    await assertSucceeds(redeem());
+  });
+
+  it('denies paying less than the price', async () => {
+    await withCredits();
+    await assertFails(redeem({ debit: 1, redemption: { creditsSpent: 1 } }));
+  });
+
+  it('denies a redemption that debits something other than what it spends', async () => {
+    await withCredits();
+    await assertFails(redeem({ debit: 100 }));
+  });
+
+  it('denies an unknown reward', async () => {
+    await withCredits();
+    await assertFails(redeem({ redemption: { rewardId: 'yacht' } }));
+  });
+
+  it('denies a redemption without its ledger entry', async () => {
+    await withCredits();
+    await assertFails(redeem({ withEntry: false }));
+  });
+
+  it('denies a ledger entry whose balance doesn\'t match the profile', async () => {
+    await withCredits();
+    await assertFails(redeem({ entry: { balanceAfter: 1000 } }));
+  });
+
+  it('denies a redemption that isn\'t freshly issued', async () => {
+    await withCredits();
+    await assertFails(redeem({ redemption: { status: 'used' } }));
+  });
+
+  it('denies redeeming more than the balance', async () => {
+    await withCredits(100);
+    await assertFails(redeem({ balance: 100 }));
+  });
+
+  it('denies redeeming for someone else', async () => {
+    await withCredits();
+    await assertFails(redeem({ userId: OTHER_DONOR }));
+  });
+
+  it('lets the owner and admins read a redemption, and only admins change it', async () => {
+    await seed({
+      [`redemptions/${REDEMPTION}`]: { userId: DONOR, rewardId: 'coffee', creditsSpent: 300, status: 'issued', creditTransactionId: TX },
+    });
+    const redemptionRef = (userId: string) => doc(dbAs(userId), 'redemptions', REDEMPTION);
+    await assertSucceeds(getDoc(redemptionRef(DONOR)));
+    await assertSucceeds(getDoc(redemptionRef(ADMIN)));
+    await assertFails(getDoc(redemptionRef(OTHER_DONOR)));
+    await assertFails(updateDoc(redemptionRef(DONOR), { status: 'issued', creditsSpent: 0 }));
+    await assertSucceeds(updateDoc(redemptionRef(ADMIN), { status: 'used' }));
+    await assertSucceeds(deleteDoc(redemptionRef(ADMIN)));
+  });
+});
+
+describe('userAchievements', () => {
+  const unlockId = `${DONOR}_streak_3`;
+  const unlock = (overrides: DocumentData = {}) => ({
+    userId: DONOR,
+    achievementId: 'streak_3',
+    creditsAwarded: 75,
+    creditTransactionId: `achievement_${unlockId}`,
+    unlockedAt: serverTimestamp(),
+    ...overrides,
+  });
+
+  // An unlock written with its ledger entry, with the unlock document changed as given
+  function unlockWith(overrides: DocumentData) {
+    const db = dbAs(DONOR);
+    const batch = writeBatch(db);
+    writeUnlock(batch, db, DONOR, 'streak_3', 75, { unlock: overrides });
+    return batch.commit();
+  }
+
+  it('lets any signed-in user read unlocks', async () => {
+    await seed({ [`userAchievements/${unlockId}`]: unlock({ unlockedAt: daysAgo(1) }) });
+    await assertSucceeds(getDoc(doc(dbAs(OTHER_DONOR), 'userAchievements', unlockId)));
+  });
+
+  it('denies a backdated unlock', async () => {
+    await assertFails(unlockWith({ unlockedAt: daysAgo(3) }));
+  });
+
+  it('denies a reward other than the achievement\'s', async () => {
+    await assertFails(unlockWith({ creditsAwarded: 7500 }));
+  });
+
+  it('denies an unlock stored under another id', async () => {
+    const db = dbAs(DONOR);
+    const batch = writeBatch(db);
+    writeUnlock(batch, db, DONOR, 'streak_3', 75);
+    batch.set(doc(db, 'userAchievements', 'streak-3-again'), unlock());
+    await assertFails(batch.commit());
+  });
+
+  it('denies an unlock without its ledger entry', async () => {
+    await assertFails(setDoc(doc(dbAs(DONOR), 'userAchievements', unlockId), unlock()));
+  });
+
+  it('only lets admins change or remove an unlock', async () => {
+    await seed({ [`userAchievements/${unlockId}`]: unlock({ unlockedAt: daysAgo(1) }) });
+    await assertFails(updateDoc(doc(dbAs(DONOR), 'userAchievements', unlockId), { creditsAwarded: 1000 }));
+    await assertFails(deleteDoc(doc(dbAs(DONOR), 'userAchievements', unlockId)));
+    await assertSucceeds(deleteDoc(doc(dbAs(ADMIN), 'userAchievements', unlockId)));
+  });
+});
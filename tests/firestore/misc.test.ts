@@ -0,0 +1,158 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { addDoc, collection, deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc, writeBatch, type DocumentData } from 'firebase/firestore';
+import { describe, it } from 'vitest';
+import { achievements, ewasteCategories } from '@/lib/data/categories';
+import {
+  ADMIN,
+  COLLECTOR,
+  DONOR,
+  anonymousDb,
+  completionBatch,
+  daysAgo,
+  dbAs,
+  seed,
+  setupRulesTestEnvironment,
+  storedPickup,
+} from './helpers';
+
+setupRulesTestEnvironment();
+
+const PICKUP = 'pickup-1';
+
+describe('achievements', () => {
+  const { id, ...achievement } = achievements[0];
+
+  it('lets signed-in users read achievements', async () => {
+    await seed({ [`achievements/${id}`]: achievement });
+    await assertSucceeds(getDoc(doc(dbAs(DONOR), 'achievements', id)));
+    await assertFails(getDoc(doc(anonymousDb(), 'achievements', id)));
+  });
+
+  it('only lets admins write achievements', async () => {
+    await assertFails(setDoc(doc(dbAs(DONOR), 'achievements', id), achievement));
+    await assertSucceeds(setDoc(doc(dbAs(ADMIN), 'achievements', id), achievement));
+  });
+});
+
+describe('categoryCatalogs', () => {
+  const catalog = (version: number) => ({
+    version,
+    categories: ewasteCategories,
+    publishedAt: serverTimestamp(),
+    publishedBy: ADMIN,
+    notes: 'Test catalog',
+  });
+
+  it('lets signed-in users read catalogs', async () => {
+    await seed({ 'categoryCatalogs/v1': { ...catalog(1), publishedAt: daysAgo(1) } });
+    await assertSucceeds(getDoc(doc(dbAs(DONOR), 'categoryCatalogs', 'v1')));
+  });
+
+  it('lets admins publish a version under its own id', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(ADMIN), 'categoryCatalogs', 'v2'), catalog(2)));
+    await assertFails(setDoc(doc(dbAs(ADMIN), 'categoryCatalogs', 'v3'), catalog(4)));
+  });
+
+  it('denies anyone else publishing', async () => {
+    await assertFails(setDoc(doc(dbAs(COLLECTOR), 'categoryCatalogs', 'v2'), catalog(2)));
+  });
+
+  it('never lets a published version change', async () => {
+    await seed({ 'categoryCatalogs/v1': { ...catalog(1), publishedAt: daysAgo(1) } });
+    await assertFails(updateDoc(doc(dbAs(ADMIN), 'categoryCatalogs', 'v1'), { notes: 'Edited' }));
+    await assertFails(deleteDoc(doc(dbAs(ADMIN), 'categoryCatalogs', 'v1')));
+  });
+});
+
+describe('auditLog', () => {
+  const entry = (actorId: string, actorRole: string, overrides: DocumentData = {}): DocumentData => ({
+    action: 'pickup.status',
+    actorId,
+    actorRole,
+    targetType: 'pickup',
+    targetId: PICKUP,
+    before: { status: 'matched' },
+    after: { status: 'collector_enroute' },
+    reason: null,
+    referenceId: null,
+    createdAt: serverTimestamp(),
+    ...overrides,
+  });
+  const auditLog = (userId: string) => collection(dbAs(userId), 'auditLog');
+
+  const creditChange = (actorId: string, actorRole: string, overrides: DocumentData = {}) => entry(actorId, actorRole, {
+    action: 'credits.change',
+    targetType: 'profile',
+    targetId: DONOR,
+    before: { greenCredits: 0 },
+    after: { greenCredits: 120 },
+    referenceId: `pickup_${PICKUP}`,
+    ...overrides,
+  });
+
+  // The collector setting off, with its audit entry
+  function statusChange(auditEntry: DocumentData) {
+    const db = dbAs(COLLECTOR);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'pickups', PICKUP), { status: 'collector_enroute', updatedAt: serverTimestamp() });
+    batch.set(doc(collection(db, 'auditLog')), auditEntry);
+    return batch.commit();
+  }
+
+  it('lets users record a status change in the write that makes it', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertSucceeds(statusChange(entry(COLLECTOR, 'collector')));
+  });
+
+  it('lets users record a credit movement alongside its ledger entry', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    const db = dbAs(COLLECTOR);
+    const batch = completionBatch(db, { pickupId: PICKUP, credits: 120 });
+    batch.set(doc(collection(db, 'auditLog')), creditChange(COLLECTOR, 'collector'));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('denies a status change that wasn\'t made, or is misstated', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(addDoc(auditLog(COLLECTOR), entry(COLLECTOR, 'collector')));
+    await assertFails(statusChange(entry(COLLECTOR, 'collector', { after: { status: 'completed' } })));
+    await assertFails(statusChange(entry(COLLECTOR, 'collector', { targetId: 'pickup-2' })));
+  });
+
+  it('denies a credit movement without a new ledger entry to match', async () => {
+    await assertFails(addDoc(auditLog(DONOR), creditChange(DONOR, 'donor')));
+    await seed({ [`creditTransactions/pickup_${PICKUP}`]: { userId: DONOR, amount: 120, balanceAfter: 120, createdAt: daysAgo(1) } });
+    await assertFails(addDoc(auditLog(DONOR), creditChange(DONOR, 'donor')));
+  });
+
+  it('denies a credit movement that misstates its ledger entry', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    const db = dbAs(COLLECTOR);
+    const batch = completionBatch(db, { pickupId: PICKUP, credits: 120 });
+    batch.set(doc(collection(db, 'auditLog')), creditChange(COLLECTOR, 'collector', { after: { greenCredits: 5000 } }));
+    await assertFails(batch.commit());
+  });
+
+  it('only lets admins record other actions', async () => {
+    await assertFails(addDoc(auditLog(DONOR), entry(DONOR, 'donor', { action: 'profile.update' })));
+    await assertSucceeds(addDoc(auditLog(ADMIN), entry(ADMIN, 'admin', { action: 'profile.update' })));
+  });
+
+  it('denies entries in someone else\'s name or role', async () => {
+    await assertFails(addDoc(auditLog(DONOR), entry(COLLECTOR, 'collector')));
+    await assertFails(addDoc(auditLog(DONOR), entry(DONOR, 'admin', { action: 'profile.update' })));
+  });
+
+  it('denies backdated entries', async () => {
+    await assertFails(addDoc(auditLog(DONOR), entry(DONOR, 'donor', { createdAt: daysAgo(1) })));
+  });
+
+  it('only lets admins read the log, and nobody change it', async () => {
+    await seed({ 'auditLog/entry-1': entry(DONOR, 'donor', { createdAt: daysAgo(1) }) });
+    const entryRef = (userId: string) => doc(dbAs(userId), 'auditLog', 'entry-1');
+    await assertFails(getDoc(entryRef(DONOR)));
+    await assertSucceeds(getDoc(entryRef(ADMIN)));
+    await assertFails(updateDoc(entryRef(ADMIN), { reason: 'Edited' }));
+    await assertFails(deleteDoc(entryRef(ADMIN)));
+  });
+});
@@ -0,0 +1,94 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc, type DocumentData } from 'firebase/firestore';
+import { describe, it } from 'vitest';
+import {
+  ADMIN,
+  COLLECTOR,
+  DONOR,
+  OTHER_COLLECTOR,
+  OTHER_DONOR,
+  completionBatch,
+  daysAgo,
+  dbAs,
+  seed,
+  setupRulesTestEnvironment,
+  storedPickup,
+} from './helpers';
+
+setupRulesTestEnvironment();
+
+const PICKUP = 'pickup-1';
+const NOTIFICATION = 'notification-1';
+
+const notification = (userId: string, overrides: DocumentData = {}): DocumentData => ({
+  userId,
+  title: 'Pickup cancelled',
+  body: 'Your pickup was cancelled',
+  type: 'pickup_cancelled',
+  data: { pickupId: PICKUP },
+  isRead: false,
+  createdAt: serverTimestamp(),
+  ...overrides,
+});
+
+const notificationRef = (userId: string) => doc(dbAs(userId), 'notifications', NOTIFICATION);
+
+describe('notifications: create', () => {
+  it('lets users notify themselves', async () => {
+    await assertSucceeds(setDoc(notificationRef(DONOR), notification(DONOR, { data: {} })));
+  });
+
+  it('lets either side of a pickup notify the other', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertSucceeds(setDoc(notificationRef(DONOR), notification(COLLECTOR)));
+    await assertSucceeds(setDoc(doc(dbAs(COLLECTOR), 'notifications', 'notification-2'), notification(DONOR)));
+  });
+
+  it('denies notifying someone outside the pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(setDoc(notificationRef(DONOR), notification(OTHER_COLLECTOR)));
+    await assertFails(setDoc(notificationRef(OTHER_DONOR), notification(COLLECTOR)));
+  });
+
+  it('lets the completing collector notify the donor in the same write', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    const db = dbAs(COLLECTOR);
+    const batch = completionBatch(db, { pickupId: PICKUP, credits: 120 });
+    batch.set(doc(db, 'notifications', NOTIFICATION), notification(DONOR, { type: 'credit_earned', data: { amount: 120 } }));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('lets admins notify anyone', async () => {
+    await assertSucceeds(setDoc(notificationRef(ADMIN), notification(OTHER_DONOR, { data: {} })));
+  });
+
+  it.each([
+    ['already read', { isRead: true }],
+    ['backdated', { createdAt: daysAgo(1) }],
+    ['without a title', { title: null }],
+  ])('denies a notification %s', async (_, overrides) => {
+    await assertFails(setDoc(notificationRef(DONOR), notification(DONOR, { data: {}, ...overrides })));
+  });
+});
+
+describe('notifications: read and update', () => {
+  it('lets the recipient and admins read a notification', async () => {
+    await seed({ [`notifications/${NOTIFICATION}`]: notification(DONOR, { createdAt: daysAgo(1) }) });
+    await assertSucceeds(getDoc(notificationRef(DONOR)));
+    await assertSucceeds(getDoc(notificationRef(ADMIN)));
+    await assertFails(getDoc(notificationRef(OTHER_DONOR)));
+  });
+
+  it('only lets the recipient mark it read', async () => {
+    await seed({ [`notifications/${NOTIFICATION}`]: notification(DONOR, { createdAt: daysAgo(1) }) });
+    await assertSucceeds(updateDoc(notificationRef(DONOR), { isRead: true }));
+    await assertFails(updateDoc(notificationRef(DONOR), { body: 'Edited' }));
+    await assertFails(updateDoc(notificationRef(OTHER_DONOR), { isRead: true }));
+  });
+
+  it('only lets admins delete a notification', async () => {
+    await seed({ [`notifications/${NOTIFICATION}`]: notification(DONOR, { createdAt: daysAgo(1) }) });
+    await assertFails(deleteDoc(notificationRef(DONOR)));
+    await assertSucceeds(deleteDoc(notificationRef(ADMIN)));
+  });
+});
@@ -0,0 +1,149 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+import { describe, it } from 'vitest';
+import {
+  ADMIN,
+  COLLECTOR,
+  DONOR,
+  OTHER_COLLECTOR,
+  OTHER_DONOR,
+  anonymousDb,
+  dbAs,
+  newPickup,
+  pickupItem,
+  seed,
+  setupRulesTestEnvironment,
+  storedPickup,
+} from './helpers';
+
+setupRulesTestEnvironment();
+
+const PICKUP = 'pickup-1';
+const ITEM = 'item-1';
+const itemRef = (userId: string) => doc(dbAs(userId), 'pickupItems', ITEM);
+
+describe('pickupItems: read', () => {
+  it('lets any signed-in user read items', async () => {
+    await seed({ [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertSucceeds(getDoc(itemRef(OTHER_DONOR)));
+    await assertFails(getDoc(doc(anonymousDb(), 'pickupItems', ITEM)));
+  });
+});
+
+describe('pickupItems: create', () => {
+  it('lets the donor list items while the pickup is pending', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertSucceeds(setDoc(itemRef(DONOR), pickupItem(PICKUP)));
+  });
+
+  it('lets the donor create a pickup and its items in one batch', async () => {
+    const db = dbAs(DONOR);
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'pickups', PICKUP), newPickup());
+    batch.set(doc(db, 'pickupItems', ITEM), pickupItem(PICKUP));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('denies the donor adding items once the pickup is claimed', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(setDoc(itemRef(DONOR), pickupItem(PICKUP)));
+  });
+
+  it.each([
+    ['credits', { creditsEarned: 100 }],
+    ['a measured weight', { actualWeightKg: 2 }],
+    ['an inspection result', { isRejected: true }],
+    ['an inspection addition', { addedDuringInspection: true }],
+  ])('denies the donor listing an item with %s', async (_, overrides) => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(setDoc(itemRef(DONOR), pickupItem(PICKUP, overrides)));
+  });
+
+  it.each([
+    ['no quantity', { quantity: 0 }],
+    ['an unknown condition', { condition: 'mint' }],
+    ['negative credits', { creditsEarned: -1 }],
+    ['a negative weight', { actualWeightKg: -1 }],
+  ])('denies an item with %s', async (_, overrides) => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(setDoc(itemRef(ADMIN), pickupItem(PICKUP, overrides)));
+  });
+
+  it('denies other donors adding items', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(setDoc(itemRef(OTHER_DONOR), pickupItem(PICKUP)));
+  });
+
+  it('lets the collector add items found during the inspection', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting') });
+    await assertSucceeds(setDoc(itemRef(COLLECTOR), pickupItem(PICKUP, { addedDuringInspection: true, actualWeightKg: 1.5 })));
+  });
+
+  it('denies the collector adding items outside the inspection, or unmarked', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived') });
+    await assertFails(setDoc(itemRef(COLLECTOR), pickupItem(PICKUP, { addedDuringInspection: true })));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting') });
+    await assertFails(setDoc(itemRef(COLLECTOR), pickupItem(PICKUP)));
+  });
+
+  it('denies collectors who aren\'t assigned', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting') });
+    await assertFails(setDoc(itemRef(OTHER_COLLECTOR), pickupItem(PICKUP, { addedDuringInspection: true })));
+  });
+
+  it('lets admins add items at any time', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertSucceeds(setDoc(itemRef(ADMIN), pickupItem(PICKUP, { creditsEarned: 30 })));
+  });
+});
+
+describe('pickupItems: update', () => {
+  const inspection = {
+    categoryId: 'smartphones',
+    condition: 'damaged',
+    actualWeightKg: 0.2,
+    declaredCategoryId: 'laptops',
+    declaredCondition: 'working',
+  };
+
+  it.each(['inspecting', 'collected'])('lets the collector update items while the pickup is %s', async (status) => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup(status), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertSucceeds(updateDoc(itemRef(COLLECTOR), inspection));
+  });
+
+  it('lets the collector reject an item', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting'), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertSucceeds(updateDoc(itemRef(COLLECTOR), { isRejected: true, rejectionReason: 'Not e-waste' }));
+  });
+
+  it('denies updates before the inspection', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived'), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertFails(updateDoc(itemRef(COLLECTOR), inspection));
+  });
+
+  it('denies the donor changing their items', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending'), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertFails(updateDoc(itemRef(DONOR), { quantity: 5 }));
+  });
+
+  it('denies moving an item to another pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting'), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertFails(updateDoc(itemRef(COLLECTOR), { pickupId: 'pickup-2' }));
+  });
+
+  it('denies changing fields outside the inspection', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting'), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertFails(updateDoc(itemRef(COLLECTOR), { aiConfidence: 1 }));
+  });
+
+  it('lets admins update items at any time', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('completed'), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertSucceeds(updateDoc(itemRef(ADMIN), { creditsEarned: 40 }));
+  });
+
+  it('only lets admins delete items', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending'), [`pickupItems/${ITEM}`]: pickupItem(PICKUP) });
+    await assertFails(deleteDoc(itemRef(DONOR)));
+    await assertSucceeds(deleteDoc(itemRef(ADMIN)));
+  });
+});
@@ -0,0 +1,609 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { collection, deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc, writeBatch, type DocumentData } from 'firebase/firestore';
+import { describe, it } from 'vitest';
+import { addRatingToAverage } from '@/lib/ratings';
+import {
+  ADMIN,
+  COLLECTOR,
+  DONOR,
+  OTHER_COLLECTOR,
+  OTHER_DONOR,
+  anonymousDb,
+  daysAgo,
+  dbAs,
+  newPickup,
+  profile,
+  seed,
+  setupRulesTestEnvironment,
+  storedPickup,
+  utcDay,
+} from './helpers';
+
+setupRulesTestEnvironment();
+
+const PICKUP = 'pickup-1';
+const pickupRef = (userId: string) => doc(dbAs(userId), 'pickups', PICKUP);
+
+describe('pickups: read', () => {
+  it('lets the donor, the assigned collector and admins read a pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertSucceeds(getDoc(pickupRef(DONOR)));
+    await assertSucceeds(getDoc(pickupRef(COLLECTOR)));
+    await assertSucceeds(getDoc(pickupRef(ADMIN)));
+  });
+
+  it('lets any collector read a pending pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertSucceeds(getDoc(pickupRef(OTHER_COLLECTOR)));
+  });
+
+  it('denies other collectors once the pickup is claimed', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(getDoc(pickupRef(OTHER_COLLECTOR)));
+  });
+
+  it('denies other donors and anonymous users', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(getDoc(pickupRef(OTHER_DONOR)));
+    await assertFails(getDoc(doc(anonymousDb(), 'pickups', PICKUP)));
+  });
+});
+
+describe('pickups: create', () => {
+  it('lets a donor request a pickup', async () => {
+    await assertSucceeds(setDoc(pickupRef(DONOR), newPickup()));
+  });
+
+  it('denies requesting a pickup for someone else', async () => {
+    await assertFails(setDoc(pickupRef(OTHER_DONOR), newPickup()));
+  });
+
+  it.each([
+    ['a status other than pending', { status: 'matched' }],
+    ['a collector', { collectorId: COLLECTOR }],
+    ['a measured weight', { actualWeightKg: 3 }],
+    ['credits awarded', { actualCreditsAwarded: 100 }],
+    ['a rating', { donorRating: 5 }],
+    ['a completion time', { completedAt: serverTimestamp() }],
+    ['an invalid date', { preferredDate: 'next week' }],
+    ['an invalid time slot', { preferredTimeSlot: 'midnight' }],
+    ['no items', { totalItems: 0 }],
+    ['negative credits', { estimatedCredits: -5 }],
+    ['inspection results', { hazardousWeightByCategory: { batteries: 1 } }],
+    ['no declared hazardous categories', { declaredHazardousCategoryIds: null }],
+    ['a cancellation', { cancellationReason: 'Changed my mind' }],
+  ])('denies a new pickup with %s', async (_, overrides) => {
+    await assertFails(setDoc(pickupRef(DONOR), newPickup(overrides)));
+  });
+
+  it('denies anonymous requests', async () => {
+    await assertFails(setDoc(doc(anonymousDb(), 'pickups', PICKUP), newPickup()));
+  });
+});
+
+describe('pickups: donor changes', () => {
+  const cancellation = (reason: string | null = 'No longer needed') => ({
+    status: 'cancelled',
+    cancelledAt: serverTimestamp(),
+    cancelledBy: DONOR,
+    cancellationReason: reason,
+    updatedAt: serverTimestamp(),
+  });
+
+  it.each(['pending', 'matched'])('lets the donor cancel a %s pickup with a reason', async (status) => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup(status) });
+    await assertSucceeds(updateDoc(pickupRef(DONOR), cancellation()));
+  });
+
+  it('denies cancelling without a reason', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(DONOR), cancellation('')));
+    await assertFails(updateDoc(pickupRef(DONOR), cancellation(null)));
+  });
+
+  it('denies cancelling once the collector has set off', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collector_enroute') });
+    await assertFails(updateDoc(pickupRef(DONOR), cancellation()));
+  });
+
+  it('denies other changes along with a cancellation', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(DONOR), { ...cancellation(), estimatedCredits: 1000 }));
+  });
+
+  it('denies the donor moving the pickup along', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(updateDoc(pickupRef(DONOR), { status: 'completed' }));
+  });
+
+  it.each(['pending', 'matched'])('lets the donor reschedule a %s pickup', async (status) => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup(status) });
+    await assertSucceeds(updateDoc(pickupRef(DONOR), {
+      preferredDate: utcDay(5),
+      preferredTimeSlot: 'evening',
+      rescheduledAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    }));
+  });
+
+  it('denies rescheduling to an invalid slot or date', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(DONOR), { preferredTimeSlot: 'midnight' }));
+    await assertFails(updateDoc(pickupRef(DONOR), { preferredDate: 'soon' }));
+  });
+
+  it('denies rescheduling once the collector has set off', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collector_enroute') });
+    await assertFails(updateDoc(pickupRef(DONOR), { preferredDate: utcDay(5) }));
+  });
+
+  it('denies other donors', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(OTHER_DONOR), cancellation()));
+  });
+});
+
+describe('pickups: claim', () => {
+  const claim = (collectorId: string) => ({
+    collectorId,
+    status: 'matched',
+    matchedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  it('lets any collector claim a pending pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertSucceeds(updateDoc(pickupRef(OTHER_COLLECTOR), claim(OTHER_COLLECTOR)));
+  });
+
+  it('denies claiming a pickup that is no longer pending', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(updateDoc(pickupRef(OTHER_COLLECTOR), claim(OTHER_COLLECTOR)));
+  });
+
+  it('denies claiming it for someone else', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(OTHER_COLLECTOR), claim(COLLECTOR)));
+  });
+
+  it('denies donors claiming pickups', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(OTHER_DONOR), claim(OTHER_DONOR)));
+  });
+
+  it('denies a collector claiming their own pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending', { donorId: COLLECTOR }) });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), claim(COLLECTOR)));
+  });
+
+  it('denies other changes along with a claim', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { ...claim(COLLECTOR), estimatedCredits: 1000 }));
+  });
+});
+
+describe('pickups: collector progress', () => {
+  it.each([
+    ['matched', 'collector_enroute'],
+    ['collector_enroute', 'arrived'],
+    ['arrived', 'inspecting'],
+    ['inspecting', 'collected'],
+  ])('lets the assigned collector move a pickup from %s to %s', async (from, to) => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup(from) });
+    await assertSucceeds(updateDoc(pickupRef(COLLECTOR), { status: to, updatedAt: serverTimestamp() }));
+  });
+
+  it('denies skipping a step', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'collected' }));
+  });
+
+  it('denies moving backwards', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'matched' }));
+  });
+
+  it('denies an unknown status', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'lost' }));
+  });
+
+  it('lets the collector cancel with a reason', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived') });
+    await assertSucceeds(updateDoc(pickupRef(COLLECTOR), {
+      status: 'cancelled',
+      cancelledAt: serverTimestamp(),
+      cancelledBy: COLLECTOR,
+      cancellationReason: 'Nobody home',
+    }));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'cancelled', cancelledBy: COLLECTOR }));
+  });
+
+  it('denies collectors who aren\'t assigned', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(updateDoc(pickupRef(OTHER_COLLECTOR), { status: 'collector_enroute' }));
+  });
+
+  it('denies changing the donor\'s details', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { pickupAddress: 'Elsewhere' }));
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { collectorId: OTHER_COLLECTOR }));
+  });
+
+  it('lets inspection results be recorded only while inspecting', async () => {
+    const results = { inspectionCompletedAt: serverTimestamp(), hazardousWeightByCategory: { batteries: 1.2 }, actualWeightKg: 3.1 };
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting') });
+    await assertSucceeds(updateDoc(pickupRef(COLLECTOR), results));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), results));
+  });
+
+  it('denies a negative weight', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { actualWeightKg: -1 }));
+  });
+
+  it('only lets credits be set when completing', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertSucceeds(updateDoc(pickupRef(COLLECTOR), {
+      status: 'completed',
+      actualWeightKg: 2.5,
+      actualCreditsAwarded: 120,
+      completedAt: serverTimestamp(),
+    }));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { actualCreditsAwarded: 120 }));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'completed', actualCreditsAwarded: -1 }));
+  });
+
+  it('denies more credits than the weight can earn', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), {
+      status: 'completed',
+      actualWeightKg: 2.5,
+      actualCreditsAwarded: 5000,
+      completedAt: serverTimestamp(),
+    }));
+    await assertFails(updateDoc(pickupRef(COLLECTOR), {
+      status: 'completed',
+      actualCreditsAwarded: 120,
+      completedAt: serverTimestamp(),
+    }));
+  });
+
+  it('denies a weight far past the donor\'s estimate', async () => {
+    // newPickup estimates 3.4kg
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('inspecting') });
+    await assertSucceeds(updateDoc(pickupRef(COLLECTOR), { actualWeightKg: 30 }));
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { actualWeightKg: 1000 }));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), {
+      status: 'completed',
+      actualWeightKg: 1000,
+      actualCreditsAwarded: 50_000,
+      completedAt: serverTimestamp(),
+    }));
+  });
+
+  it('denies changes to a completed pickup other than the rating', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('completed', { actualCreditsAwarded: 120, completedAt: daysAgo(1) }) });
+    await assertFails(updateDoc(pickupRef(COLLECTOR), { actualCreditsAwarded: 5000 }));
+  });
+
+  describe('with hazardous items', () => {
+    const hazardous = (overrides: DocumentData = {}) =>
+      storedPickup('inspecting', { hazardousWeightByCategory: { batteries: 1.2 }, inspectionCompletedAt: daysAgo(0), ...overrides });
+    const acknowledgement = (acknowledgedBy: string, checks: Record<string, boolean> = { batteries: true }) => ({
+      acknowledgedBy,
+      acknowledgedAt: new Date().toISOString(),
+      checks,
+    });
+
+    it('lets the collector mark it collected with the checklist confirmed', async () => {
+      await seed({ [`pickups/${PICKUP}`]: hazardous() });
+      await assertSucceeds(updateDoc(pickupRef(COLLECTOR), {
+        status: 'collected',
+        collectedAt: serverTimestamp(),
+        hazardAcknowledgement: acknowledgement(COLLECTOR),
+      }));
+    });
+
+    it('denies marking it collected without the checklist', async () => {
+      await seed({ [`pickups/${PICKUP}`]: hazardous() });
+      await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'collected', collectedAt: serverTimestamp() }));
+    });
+
+    it('denies a checklist confirmed by someone else', async () => {
+      await seed({ [`pickups/${PICKUP}`]: hazardous() });
+      await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'collected', hazardAcknowledgement: acknowledgement(DONOR) }));
+    });
+
+    it('denies a checklist that doesn\'t confirm every hazardous category', async () => {
+      await seed({ [`pickups/${PICKUP}`]: hazardous({ hazardousWeightByCategory: { batteries: 1.2, displays: 8 } }) });
+      await assertFails(updateDoc(pickupRef(COLLECTOR), {
+        status: 'collected',
+        hazardAcknowledgement: acknowledgement(COLLECTOR, { batteries: true, laptops: true }),
+      }));
+      await assertFails(updateDoc(pickupRef(COLLECTOR), {
+        status: 'collected',
+        hazardAcknowledgement: acknowledgement(COLLECTOR, { batteries: true, displays: false }),
+      }));
+      await assertFails(updateDoc(pickupRef(COLLECTOR), {
+        status: 'collected',
+        hazardAcknowledgement: { ...acknowledgement(COLLECTOR), checks: ['batteries', 'displays'] },
+      }));
+    });
+
+    it('keeps the donor\'s declared categories on the checklist, whatever the inspection recorded', async () => {
+      await seed({ [`pickups/${PICKUP}`]: hazardous({ declaredHazardousCategoryIds: ['batteries'], hazardousWeightByCategory: {} }) });
+      await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'collected' }));
+      await assertFails(updateDoc(pickupRef(COLLECTOR), { status: 'collected', hazardousWeightByCategory: {} }));
+      await assertSucceeds(updateDoc(pickupRef(COLLECTOR), { status: 'collected', hazardAcknowledgement: acknowledgement(COLLECTOR) }));
+    });
+
+    it('denies the collector changing the declared categories', async () => {
+      await seed({ [`pickups/${PICKUP}`]: hazardous({ declaredHazardousCategoryIds: ['batteries'] }) });
+      await assertFails(updateDoc(pickupRef(COLLECTOR), { declaredHazardousCategoryIds: [] }));
+    });
+
+    it('needs no checklist when nothing hazardous was declared or found', async () => {
+      await seed({ [`pickups/${PICKUP}`]: hazardous({ hazardousWeightByCategory: {} }) });
+      await assertSucceeds(updateDoc(pickupRef(COLLECTOR), { status: 'collected' }));
+    });
+  });
+});
+
+describe('pickups: admin', () => {
+  const reassign = (collectorId: string) => ({
+    collectorId,
+    status: 'matched',
+    matchedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  it.each(['pending', 'matched', 'collector_enroute'])('lets an admin reassign a %s pickup', async (status) => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup(status) });
+    await assertSucceeds(updateDoc(pickupRef(ADMIN), reassign(OTHER_COLLECTOR)));
+  });
+
+  it('denies assigning a donor their own pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(updateDoc(pickupRef(ADMIN), reassign(DONOR)));
+  });
+
+  it('denies admins skipping steps', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived') });
+    await assertFails(updateDoc(pickupRef(ADMIN), { status: 'completed' }));
+  });
+
+  it('denies admins changing the donor\'s details', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(updateDoc(pickupRef(ADMIN), { donorId: OTHER_DONOR }));
+  });
+
+  it('only lets admins delete pickups', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('pending') });
+    await assertFails(deleteDoc(pickupRef(DONOR)));
+    await assertSucceeds(deleteDoc(pickupRef(ADMIN)));
+  });
+});
+
+describe('pickups: ratings', () => {
+  const completed = (overrides: DocumentData = {}) =>
+    storedPickup('completed', { actualCreditsAwarded: 120, completedAt: daysAgo(1), ...overrides });
+
+  // The write ratePickup makes: the rating on the pickup and the rated user's new average
+  function rate(raterId: string, ratedId: string, party: 'donor' | 'collector', rating: number, profileChanges: DocumentData = {}) {
+    const db = dbAs(raterId);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'pickups', PICKUP), {
+      [`${party}Rating`]: rating,
+      [`${party}RatingTags`]: ['Friendly'],
+      [`${party}RatingComment`]: null,
+      [`${party}RatedAt`]: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    batch.update(doc(db, 'profiles', ratedId), {
+      ratingAverage: rating,
+      ratingCount: 1,
+      lastRatedPickupId: PICKUP,
+      updatedAt: new Date().toISOString(),
+      ...profileChanges,
+    });
+    return batch.commit();
+  }
+
+  it('lets the donor rate the collector, and the collector rate the donor', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    await assertSucceeds(rate(DONOR, COLLECTOR, 'collector', 5));
+    await assertSucceeds(rate(COLLECTOR, DONOR, 'donor', 4));
+  });
+
+  it('folds the rating into the existing average', async () => {
+    const rated = { ratingAverage: 4.5, ratingCount: 2 };
+    await seed({ [`pickups/${PICKUP}`]: completed(), [`profiles/${COLLECTOR}`]: profile(COLLECTOR, 'collector', rated) });
+    await assertSucceeds(rate(DONOR, COLLECTOR, 'collector', 3, addRatingToAverage(rated, 3)));
+  });
+
+  it('accepts an average that differs from the rules\' own only in float rounding', async () => {
+    const rated = { ratingAverage: 13 / 3, ratingCount: 3 };
+    await seed({ [`pickups/${PICKUP}`]: completed(), [`profiles/${COLLECTOR}`]: profile(COLLECTOR, 'collector', rated) });
+    await assertSucceeds(rate(DONOR, COLLECTOR, 'collector', 4, { ratingAverage: 4.25 + 1e-12, ratingCount: 4 }));
+  });
+
+  it('denies an average that doesn\'t follow from the rating given', async () => {
+    const rated = { ratingAverage: 4.5, ratingCount: 2 };
+    await seed({ [`pickups/${PICKUP}`]: completed(), [`profiles/${COLLECTOR}`]: profile(COLLECTOR, 'collector', rated) });
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 1, addRatingToAverage(rated, 5)));
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 1, { ratingAverage: 5, ratingCount: 3 }));
+  });
+
+  it('denies rating twice', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed({ collectorRating: 3 }) });
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 5));
+  });
+
+  it('denies ratings outside 1 to 5 stars', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 0));
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 6));
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 4.5));
+  });
+
+  it('denies rating after the window has closed', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed({ completedAt: daysAgo(8) }) });
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 5));
+  });
+
+  it('denies rating a pickup that isn\'t completed', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 5));
+  });
+
+  it('denies rating yourself', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    await assertFails(rate(DONOR, DONOR, 'donor', 5));
+  });
+
+  it('denies someone outside the pickup rating it', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    await assertFails(rate(OTHER_DONOR, COLLECTOR, 'collector', 5));
+  });
+
+  it('denies updating the average without rating the pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    await assertFails(updateDoc(doc(dbAs(DONOR), 'profiles', COLLECTOR), { ratingAverage: 5, ratingCount: 1, lastRatedPickupId: PICKUP }));
+  });
+
+  it('denies counting the rating more than once', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 5, { ratingCount: 3 }));
+  });
+
+  it('denies other profile changes along with the rating', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    await assertFails(rate(DONOR, COLLECTOR, 'collector', 5, { greenCredits: 1000 }));
+  });
+
+  it('denies other pickup changes along with the rating', async () => {
+    await seed({ [`pickups/${PICKUP}`]: completed() });
+    const db = dbAs(DONOR);
+    await assertFails(updateDoc(doc(db, 'pickups', PICKUP), { collectorRating: 5, actualCreditsAwarded: 5000 }));
+  });
+});
+
+describe('pickups: status history', () => {
+  const entry = (changedBy: string, fromStatus: string, toStatus: string) => ({
+    fromStatus,
+    toStatus,
+    changedBy,
+    changedByRole: changedBy === ADMIN ? 'admin' : 'collector',
+    changedAt: serverTimestamp(),
+  });
+
+  // A status change and its history entry, written together as writeStatusChange does
+  function changeStatus(userId: string, fromStatus: string, toStatus: string, entryChanges: DocumentData = {}) {
+    const db = dbAs(userId);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'pickups', PICKUP), { status: toStatus, updatedAt: serverTimestamp() });
+    batch.set(doc(collection(db, 'pickups', PICKUP, 'statusHistory')), { ...entry(userId, fromStatus, toStatus), ...entryChanges });
+    return batch.commit();
+  }
+
+  it('lets a party record the status change they make', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertSucceeds(changeStatus(COLLECTOR, 'matched', 'collector_enroute'));
+  });
+
+  it('denies an entry written in someone else\'s name', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(changeStatus(COLLECTOR, 'matched', 'collector_enroute', { changedBy: ADMIN }));
+  });
+
+  it('denies an entry that doesn\'t match the new status', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(changeStatus(COLLECTOR, 'matched', 'collector_enroute', { toStatus: 'completed' }));
+  });
+
+  it('denies an entry whose previous status doesn\'t match', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(changeStatus(COLLECTOR, 'pending', 'collector_enroute'));
+  });
+
+  it('denies an entry without a status change', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(setDoc(doc(collection(dbAs(COLLECTOR), 'pickups', PICKUP, 'statusHistory')),
+      entry(COLLECTOR, 'matched', 'matched')));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(changeStatus(COLLECTOR, 'matched', 'matched'));
+  });
+
+  it('denies entries for pickups the writer isn\'t part of', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(setDoc(doc(collection(dbAs(OTHER_COLLECTOR), 'pickups', PICKUP, 'statusHistory')),
+      entry(OTHER_COLLECTOR, 'matched', 'matched')));
+  });
+
+  it('lets parties read the history, and nobody change it', async () => {
+    await seed({
+      [`pickups/${PICKUP}`]: storedPickup('matched'),
+      [`pickups/${PICKUP}/statusHistory/entry-1`]: { ...entry(COLLECTOR, 'pending', 'matched'), changedAt: daysAgo(1) },
+    });
+    const entryRef = (userId: string) => doc(dbAs(userId), 'pickups', PICKUP, 'statusHistory', 'entry-1');
+    await assertSucceeds(getDoc(entryRef(DONOR)));
+    await assertSucceeds(getDoc(entryRef(ADMIN)));
+    await assertFails(getDoc(entryRef(OTHER_DONOR)));
+    await assertFails(updateDoc(entryRef(ADMIN), { toStatus: 'cancelled' }));
+    await assertFails(deleteDoc(entryRef(ADMIN)));
+  });
+});
+
+describe('collectorLocations', () => {
+  const location = (collectorId: string) => ({
+    pickupId: PICKUP,
+    collectorId,
+    latitude: 34.05,
+    longitude: -118.24,
+    accuracyM: 10,
+    heading: null,
+    speedMps: null,
+    updatedAt: new Date().toISOString(),
+  });
+  const locationRef = (userId: string) => doc(dbAs(userId), 'collectorLocations', PICKUP);
+
+  it('lets the assigned collector share their position while en route', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collector_enroute') });
+    await assertSucceeds(setDoc(locationRef(COLLECTOR), location(COLLECTOR)));
+  });
+
+  it('denies sharing before setting off or after arriving', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('matched') });
+    await assertFails(setDoc(locationRef(COLLECTOR), location(COLLECTOR)));
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('arrived') });
+    await assertFails(setDoc(locationRef(COLLECTOR), location(COLLECTOR)));
+  });
+
+  it('denies anyone but the assigned collector', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collector_enroute') });
+    await assertFails(setDoc(locationRef(OTHER_COLLECTOR), location(OTHER_COLLECTOR)));
+    await assertFails(setDoc(locationRef(DONOR), location(DONOR)));
+  });
+
+  it('denies a position filed under another pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collector_enroute') });
+    await assertFails(setDoc(locationRef(COLLECTOR), { ...location(COLLECTOR), pickupId: 'pickup-2' }));
+  });
+
+  it('lets the pickup\'s parties read and clear the position', async () => {
+    await seed({
+      [`pickups/${PICKUP}`]: storedPickup('collector_enroute'),
+      [`collectorLocations/${PICKUP}`]: location(COLLECTOR),
+    });
+    await assertSucceeds(getDoc(locationRef(DONOR)));
+    await assertFails(getDoc(locationRef(OTHER_DONOR)));
+    await assertFails(deleteDoc(locationRef(OTHER_COLLECTOR)));
+    await assertSucceeds(deleteDoc(locationRef(DONOR)));
+  });
+});
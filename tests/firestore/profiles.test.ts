@@ -0,0 +1,422 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { deleteDoc, deleteField, doc, getDoc, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+import { describe, it } from 'vitest';
+import { toLocalDay } from '@/lib/streaks';
+import {
+  ADMIN,
+  COLLECTOR,
+  DONOR,
+  OTHER_COLLECTOR,
+  OTHER_DONOR,
+  achievementReward,
+  anonymousDb,
+  completionBatch,
+  dbAs,
+  profile,
+  seed,
+  setupRulesTestEnvironment,
+  storedPickup,
+  utcDay,
+  writeUnlock,
+} from './helpers';
+
+setupRulesTestEnvironment();
+
+const donorRef = (userId = DONOR) => doc(dbAs(userId), 'profiles', DONOR);
+
+describe('profiles: read', () => {
+  it('lets any signed-in user read a profile', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(OTHER_DONOR), 'profiles', DONOR)));
+  });
+
+  it('denies anonymous reads', async () => {
+    await assertFails(getDoc(doc(anonymousDb(), 'profiles', DONOR)));
+  });
+});
+
+describe('profiles: create', () => {
+  const NEW_USER = 'new-user';
+
+  it('lets a user create their own donor profile with nothing earned', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(NEW_USER), 'profiles', NEW_USER), profile(NEW_USER)));
+  });
+
+  it('denies creating someone else\'s profile', async () => {
+    await assertFails(setDoc(doc(dbAs(NEW_USER), 'profiles', 'someone'), profile('someone')));
+  });
+
+  it('denies a profile whose id field doesn\'t match', async () => {
+    await assertFails(setDoc(doc(dbAs(NEW_USER), 'profiles', NEW_USER), profile('someone')));
+  });
+
+  it.each([
+    ['a collector role', { role: 'collector' }],
+    ['an admin role', { role: 'admin' }],
+    ['verification', { isVerified: true }],
+    ['a higher badge level', { badgeLevel: 'tree' }],
+    ['credits', { greenCredits: 500 }],
+    ['lifetime credits', { totalCreditsEarned: 500 }],
+    ['completed pickups', { totalPickupsCompleted: 3 }],
+    ['recycled items', { totalItemsRecycled: 3 }],
+    ['recycled weight', { totalWeightKg: 3 }],
+    ['CO₂ savings', { co2SavedKg: 3 }],
+    ['a streak', { streakDays: 3 }],
+    ['streak freezes', { streakFreezes: 1 }],
+    ['ratings', { ratingCount: 1 }],
+    ['a rating average', { ratingAverage: 5 }],
+  ])('denies a new profile starting with %s', async (_, overrides) => {
+    await assertFails(setDoc(doc(dbAs(NEW_USER), 'profiles', NEW_USER), profile(NEW_USER, 'donor', overrides)));
+  });
+
+  it('denies anonymous creates', async () => {
+    await assertFails(setDoc(doc(anonymousDb(), 'profiles', NEW_USER), profile(NEW_USER)));
+  });
+});
+
+describe('profiles: own edits', () => {
+  it('lets the owner edit their contact details and time zone', async () => {
+    await assertSucceeds(updateDoc(donorRef(), {
+      fullName: 'New Name',
+      avatarUrl: 'https://example.com/a.png',
+      phone: '555-0100',
+      addressLine1: '2 Leaf Lane',
+      city: 'Springfield',
+      state: 'CA',
+      latitude: 34.1,
+      longitude: -118.3,
+      timeZone: 'America/Los_Angeles',
+      updatedAt: new Date().toISOString(),
+    }));
+  });
+
+  it.each([
+    ['role', { role: 'admin' }],
+    ['isVerified', { isVerified: true }],
+    ['badgeLevel', { badgeLevel: 'forest' }],
+    ['totalPickupsCompleted', { totalPickupsCompleted: 10 }],
+    ['ratingAverage', { ratingAverage: 5 }],
+    ['email', { email: 'other@example.com' }],
+  ])('denies the owner changing %s', async (_, changes) => {
+    await assertFails(updateDoc(donorRef(), changes));
+  });
+
+  it('denies editing someone else\'s profile', async () => {
+    await assertFails(updateDoc(donorRef(OTHER_DONOR), { fullName: 'Hijacked' }));
+  });
+
+  it('lets an admin change anything', async () => {
+    await assertSucceeds(updateDoc(donorRef(ADMIN), { role: 'collector', isVerified: true, greenCredits: 10 }));
+  });
+
+  it('only lets an admin delete a profile', async () => {
+    await assertFails(deleteDoc(donorRef()));
+    await assertSucceeds(deleteDoc(donorRef(ADMIN)));
+  });
+});
+
+describe('profiles: redemption debit', () => {
+  it('lets the owner lower their balance', async () => {
+    await seed({ [`profiles/${DONOR}`]: profile(DONOR, 'donor', { greenCredits: 600, totalCreditsEarned: 600 }) });
+    await assertSucceeds(updateDoc(donorRef(), { greenCredits: 100, updatedAt: new Date().toISOString() }));
+  });
+
+  it('denies raising the balance or taking it below zero', async () => {
+    await seed({ [`profiles/${DONOR}`]: profile(DONOR, 'donor', { greenCredits: 600, totalCreditsEarned: 600 }) });
+    await assertFails(updateDoc(donorRef(), { greenCredits: 700 }));
+    await assertFails(updateDoc(donorRef(), { greenCredits: -100 }));
+  });
+});
+
+describe('profiles: own streak', () => {
+  const today = utcDay(0);
+  const yesterday = utcDay(-1);
+
+  const onStreak = (streakDays: number, streakLastDay: string | null, overrides = {}) =>
+    profile(DONOR, 'donor', { streakDays, streakLastDay, ...overrides });
+
+  it('lets the owner start and extend a streak', async () => {
+    await assertSucceeds(updateDoc(donorRef(), { streakDays: 1, streakLastDay: today, lastActivityAt: new Date().toISOString() }));
+    await seed({ [`profiles/${DONOR}`]: onStreak(1, yesterday) });
+    await assertSucceeds(updateDoc(donorRef(), { streakDays: 2, streakLastDay: today }));
+  });
+
+  it('lets the streak restart at one', async () => {
+    await seed({ [`profiles/${DONOR}`]: onStreak(5, utcDay(-5)) });
+    await assertSucceeds(updateDoc(donorRef(), { streakDays: 1, streakLastDay: today }));
+  });
+
+  it.each([
+    ['furthest ahead of UTC', 'Pacific/Kiritimati'],
+    ['furthest behind UTC', 'Etc/GMT+12'],
+  ])('allows the current day in the time zone %s', async (_, timeZone) => {
+    const day = toLocalDay(new Date(), timeZone);
+    await seed({ [`profiles/${DONOR}`]: onStreak(1, utcDay(-2)) });
+    await assertSucceeds(updateDoc(donorRef(), { streakDays: 2, streakLastDay: day }));
+  });
+
+  it('denies a day that hasn\'t started anywhere yet', async () => {
+    await assertFails(updateDoc(donorRef(), { streakDays: 1, streakLastDay: utcDay(2) }));
+  });
+
+  it('denies a backdated day, so a streak can\'t be built up a day per write', async () => {
+    await seed({ [`profiles/${DONOR}`]: onStreak(1, utcDay(-30)) });
+    await assertFails(updateDoc(donorRef(), { streakDays: 2, streakLastDay: utcDay(-29) }));
+    await assertFails(updateDoc(donorRef(), { streakDays: 2, streakLastDay: utcDay(-2) }));
+  });
+
+  it('denies moving back to the same or an earlier day', async () => {
+    await seed({ [`profiles/${DONOR}`]: onStreak(2, today) });
+    await assertFails(updateDoc(donorRef(), { streakDays: 3, streakLastDay: today }));
+    await assertFails(updateDoc(donorRef(), { streakDays: 3, streakLastDay: yesterday }));
+  });
+
+  it('denies jumping more than one day of streak', async () => {
+    await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday) });
+    await assertFails(updateDoc(donorRef(), { streakDays: 10, streakLastDay: today }));
+  });
+
+  it('denies a malformed day', async () => {
+    await assertFails(updateDoc(donorRef(), { streakDays: 1, streakLastDay: 'today' }));
+  });
+
+  it('lets freezes be earned one at a time, up to two', async () => {
+    await seed({ [`profiles/${DONOR}`]: onStreak(6, yesterday, { streakFreezes: 1 }) });
+    await assertSucceeds(updateDoc(donorRef(), { streakDays: 7, streakLastDay: today, streakFreezes: 2 }));
+  });
+
+  it('denies earning several freezes at once, or more than two', async () => {
+    await seed({ [`profiles/${DONOR}`]: onStreak(6, yesterday) });
+    await assertFails(updateDoc(donorRef(), { streakDays: 7, streakLastDay: today, streakFreezes: 2 }));
+    await seed({ [`profiles/${DONOR}`]: onStreak(6, yesterday, { streakFreezes: 2 }) });
+    await assertFails(updateDoc(donorRef(), { streakDays: 7, streakLastDay: today, streakFreezes: 3 }));
+  });
+
+  it('denies paying credits without an unlock', async () => {
+    await seed({ [`profiles/${DONOR}`]: onStreak(1, yesterday) });
+    await assertFails(updateDoc(donorRef(), { streakDays: 2, streakLastDay: today, greenCredits: 75, totalCreditsEarned: 75 }));
+  });
+
+  describe('with a streak achievement', () => {
+    // The write recordStreakActivity makes when the third day unlocks streak_3
+    function streakUnlock(changes: Record<string, unknown> = {}, achievementId = 'streak_3') {
+      const db = dbAs(DONOR);
+      const reward = achievementReward(achievementId);
+      const batch = writeBatch(db);
+      writeUnlock(batch, db, DONOR, achievementId, reward);
+      batch.update(doc(db, 'profiles', DONOR), {
+        streakDays: 3,
+        streakLastDay: today,
+        greenCredits: reward,
+        totalCreditsEarned: reward,
+        lastUnlockedAchievementIds: [achievementId],
+        updatedAt: new Date().toISOString(),
+        ...changes,
+      });
+      return batch.commit();
+    }
+
+    it('lets the owner pay themselves its reward', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday) });
+      await assertSucceeds(streakUnlock());
+    });
+
+    it('denies paying more than the reward', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday) });
+      await assertFails(streakUnlock({ greenCredits: 1000, totalCreditsEarned: 1000 }));
+    });
+
+    it('denies paying the reward without adding it to the lifetime total', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday) });
+      await assertFails(streakUnlock({ totalCreditsEarned: 0 }));
+    });
+
+    it('denies naming an achievement that wasn\'t unlocked in the write', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday) });
+      await assertFails(updateDoc(donorRef(), {
+        streakDays: 3,
+        streakLastDay: today,
+        greenCredits: 75,
+        totalCreditsEarned: 75,
+        lastUnlockedAchievementIds: ['streak_3'],
+      }));
+    });
+
+    it('denies paying out an achievement other than a streak one', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday) });
+      await assertFails(streakUnlock({}, 'first_drop'));
+    });
+
+    it('denies several unlocks at once', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(6, yesterday) });
+      const db = dbAs(DONOR);
+      const batch = writeBatch(db);
+      writeUnlock(batch, db, DONOR, 'streak_3', 75);
+      writeUnlock(batch, db, DONOR, 'streak_7', 225);
+      batch.update(doc(db, 'profiles', DONOR), {
+        streakDays: 7,
+        streakLastDay: today,
+        greenCredits: 225,
+        totalCreditsEarned: 225,
+        lastUnlockedAchievementIds: ['streak_3', 'streak_7'],
+      });
+      await assertFails(batch.commit());
+    });
+
+    it('lets the badge level follow the new lifetime total', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday, { greenCredits: 450, totalCreditsEarned: 450 }) });
+      await assertSucceeds(streakUnlock({ greenCredits: 525, totalCreditsEarned: 525, badgeLevel: 'sprout' }));
+    });
+
+    it('denies a badge level the lifetime total hasn\'t reached', async () => {
+      await seed({ [`profiles/${DONOR}`]: onStreak(2, yesterday) });
+      await assertFails(streakUnlock({ badgeLevel: 'sprout' }));
+    });
+  });
+});
+
+describe('profiles: pickup completion progress', () => {
+  const PICKUP = 'pickup-1';
+
+  it('lets the assigned collector pay out the pickup\'s credits', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertSucceeds(completionBatch(dbAs(COLLECTOR), { pickupId: PICKUP, credits: 120 }).commit());
+  });
+
+  it('lets the assigned collector pay out the achievements it unlocks', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertSucceeds(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      unlocks: ['first_drop', 'weight_lifter'],
+    }).commit());
+  });
+
+  it('denies paying more than the pickup\'s credits', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: { greenCredits: 500, totalCreditsEarned: 500 },
+    }).commit());
+  });
+
+  it('denies paying less than the pickup\'s credits', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: { greenCredits: 100, totalCreditsEarned: 100 },
+    }).commit());
+  });
+
+  it('denies a lifetime total that doesn\'t move with the payout', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: { totalCreditsEarned: 10_000 },
+    }).commit());
+  });
+
+  it('denies moving the donor\'s streak on by more than the completion', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: { streakDays: 50, streakLastDay: utcDay(-1) },
+    }).commit());
+  });
+
+  it('denies naming an unlock that wasn\'t written', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: {
+        greenCredits: 170,
+        totalCreditsEarned: 170,
+        lastUnlockedAchievementIds: ['first_drop'],
+      },
+    }).commit());
+  });
+
+  it('denies paying an unlock without naming it', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      unlocks: ['first_drop'],
+      profileChanges: { lastUnlockedAchievementIds: deleteField() },
+    }).commit());
+  });
+
+  it('denies more than six unlocks in one write', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      unlocks: ['first_drop', 'eco_starter', 'green_warrior', 'weight_lifter', 'century', 'half_ton', 'streak_3'],
+    }).commit());
+  });
+
+  it('lets the badge level follow the new lifetime total', async () => {
+    await seed({
+      [`profiles/${DONOR}`]: profile(DONOR, 'donor', { greenCredits: 100, totalCreditsEarned: 1900, badgeLevel: 'sprout' }),
+      [`pickups/${PICKUP}`]: storedPickup('collected'),
+    });
+    await assertSucceeds(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      balance: 100,
+      earned: 1900,
+      profileChanges: { badgeLevel: 'tree' },
+    }).commit());
+  });
+
+  it('denies a badge level the lifetime total hasn\'t reached', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: { badgeLevel: 'earth_guardian' },
+    }).commit());
+  });
+
+  it('denies completed pickups moving by more than one', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: { totalPickupsCompleted: 5 },
+    }).commit());
+  });
+
+  it('denies other profile fields changing with it', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(COLLECTOR), {
+      pickupId: PICKUP,
+      credits: 120,
+      profileChanges: { role: 'admin' },
+    }).commit());
+  });
+
+  it('denies a collector who isn\'t assigned to the pickup', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected') });
+    await assertFails(completionBatch(dbAs(OTHER_COLLECTOR), { pickupId: PICKUP, credits: 120 }).commit());
+  });
+
+  it('denies paying a pickup that was already completed', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('completed', { actualCreditsAwarded: 120 }) });
+    await assertFails(updateDoc(doc(dbAs(COLLECTOR), 'profiles', DONOR), {
+      greenCredits: 120,
+      totalCreditsEarned: 120,
+      totalPickupsCompleted: 1,
+      lastCompletedPickupId: PICKUP,
+    }));
+  });
+
+  it('denies paying the pickup of another donor', async () => {
+    await seed({ [`pickups/${PICKUP}`]: storedPickup('collected', { donorId: OTHER_DONOR }) });
+    await assertFails(completionBatch(dbAs(COLLECTOR), { pickupId: PICKUP, credits: 120 }).commit());
+  });
+});
@@ -15,9 +15,11 @@ export default defineConfig({
       workbox: {
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024, // 5MB
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        // The scanner's model weights (tfhub.dev, storage.googleapis.com) are deliberately not
+        // matched here: they're versioned and stored in IndexedDB by src/lib/model-cache.ts
         runtimeCaching: [
           {
-            urlPattern: /^https:\/\/.+\.googleapis\.com\/.*/i,
+            urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
             handler: 'CacheFirst',
             options: {
               cacheName: 'google-fonts',
@@ -25,7 +27,7 @@ export default defineConfig({
             },
           },
           {
-            urlPattern: /^https:\/\/.+\.gstatic\.com\/.*/i,
+            urlPattern: /^https:\/\/fonts\.gstatic\.com\/.*/i,
             handler: 'CacheFirst',
             options: {
               cacheName: 'google-fonts-static',
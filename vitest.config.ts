@@ -0,0 +1,15 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+// Unit tests run in Node, without the app's Vite plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
+});
@@ -0,0 +1,13 @@
+import { defineConfig, mergeConfig } from "vitest/config"
+import baseConfig from "./vitest.config"
+
+// Tests against the Firestore emulator: run with `npm run test:emulator`, which starts it.
+// Files share the one emulator, so they run one at a time.
+export default mergeConfig(baseConfig, defineConfig({
+  test: {
+    include: ["tests/firestore/**/*.test.ts"],
+    fileParallelism: false,
+    testTimeout: 20_000,
+    hookTimeout: 30_000,
+  },
+}));